@@ -0,0 +1,232 @@
+/**
+ * チェックポイントモジュール
+ * ステージごとの中間結果を日付別の実行ディレクトリに保存し、--from-stage での再開に使う
+ * 実行終了時には統計とSDK使用量を実行ステータスとして記録する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CollectionResult, RunStage, UsageStats, UsageSummary } from '../types/index.js';
+import type { DeduplicationResult } from '../deduplicator/index.js';
+import type { CategorySummary, OrganizedResult, TopArticle } from '../organizer/index.js';
+
+/** 実行ステージ（実行順） */
+export const RUN_STAGES: readonly RunStage[] = ['collect', 'dedup', 'organize', 'render'];
+
+/** ステージごとのチェックポイントファイル名（そのステージの出力） */
+const CHECKPOINT_FILES = {
+  collect: 'collection.json',
+  dedup: 'dedup.json',
+  organize: 'organize.json',
+} as const;
+
+/** 実行ステータスのファイル名 */
+const STATUS_FILE = 'status.json';
+
+/** チェックポイントを保存するステージ */
+type CheckpointStage = keyof typeof CHECKPOINT_FILES;
+
+/**
+ * チェックポイントファイルの内容
+ */
+export interface Checkpoint<T> {
+  stage: CheckpointStage;
+  /** 保存日時（ISO 8601） */
+  savedAt: string;
+  data: T;
+}
+
+/**
+ * 収集ステージのチェックポイント
+ */
+export interface CollectionCheckpoint {
+  collectionResult: CollectionResult;
+  /** 収集時点の前回成功時刻（再開時のFreshness判定に使う） */
+  lastSuccessAt: string | null;
+}
+
+/**
+ * 整理ステージのチェックポイント（レンダリングに必要なもの一式）
+ */
+export interface OrganizeCheckpoint {
+  organized: OrganizedResult;
+  categoryOrder: string[];
+  categorySummaries?: Map<string, CategorySummary>;
+  topArticles: TopArticle[];
+  /** LLMのカテゴリ化が全滅し、ヒューリスティック分類のみだったか */
+  llmFailed: boolean;
+  /** 整理ステージのSDK使用量 */
+  usage?: UsageStats;
+}
+
+/**
+ * 実行ステータス（実行ごとの統計とSDK使用量の記録）
+ */
+export interface RunStatusRecord {
+  /** レポート日付（YYYY-MM-DD） */
+  date: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  stats: {
+    collected: number;
+    afterDedup: number;
+    freshArticles: number;
+    /** レポート掲載記事数（簡易レポートの場合はなし） */
+    inReport?: number;
+    executionTimeMs: number;
+  };
+  usage: UsageSummary;
+  errors: string[];
+}
+
+/**
+ * CheckpointStoreクラス
+ */
+export class CheckpointStore {
+  private runDir: string;
+
+  /**
+   * @param runDir - 実行ディレクトリ（例: data/runs/2024-01-15）
+   */
+  constructor(runDir: string) {
+    this.runDir = runDir;
+  }
+
+  saveCollection(data: CollectionCheckpoint): void {
+    this.save('collect', data);
+  }
+
+  loadCollection(): Checkpoint<CollectionCheckpoint> | null {
+    return this.load<CollectionCheckpoint>('collect');
+  }
+
+  saveDedup(data: DeduplicationResult): void {
+    this.save('dedup', data);
+  }
+
+  loadDedup(): Checkpoint<DeduplicationResult> | null {
+    return this.load<DeduplicationResult>('dedup');
+  }
+
+  saveOrganize(data: OrganizeCheckpoint): void {
+    this.save('organize', data);
+  }
+
+  loadOrganize(): Checkpoint<OrganizeCheckpoint> | null {
+    return this.load<OrganizeCheckpoint>('organize');
+  }
+
+  /**
+   * 実行ステータスを保存する
+   */
+  saveStatus(status: RunStatusRecord): void {
+    const filePath = this.writeJson(STATUS_FILE, status);
+    console.log(`[Checkpoint] Saved run status to ${filePath}`);
+  }
+
+  /**
+   * 実行ステータスを読み込む
+   */
+  loadStatus(): RunStatusRecord | null {
+    const filePath = path.join(this.runDir, STATUS_FILE);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RunStatusRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 実行ディレクトリのパス
+   */
+  getRunDir(): string {
+    return this.runDir;
+  }
+
+  private save(stage: CheckpointStage, data: unknown): void {
+    const checkpoint = { stage, savedAt: new Date().toISOString(), data };
+    const filePath = this.writeJson(CHECKPOINT_FILES[stage], checkpoint);
+    console.log(`[Checkpoint] Saved ${stage} checkpoint to ${filePath}`);
+  }
+
+  /**
+   * 実行ディレクトリにJSONを書き込む
+   * 書きかけのファイルを残さないよう一時ファイル経由で置き換える
+   */
+  private writeJson(fileName: string, value: unknown): string {
+    fs.mkdirSync(this.runDir, { recursive: true });
+    const filePath = path.join(this.runDir, fileName);
+    fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(value, mapReplacer), 'utf-8');
+    fs.renameSync(`${filePath}.tmp`, filePath);
+    return filePath;
+  }
+
+  private load<T>(stage: CheckpointStage): Checkpoint<T> | null {
+    const filePath = path.join(this.runDir, CHECKPOINT_FILES[stage]);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const checkpoint = JSON.parse(fs.readFileSync(filePath, 'utf-8'), mapReviver) as Checkpoint<T>;
+      if (checkpoint.stage !== stage || typeof checkpoint.savedAt !== 'string') {
+        console.log(`[Checkpoint] Ignoring malformed ${stage} checkpoint: ${filePath}`);
+        return null;
+      }
+      return checkpoint;
+    } catch (error) {
+      console.log(
+        `[Checkpoint] Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+}
+
+/**
+ * 指定ステージから再開する場合に、そのステージを実行するか
+ * @example shouldRunStage('organize', 'dedup') // true（dedupから再開するならorganizeも実行）
+ */
+export function shouldRunStage(stage: RunStage, fromStage: RunStage): boolean {
+  return RUN_STAGES.indexOf(stage) >= RUN_STAGES.indexOf(fromStage);
+}
+
+/**
+ * 文字列がRunStageか
+ */
+export function isRunStage(value: string | undefined): value is RunStage {
+  return RUN_STAGES.includes(value as RunStage);
+}
+
+/**
+ * MapをJSONに保存できる形に変換する
+ */
+function mapReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Map ? { __map: [...value.entries()] } : value;
+}
+
+/**
+ * mapReplacerで保存したMapを復元する
+ */
+function mapReviver(_key: string, value: unknown): unknown {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    '__map' in value &&
+    Array.isArray((value as { __map: unknown }).__map)
+  ) {
+    return new Map((value as { __map: Array<[unknown, unknown]> }).__map);
+  }
+  return value;
+}
+
+/**
+ * CheckpointStoreのファクトリ関数
+ */
+export function createCheckpointStore(runDir: string): CheckpointStore {
+  return new CheckpointStore(runDir);
+}
@@ -0,0 +1,125 @@
+/**
+ * 実行予算（経過時間・SDK呼び出し回数・推定コスト）
+ * 超過時はAbortSignalで実行中の処理に通知する
+ */
+
+import type { RunBudgetConfig, UsageStats } from '../types/index.js';
+import { formatCost } from './usage.js';
+
+/**
+ * 予算の消費状況
+ */
+export interface BudgetStats {
+  elapsedMs: number;
+  sdkCalls: number;
+  costUsd: number;
+}
+
+/**
+ * RunBudgetクラス
+ */
+export class RunBudget {
+  private config: RunBudgetConfig;
+  private startTime: number;
+  private sdkCalls = 0;
+  private costUsd = 0;
+  private exhaustedReason: string | null = null;
+  private controller = new AbortController();
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * @param config - 予算設定
+   * @param startTime - 実行開始時刻（経過時間の起点、デフォルト: 現在時刻）
+   */
+  constructor(config: RunBudgetConfig, startTime: number = Date.now()) {
+    this.config = config;
+    this.startTime = startTime;
+
+    // 実行中のSDK呼び出しも期限で中断できるようにタイマーで通知する
+    if (config.maxDurationMs !== undefined) {
+      const remainingMs = Math.max(0, config.maxDurationMs - (Date.now() - startTime));
+      this.timer = setTimeout(() => this.check(), remainingMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * SDK呼び出し1回分を記録する
+   * @param usage - 呼び出しの使用量（カセット再生・失敗時などはなし）
+   */
+  record(usage?: UsageStats): void {
+    this.sdkCalls += 1;
+    this.costUsd += usage?.costUsd ?? 0;
+    this.check();
+  }
+
+  /**
+   * 予算を使い切ったか
+   */
+  isExhausted(): boolean {
+    this.check();
+    return this.exhaustedReason !== null;
+  }
+
+  /**
+   * 超過した予算の説明（超過していない場合はnull）
+   * @example 'time limit 600s exceeded'
+   */
+  getExhaustedReason(): string | null {
+    return this.exhaustedReason;
+  }
+
+  /**
+   * 予算超過時にabortされるシグナル
+   */
+  getSignal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 予算の消費状況を取得する
+   */
+  getStats(): BudgetStats {
+    return { elapsedMs: Date.now() - this.startTime, sdkCalls: this.sdkCalls, costUsd: this.costUsd };
+  }
+
+  /**
+   * 期限タイマーを解除する
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * 各予算の上限を確認し、超過していればシグナルをabortする
+   */
+  private check(): void {
+    if (this.exhaustedReason !== null) {
+      return;
+    }
+
+    const { maxDurationMs, maxSdkCalls, maxCostUsd } = this.config;
+    let reason: string | null = null;
+    if (maxDurationMs !== undefined && Date.now() - this.startTime >= maxDurationMs) {
+      reason = `time limit ${Math.round(maxDurationMs / 1000)}s exceeded`;
+    } else if (maxSdkCalls !== undefined && this.sdkCalls >= maxSdkCalls) {
+      reason = `SDK call limit ${maxSdkCalls} reached`;
+    } else if (maxCostUsd !== undefined && this.costUsd >= maxCostUsd) {
+      reason = `cost limit ${formatCost(maxCostUsd)} reached`;
+    }
+
+    if (reason) {
+      this.exhaustedReason = reason;
+      this.dispose();
+      console.log(`[Budget] Run budget exhausted: ${reason}`);
+      this.controller.abort(new Error(`Run budget exhausted: ${reason}`));
+    }
+  }
+}
+
+/**
+ * RunBudgetのファクトリ関数
+ */
+export function createRunBudget(config: RunBudgetConfig, startTime?: number): RunBudget {
+  return new RunBudget(config, startTime);
+}
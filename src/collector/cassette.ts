@@ -0,0 +1,69 @@
+/**
+ * SDK呼び出しのカセット（記録・再生）
+ * プロンプトと応答の組をファイルに保存し、ネットワークなしで同じ応答を再現する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * カセット1件（SDK呼び出し1回分）
+ */
+export interface CassetteEntry {
+  /** ソースID（またはorganizer等の呼び出しラベル） */
+  sourceId: string;
+  /** 許可したツール */
+  tools: string[];
+  /** プロンプトとツールから計算したハッシュ */
+  hash: string;
+  prompt: string;
+  response: string;
+  /** 記録日時（ISO 8601） */
+  recordedAt: string;
+}
+
+/**
+ * プロンプトとツールの組からカセットのハッシュを計算する
+ * モデルやタイムアウトは含めず、設定が変わっても同じ呼び出しとして再生できるようにする
+ */
+export function computeCassetteHash(prompt: string, tools: string[]): string {
+  return createHash('sha256').update(JSON.stringify({ prompt, tools })).digest('hex');
+}
+
+/**
+ * カセットのファイルパスを取得する
+ * @example getCassettePath('cassettes', 'hacker_news', 'ab12...') // cassettes/hacker_news-ab12cd34ef56.json
+ */
+export function getCassettePath(directory: string, sourceId: string, hash: string): string {
+  const safeSourceId = sourceId.replace(/[^A-Za-z0-9_-]/g, '_');
+  return path.join(directory, `${safeSourceId}-${hash.slice(0, 16)}.json`);
+}
+
+/**
+ * カセットを保存する（同じ呼び出しは上書き）
+ */
+export async function saveCassette(directory: string, entry: CassetteEntry): Promise<string> {
+  const filePath = getCassettePath(directory, entry.sourceId, entry.hash);
+  await fs.promises.mkdir(directory, { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(entry, null, 2), 'utf-8');
+  return filePath;
+}
+
+/**
+ * カセットを読み込む
+ * @returns 見つからない場合・ハッシュが一致しない場合はnull
+ */
+export async function loadCassette(
+  directory: string,
+  sourceId: string,
+  hash: string
+): Promise<CassetteEntry | null> {
+  const filePath = getCassettePath(directory, sourceId, hash);
+  try {
+    const entry = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as CassetteEntry;
+    return entry.hash === hash ? entry : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * ソースごとのサーキットブレーカー
+ * 連続してタイムアウトしたソースは、その実行の残りの間は呼び出さない
+ */
+
+/** 連続タイムアウトの回数のデフォルト上限 */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 3;
+
+/**
+ * CircuitBreakerクラス
+ */
+export class CircuitBreaker {
+  private threshold: number;
+  private consecutiveTimeouts = new Map<string, number>();
+  private openSources = new Set<string>();
+
+  /**
+   * @param threshold - 回路を開くまでの連続タイムアウト回数
+   */
+  constructor(threshold: number = DEFAULT_CIRCUIT_BREAKER_THRESHOLD) {
+    this.threshold = Math.max(1, threshold);
+  }
+
+  /**
+   * ソースへの呼び出しが停止されているか
+   */
+  isOpen(sourceId: string): boolean {
+    return this.openSources.has(sourceId);
+  }
+
+  /**
+   * 呼び出しの成功を記録する（連続タイムアウト回数をリセット）
+   */
+  recordSuccess(sourceId: string): void {
+    this.consecutiveTimeouts.delete(sourceId);
+  }
+
+  /**
+   * タイムアウトを記録する
+   * @returns この記録で回路が開いた場合true
+   */
+  recordTimeout(sourceId: string): boolean {
+    const count = (this.consecutiveTimeouts.get(sourceId) ?? 0) + 1;
+    this.consecutiveTimeouts.set(sourceId, count);
+
+    if (count >= this.threshold && !this.openSources.has(sourceId)) {
+      this.openSources.add(sourceId);
+      console.log(
+        `[CircuitBreaker] Circuit opened for ${sourceId} after ${count} consecutive timeouts, skipping for the rest of the run`
+      );
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 回路を開くまでの連続タイムアウト回数を取得する
+   */
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  /**
+   * 停止中のソース一覧を取得する
+   */
+  getOpenSources(): string[] {
+    return [...this.openSources];
+  }
+}
+
+/**
+ * CircuitBreakerのファクトリ関数
+ */
+export function createCircuitBreaker(threshold?: number): CircuitBreaker {
+  return new CircuitBreaker(threshold);
+}
@@ -0,0 +1,50 @@
+/**
+ * SDK実行のインターフェース
+ * 収集・整理はこのインターフェース経由で実行し、テストやCIではフェイクに差し替える
+ */
+
+import type { SourceConfig } from '../types/index.js';
+import {
+  executePrompt,
+  executeWebFetch,
+  executeWebSearch,
+  type ExecutionResult,
+  type ExecutorOptions,
+} from './sdk-executor.js';
+
+/**
+ * SDK実行インターフェース
+ * 実装はリトライを含むSDK呼び出しごとにoptions.budgetへ記録する
+ */
+export interface Executor {
+  /** WebFetchでソースを取得する */
+  webFetch(
+    url: string,
+    prompt: string,
+    source: SourceConfig,
+    options: ExecutorOptions
+  ): Promise<ExecutionResult>;
+  /** WebSearchでソースを検索する */
+  webSearch(
+    query: string,
+    prompt: string,
+    source: SourceConfig,
+    options: ExecutorOptions
+  ): Promise<ExecutionResult>;
+  /** ツールなしでプロンプトを実行する（整理・ダイジェスト用） */
+  prompt(
+    prompt: string,
+    label: string,
+    options: ExecutorOptions,
+    maxRetries?: number
+  ): Promise<ExecutionResult>;
+}
+
+/**
+ * Claude Agent SDK を呼び出すデフォルトの実装
+ */
+export const sdkExecutor: Executor = {
+  webFetch: (url, prompt, source, options) => executeWebFetch(url, prompt, source, options),
+  webSearch: (query, prompt, source, options) => executeWebSearch(query, prompt, source, options),
+  prompt: (prompt, label, options, maxRetries) => executePrompt(prompt, label, options, maxRetries),
+};
@@ -0,0 +1,158 @@
+/**
+ * フィクスチャに基づくフェイクExecutor
+ * ソースごとに用意した応答（記事JSON・壊れた出力・タイムアウト・中断など）を返し、
+ * ネットワークなしでパイプライン全体を実行できるようにする
+ */
+
+import * as fs from 'fs';
+import type { CollectionError, SourceConfig } from '../types/index.js';
+import type { Executor } from './executor.js';
+import { getSourceMaxRetries, type ExecutionResult, type ExecutorOptions } from './sdk-executor.js';
+
+/**
+ * フェイクで再現する失敗の種類
+ */
+export type FakeErrorKind = 'timeout' | 'abort' | 'network' | 'rate_limit';
+
+/**
+ * フェイクの応答1件
+ * - articles: 記事配列をJSONとして返す
+ * - content: 生の応答をそのまま返す（壊れたJSONの再現用）
+ * - error: 実行エラーを返す
+ */
+export type FakeResponse =
+  | { articles: unknown[] }
+  | { content: string }
+  | { error: FakeErrorKind; message?: string };
+
+/**
+ * フィクスチャ（キーはソースID、整理は 'organizer' などの呼び出しラベル）
+ * 配列の場合は呼び出しごとに順に返し、使い切ったら最後の応答を繰り返す
+ */
+export type FakeFixtures = Record<string, FakeResponse | FakeResponse[]>;
+
+/** 失敗の種類ごとのエラー（実際のSDKのメッセージに合わせる） */
+const FAKE_ERRORS: Record<FakeErrorKind, { errorType: CollectionError['errorType']; message: string }> = {
+  timeout: { errorType: 'timeout', message: 'Request timeout' },
+  abort: { errorType: 'timeout', message: 'Claude Code process aborted by user' },
+  network: { errorType: 'network', message: 'Network error: fetch failed' },
+  rate_limit: { errorType: 'rate_limit', message: '429 Too Many Requests' },
+};
+
+/**
+ * FakeExecutorクラス
+ */
+export class FakeExecutor implements Executor {
+  private fixtures: FakeFixtures;
+  private callCounts = new Map<string, number>();
+
+  constructor(fixtures: FakeFixtures) {
+    this.fixtures = fixtures;
+  }
+
+  webFetch(
+    _url: string,
+    _prompt: string,
+    source: SourceConfig,
+    options: ExecutorOptions
+  ): Promise<ExecutionResult> {
+    return Promise.resolve(
+      this.respond(source.id, getSourceMaxRetries(source, options.rateControl), options)
+    );
+  }
+
+  webSearch(
+    _query: string,
+    _prompt: string,
+    source: SourceConfig,
+    options: ExecutorOptions
+  ): Promise<ExecutionResult> {
+    return Promise.resolve(
+      this.respond(source.id, getSourceMaxRetries(source, options.rateControl), options)
+    );
+  }
+
+  prompt(
+    _prompt: string,
+    label: string,
+    options: ExecutorOptions,
+    maxRetries: number = 1
+  ): Promise<ExecutionResult> {
+    return Promise.resolve(this.respond(label, maxRetries, options));
+  }
+
+  /**
+   * 指定キーの呼び出し回数を取得する
+   */
+  getCallCount(key: string): number {
+    return this.callCounts.get(key) ?? 0;
+  }
+
+  /**
+   * 次の応答を返す
+   * @param retryCount - エラー時に記録するリトライ回数（実際の実行でリトライを使い切った状態を再現）
+   * @param options - 実行オプション（予算にはリトライを含めた呼び出し回数を記録する）
+   */
+  private respond(key: string, retryCount: number, options: ExecutorOptions): ExecutionResult {
+    // 実際の実行と同じく、中断済みなら呼び出さず応答も消費しない
+    if (options.signal?.aborted) {
+      return this.fail(key, 'timeout', 'Operation aborted before start', 0);
+    }
+
+    const index = this.getCallCount(key);
+    this.callCounts.set(key, index + 1);
+
+    const fixture = this.fixtures[key];
+    const responses = Array.isArray(fixture) ? fixture : fixture ? [fixture] : [];
+    const response = responses[Math.min(index, responses.length - 1)];
+
+    if (!response) {
+      return this.fail(key, 'unknown', `No fake response for ${key}`, 0);
+    }
+
+    if ('articles' in response) {
+      options.budget?.record();
+      return { success: true, content: JSON.stringify({ articles: response.articles }) };
+    }
+    if ('content' in response) {
+      options.budget?.record();
+      return { success: true, content: response.content };
+    }
+
+    for (let attempt = 0; attempt <= retryCount; attempt++) {
+      options.budget?.record();
+    }
+    const failure = FAKE_ERRORS[response.error];
+    return this.fail(key, failure.errorType, response.message ?? failure.message, retryCount);
+  }
+
+  /**
+   * 失敗結果を作成する
+   */
+  private fail(
+    key: string,
+    errorType: CollectionError['errorType'],
+    message: string,
+    retryCount: number
+  ): ExecutionResult {
+    return {
+      success: false,
+      content: '',
+      error: { sourceId: key, errorType, message, timestamp: new Date().toISOString(), retryCount },
+    };
+  }
+}
+
+/**
+ * フィクスチャファイル（JSON）を読み込む
+ */
+export function loadFakeFixtures(filePath: string): FakeFixtures {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FakeFixtures;
+}
+
+/**
+ * FakeExecutorのファクトリ関数
+ */
+export function createFakeExecutor(fixtures: FakeFixtures): FakeExecutor {
+  return new FakeExecutor(fixtures);
+}
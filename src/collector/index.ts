@@ -11,6 +11,9 @@ import type {
   CollectionError,
   GeneratedQuery,
   AgentConfig,
+  UsageStats,
+  SkippedSource,
+  ArticleDiagnostic,
 } from '../types/index.js';
 
 import {
@@ -21,15 +24,26 @@ import {
   parseCollectionResult,
   type ParseResult,
 } from './prompts.js';
-import {
-  executeWebFetch,
-  executeWebSearch,
-  type ExecutorOptions,
-} from './sdk-executor.js';
+import type { ExecutorOptions } from './sdk-executor.js';
+import { sdkExecutor, type Executor } from './executor.js';
+import { addUsage, createEmptyUsage } from './usage.js';
+import type { RunBudget } from './budget.js';
+import { createCircuitBreaker, type CircuitBreaker } from './circuit-breaker.js';
+import { createWorkerPool, getDomainLimit, getSourceDomain } from './scheduler.js';
+import { parseWithLocalRepair, resolveJsonRepairPolicy } from './json-repair.js';
+import { validateArticles } from './validation.js';
 
 // Re-export prompts
 export * from './prompts.js';
 export * from './sdk-executor.js';
+export * from './executor.js';
+export * from './fake-executor.js';
+export * from './usage.js';
+export * from './budget.js';
+export * from './scheduler.js';
+export * from './circuit-breaker.js';
+export * from './json-repair.js';
+export * from './validation.js';
 
 /**
  * 収集オプション
@@ -49,6 +63,12 @@ export interface CollectorOptions {
   dryRun?: boolean;
   /** Agent実行設定 */
   agentConfig?: AgentConfig;
+  /** SDK実行（デフォルト: Claude Agent SDK） */
+  executor?: Executor;
+  /** 実行予算（超過時はTier 2/3のソースをスキップし、実行中のTier 3を中断する） */
+  budget?: RunBudget;
+  /** サーキットブレーカー（実行内で共有する。省略時はCollectorごとに作成） */
+  circuitBreaker?: CircuitBreaker;
 }
 
 /**
@@ -62,6 +82,22 @@ export interface CollectionTask {
   query?: string;
 }
 
+/**
+ * 単一ソースの収集結果
+ */
+export interface SourceCollectionResult {
+  articles: RawArticle[];
+  error?: CollectionError;
+  /** SDK使用量（JSON修復の再取得分を含む） */
+  usage?: UsageStats;
+  /** 予算超過で中断した場合の理由 */
+  skippedReason?: string;
+  /** 記事の検証で見つかった問題 */
+  diagnostics?: ArticleDiagnostic[];
+  /** 許可ドメイン外のURLのため隔離した記事 */
+  quarantined?: RawArticle[];
+}
+
 /**
  * Collectorクラス
  */
@@ -73,6 +109,9 @@ export class Collector {
   private timeout: number;
   private dryRun: boolean;
   private agentConfig?: AgentConfig;
+  private executor: Executor;
+  private budget?: RunBudget;
+  private circuitBreaker: CircuitBreaker;
 
   constructor(options: CollectorOptions) {
     this.sourcesConfig = options.sourcesConfig;
@@ -82,6 +121,11 @@ export class Collector {
     this.timeout = options.timeout ?? options.sourcesConfig.rateControl.defaultTimeout;
     this.dryRun = options.dryRun ?? false;
     this.agentConfig = options.agentConfig;
+    this.executor = options.executor ?? sdkExecutor;
+    this.budget = options.budget;
+    this.circuitBreaker =
+      options.circuitBreaker ??
+      createCircuitBreaker(options.sourcesConfig.rateControl.circuitBreakerThreshold);
   }
 
   /**
@@ -91,35 +135,18 @@ export class Collector {
     const startTime = Date.now();
     const enabledSources = this.sourcesConfig.sources.filter((s) => s.enabled);
 
-    // ソースをTierでグループ化
-    const tier1Sources = enabledSources.filter((s) => s.tier === 1);
-    const tier2Sources = enabledSources.filter((s) => s.tier === 2);
-    const tier3Sources = enabledSources.filter((s) => s.tier === 3);
-
-    const allArticles: RawArticle[] = [];
-    const errors: CollectionError[] = [];
-    const sourcesStatus: Record<string, 'success' | 'partial' | 'failed'> = {};
-
-    // Tier 1を優先的に処理
-    const tier1Results = await this.collectSources(tier1Sources);
-    allArticles.push(...tier1Results.articles);
-    errors.push(...tier1Results.errors);
-    Object.assign(sourcesStatus, tier1Results.status);
-
-    // Tier 2を処理
-    const tier2Results = await this.collectSources(tier2Sources);
-    allArticles.push(...tier2Results.articles);
-    errors.push(...tier2Results.errors);
-    Object.assign(sourcesStatus, tier2Results.status);
-
-    // Tier 3（best-effort）を処理
-    const tier3Results = await this.collectSources(tier3Sources);
-    allArticles.push(...tier3Results.articles);
-    // Tier 3のエラーも記録する（警告レベル、致命的ではない）
-    for (const error of tier3Results.errors) {
-      errors.push({ ...error, errorType: error.errorType ?? 'unknown' });
-    }
-    Object.assign(sourcesStatus, tier3Results.status);
+    // Tierはキューの優先順位として扱う（Tier 1から順に取り出し、Tierの境界で待たない）
+    const queue = [...enabledSources].sort((a, b) => a.tier - b.tier);
+    const {
+      articles: allArticles,
+      errors,
+      status: sourcesStatus,
+      usage,
+      skipped: skippedSources,
+      latencyMs,
+      diagnostics,
+      quarantined,
+    } = await this.collectSources(queue);
 
     const endTime = Date.now();
 
@@ -135,69 +162,139 @@ export class Collector {
         totalArticles: allArticles.length,
         executionTimeMs: endTime - startTime,
       },
+      usage,
+      skippedSources,
+      latencyMs,
+      diagnostics,
+      quarantinedArticles: quarantined,
     };
   }
 
   /**
    * 指定されたソースから情報を収集する
+   * maxConcurrencyのワーカープールで、ドメインごとの同時実行数・開始間隔を守りながら順に処理する
    */
   private async collectSources(sources: SourceConfig[]): Promise<{
     articles: RawArticle[];
     errors: CollectionError[];
     status: Record<string, 'success' | 'partial' | 'failed'>;
+    usage: Record<string, UsageStats>;
+    skipped: SkippedSource[];
+    latencyMs: Record<string, number>;
+    diagnostics: ArticleDiagnostic[];
+    quarantined: RawArticle[];
   }> {
     const articles: RawArticle[] = [];
     const errors: CollectionError[] = [];
     const status: Record<string, 'success' | 'partial' | 'failed'> = {};
+    const usage: Record<string, UsageStats> = {};
+    const skipped: SkippedSource[] = [];
+    const latencyMs: Record<string, number> = {};
+    const diagnostics: ArticleDiagnostic[] = [];
+    const quarantined: RawArticle[] = [];
+
+    const rateControl = this.sourcesConfig.rateControl;
+    const pool = createWorkerPool({
+      concurrency: this.maxConcurrency,
+      getDomainLimit: (domain) => getDomainLimit(domain, rateControl),
+    });
+
+    // ドライランではアクセスしないためドメイン制限を掛けない
+    const results = await pool.run(
+      sources,
+      (source) => (this.dryRun ? null : getSourceDomain(source)),
+      (source): ReturnType<Collector['collectFromSource']> => {
+        // 予算を使い切ったらTier 1以外は新たにスケジュールしない
+        const budgetReason = this.getBudgetSkipReason(source);
+        if (budgetReason) {
+          return Promise.resolve({ articles: [], skippedReason: budgetReason });
+        }
+        const startedAt = Date.now();
+        return this.collectFromSource(source).finally(() => {
+          latencyMs[source.id] = Date.now() - startedAt;
+        });
+      }
+    );
 
-    // 並行処理（maxConcurrencyで制限）
-    const chunks = this.chunkArray(sources, this.maxConcurrency);
+    for (let i = 0; i < results.length; i++) {
+      const source = sources[i];
+      const result = results[i];
 
-    for (const chunk of chunks) {
-      const results = await Promise.allSettled(
-        chunk.map((source) => this.collectFromSource(source))
-      );
+      if (!source) continue;
 
-      for (let i = 0; i < results.length; i++) {
-        const source = chunk[i];
-        const result = results[i];
-
-        if (!source) continue;
-
-        if (result?.status === 'fulfilled') {
-          articles.push(...result.value.articles);
-          if (result.value.error) {
-            errors.push(result.value.error);
-            status[source.id] = 'partial';
-          } else {
-            status[source.id] = 'success';
-          }
-        } else if (result?.status === 'rejected') {
-          const errorMessage = result.reason instanceof Error
-            ? result.reason.message
-            : String(result.reason);
-          errors.push({
-            sourceId: source.id,
-            errorType: 'unknown',
-            message: errorMessage,
-            timestamp: new Date().toISOString(),
-            retryCount: 0,
-          });
-          status[source.id] = 'failed';
+      if (result?.status === 'fulfilled') {
+        articles.push(...result.value.articles);
+        if (result.value.diagnostics) {
+          diagnostics.push(...result.value.diagnostics);
         }
+        if (result.value.quarantined) {
+          quarantined.push(...result.value.quarantined);
+        }
+        if (result.value.usage) {
+          usage[source.id] = result.value.usage;
+        }
+        if (result.value.skippedReason) {
+          skipped.push({ sourceId: source.id, tier: source.tier, reason: result.value.skippedReason });
+        } else if (result.value.error) {
+          errors.push(result.value.error);
+          status[source.id] = 'partial';
+        } else {
+          status[source.id] = 'success';
+        }
+      } else if (result?.status === 'rejected') {
+        const errorMessage = result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason);
+        errors.push({
+          sourceId: source.id,
+          errorType: 'unknown',
+          message: errorMessage,
+          timestamp: new Date().toISOString(),
+          retryCount: 0,
+        });
+        status[source.id] = 'failed';
       }
     }
 
-    return { articles, errors, status };
+    if (skipped.length > 0) {
+      console.log(
+        `[Collector] Skipped ${skipped.length} sources for budget: ${skipped.map((s) => s.sourceId).join(', ')}`
+      );
+    }
+
+    return { articles, errors, status, usage, skipped, latencyMs, diagnostics, quarantined };
   }
 
   /**
-   * 単一ソースから情報を収集する
+   * 単一ソースから情報を収集し、記事を検証する
    */
-  async collectFromSource(source: SourceConfig): Promise<{
-    articles: RawArticle[];
-    error?: CollectionError;
-  }> {
+  async collectFromSource(source: SourceConfig): Promise<SourceCollectionResult> {
+    const result = await this.executeSource(source);
+    if (result.articles.length === 0) {
+      return result;
+    }
+
+    const validation = validateArticles(result.articles, source);
+    if (validation.diagnostics.length === 0) {
+      return result;
+    }
+
+    const rejected = result.articles.length - validation.articles.length - validation.quarantined.length;
+    console.log(
+      `[Collector] Validation for ${source.id}: ${validation.diagnostics.length} issues, ${rejected} articles rejected, ${validation.quarantined.length} quarantined`
+    );
+    return {
+      ...result,
+      articles: validation.articles,
+      diagnostics: validation.diagnostics,
+      quarantined: validation.quarantined.length > 0 ? validation.quarantined : undefined,
+    };
+  }
+
+  /**
+   * 単一ソースの収集を実行する（パース・JSON修復まで）
+   */
+  private async executeSource(source: SourceConfig): Promise<SourceCollectionResult> {
     const task = this.buildTask(source);
 
     if (this.dryRun) {
@@ -215,15 +312,20 @@ export class Collector {
       maxTurns: this.agentConfig?.maxTurns,
       permissionMode: this.agentConfig?.permissionMode,
       timeout: this.agentConfig?.timeout,
+      cassette: this.agentConfig?.cassette,
+      // Tier 3（best-effort）は予算超過時に実行中でも中断する
+      signal: source.tier === 3 ? this.budget?.getSignal() : undefined,
+      circuitBreaker: this.circuitBreaker,
+      budget: this.budget,
     };
 
     let result;
     if (task.method === 'WebFetch' && task.url) {
       console.log(`[Collector] Executing WebFetch for ${source.id}: ${task.url}`);
-      result = await executeWebFetch(task.url, task.prompt, source, executorOptions);
+      result = await this.executor.webFetch(task.url, task.prompt, source, executorOptions);
     } else if (task.method === 'WebSearch' && task.query) {
       console.log(`[Collector] Executing WebSearch for ${source.id}: ${task.query}`);
-      result = await executeWebSearch(task.query, task.prompt, source, executorOptions);
+      result = await this.executor.webSearch(task.query, task.prompt, source, executorOptions);
     } else {
       return {
         articles: [],
@@ -237,26 +339,30 @@ export class Collector {
       };
     }
 
+    let usage = result.usage;
+    const budgetReason = this.budget?.getExhaustedReason();
+    if (!result.success && source.tier === 3 && budgetReason) {
+      console.log(`[Collector] Cancelled ${source.id} for budget: ${budgetReason}`);
+      return { articles: [], usage, skippedReason: budgetReason };
+    }
     if (!result.success) {
       console.log(`[Collector] Failed to collect from ${source.id}: ${result.error?.message}`);
-      return { articles: [], error: result.error };
+      return { articles: [], error: result.error, usage };
     }
 
     // 収集結果をパース
     const parseResult = this.parseResult(result.content, source.id);
     console.log(`[Collector] Collected ${parseResult.articles.length} articles from ${source.id}`);
 
-    // パースエラーがある場合はpartialステータスとして扱う
+    // パースエラーがある場合は修復を試み、直らなければpartialステータスとして扱う
     if (parseResult.parseError) {
-      const repairedParseResult = await this.retryStrictJsonRepairIfNeeded(
-        source,
-        task,
-        result.content,
-        executorOptions
-      );
+      const repairedParseResult = await this.repairJsonIfNeeded(source, result.content, executorOptions);
+      if (repairedParseResult?.usage) {
+        usage = addUsage(usage ?? createEmptyUsage(), repairedParseResult.usage);
+      }
 
       if (repairedParseResult && !repairedParseResult.parseError) {
-        return { articles: repairedParseResult.articles };
+        return { articles: repairedParseResult.articles, usage };
       }
 
       const finalParseResult = repairedParseResult ?? parseResult;
@@ -274,10 +380,11 @@ export class Collector {
           timestamp: new Date().toISOString(),
           retryCount: 0,
         },
+        usage,
       };
     }
 
-    return { articles: parseResult.articles };
+    return { articles: parseResult.articles, usage };
   }
 
   /**
@@ -361,51 +468,76 @@ export class Collector {
   }
 
   /**
-   * Anthropic向けにJSON整形の再取得を1回だけ試みる
+   * ソースのJSON修復ポリシーに従ってパース失敗の修復を試みる
+   * まずローカル修復を行い、直らなければLLMにJSON整形を最大maxAttempts回依頼する
+   * @returns 修復結果（修復を試みなかった場合はundefined）
    */
-  private async retryStrictJsonRepairIfNeeded(
+  private async repairJsonIfNeeded(
     source: SourceConfig,
-    task: CollectionTask,
     rawContent: string,
     executorOptions: ExecutorOptions
-  ): Promise<ParseResult | undefined> {
-    if (source.id !== 'anthropic_blog' || task.method !== 'WebFetch' || !task.url) {
-      return undefined;
+  ): Promise<(ParseResult & { usage?: UsageStats }) | undefined> {
+    const policy = resolveJsonRepairPolicy(source.jsonRepair);
+
+    if (policy.local) {
+      const locallyRepaired = parseWithLocalRepair(rawContent, source.id);
+      if (locallyRepaired) {
+        console.log(`[Collector] Repaired JSON locally for ${source.id}: ${locallyRepaired.articles.length} articles`);
+        return locallyRepaired;
+      }
     }
 
-    console.log('[Collector] Retrying anthropic_blog with strict JSON repair prompt');
-    const repairPrompt = buildStrictJsonRepairPrompt(source, rawContent);
-    const repairResult = await executeWebFetch(task.url, repairPrompt, source, executorOptions);
+    let lastResult: (ParseResult & { usage?: UsageStats }) | undefined;
+    let usage: UsageStats | undefined;
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const budgetReason = this.getBudgetSkipReason(source);
+      if (budgetReason) {
+        console.log(`[Collector] Skipping JSON repair for ${source.id}: ${budgetReason}`);
+        break;
+      }
 
-    if (!repairResult.success) {
-      return {
-        articles: [],
-        parseError: `JSON repair execution failed: ${repairResult.error?.message ?? 'unknown error'}`,
-      };
-    }
+      console.log(`[Collector] Retrying ${source.id} with strict JSON repair prompt (${attempt}/${policy.maxAttempts})`);
+      const repairResult = await this.executor.prompt(
+        buildStrictJsonRepairPrompt(source, rawContent),
+        source.id,
+        { ...executorOptions, model: policy.model ?? executorOptions.model }
+      );
+      if (repairResult.usage) {
+        usage = addUsage(usage ?? createEmptyUsage(), repairResult.usage);
+      }
 
-    const repairedParse = this.parseResult(repairResult.content, source.id);
-    console.log(`[Collector] JSON repair collected ${repairedParse.articles.length} articles from ${source.id}`);
+      if (!repairResult.success) {
+        lastResult = {
+          articles: [],
+          parseError: `JSON repair execution failed: ${repairResult.error?.message ?? 'unknown error'}`,
+          usage,
+        };
+        continue;
+      }
 
-    if (repairedParse.parseError) {
-      return {
-        ...repairedParse,
-        parseError: `JSON repair failed: ${repairedParse.parseError}`,
-      };
+      const repairedParse = this.parseResult(repairResult.content, source.id);
+      const finalParse = repairedParse.parseError
+        ? (policy.local ? parseWithLocalRepair(repairResult.content, source.id) : null) ?? repairedParse
+        : repairedParse;
+      console.log(`[Collector] JSON repair collected ${finalParse.articles.length} articles from ${source.id}`);
+
+      if (!finalParse.parseError) {
+        return { ...finalParse, usage };
+      }
+      lastResult = { ...finalParse, parseError: `JSON repair failed: ${finalParse.parseError}`, usage };
     }
 
-    return repairedParse;
+    return lastResult;
   }
 
   /**
-   * 配列をチャンクに分割する
+   * 予算超過でスキップする場合の理由を取得する（Tier 1は常に実行する）
    */
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
+  private getBudgetSkipReason(source: SourceConfig): string | null {
+    if (!this.budget || source.tier === 1 || !this.budget.isExhausted()) {
+      return null;
     }
-    return chunks;
+    return this.budget.getExhaustedReason();
   }
 
   /**
@@ -0,0 +1,194 @@
+/**
+ * JSONのローカル修復
+ * LLMへの再問い合わせの前に、よくある崩れ（末尾カンマ・スマートクォート・途中切れ）を直す
+ */
+
+import type { JsonRepairPolicy } from '../types/index.js';
+import { parseCollectionResult, type ParseResult } from './prompts.js';
+
+/** LLMによる修復の最大試行回数のデフォルト */
+export const DEFAULT_JSON_REPAIR_MAX_ATTEMPTS = 1;
+
+/** 文字列の区切りとして扱うスマートクォート */
+const SMART_QUOTES = new Set(['“', '”', '＂']);
+
+/**
+ * 省略を補ったJSON修復ポリシー
+ */
+export interface ResolvedJsonRepairPolicy {
+  local: boolean;
+  maxAttempts: number;
+  model?: string;
+}
+
+/**
+ * ソースのJSON修復ポリシーを解決する
+ */
+export function resolveJsonRepairPolicy(policy?: JsonRepairPolicy): ResolvedJsonRepairPolicy {
+  return {
+    local: policy?.local ?? true,
+    maxAttempts: Math.max(0, policy?.maxAttempts ?? DEFAULT_JSON_REPAIR_MAX_ATTEMPTS),
+    model: policy?.model,
+  };
+}
+
+/**
+ * 次の空白以外の文字を取得する
+ */
+function nextSignificantChar(text: string, from: number): string | undefined {
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char !== undefined && !/\s/.test(char)) {
+      return char;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 末尾の空白とカンマを取り除く
+ */
+function stripTrailingComma(text: string): string {
+  const trimmed = text.trimEnd();
+  return trimmed.endsWith(',') ? trimmed.slice(0, -1) : text;
+}
+
+/**
+ * 崩れたJSONテキストを修復する
+ * - 区切りとして使われたスマートクォートをASCIIのダブルクォートに置き換える（文字列中のものは残す）
+ * - 文字列中の生の改行をエスケープする
+ * - `}`・`]`直前の末尾カンマを取り除く
+ * - 途中で切れている場合は最後に完結した値まで戻し、閉じ括弧を補う
+ * @returns 修復後のテキスト（括弧の対応が壊れていて修復できない場合はnull）
+ */
+export function repairJsonText(text: string): string | null {
+  let output = '';
+  const stack: string[] = [];
+  let safePoint: { length: number; stack: string[] } | null = null;
+
+  let inString = false;
+  let stringIsValue = false;
+  let escaped = false;
+  let lastSignificant = '';
+
+  const markSafePoint = (): void => {
+    safePoint = { length: output.length, stack: [...stack] };
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+
+    if (inString) {
+      if (escaped) {
+        output += char;
+        escaped = false;
+      } else if (char === '\\') {
+        output += char;
+        escaped = true;
+      } else if (
+        char === '"' ||
+        (SMART_QUOTES.has(char) &&
+          [':', ',', '}', ']', undefined].includes(nextSignificantChar(text, i + 1)))
+      ) {
+        output += '"';
+        inString = false;
+        lastSignificant = '"';
+        if (stringIsValue) {
+          markSafePoint();
+        }
+      } else if (char === '\n') {
+        output += '\\n';
+      } else if (char !== '\r') {
+        output += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || SMART_QUOTES.has(char)) {
+      const top = stack[stack.length - 1];
+      stringIsValue =
+        lastSignificant === ':' ||
+        (top === '[' && (lastSignificant === '[' || lastSignificant === ','));
+      inString = true;
+      output += '"';
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      stack.push(char);
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== (char === '}' ? '{' : '[')) {
+        return null;
+      }
+      output = stripTrailingComma(output) + char;
+      lastSignificant = char;
+      if (stack.length === 0) {
+        // トップレベルの値が閉じたら以降のテキストは無視する
+        return output;
+      }
+      markSafePoint();
+      continue;
+    }
+
+    output += char;
+    if (!/\s/.test(char)) {
+      lastSignificant = char;
+    }
+  }
+
+  if (stack.length === 0 && !inString) {
+    return output;
+  }
+
+  // 途中で切れている: 最後に完結した値まで戻して閉じる
+  const restorePoint = safePoint as { length: number; stack: string[] } | null;
+  if (!restorePoint) {
+    return null;
+  }
+  const closers = [...restorePoint.stack].reverse().map((open) => (open === '{' ? '}' : ']'));
+  return stripTrailingComma(output.slice(0, restorePoint.length)) + closers.join('');
+}
+
+/**
+ * JSON候補をレスポンスから取り出す（閉じていないコードブロックや途中切れも含む）
+ */
+function extractRepairCandidates(raw: string): string[] {
+  const candidates: string[] = [];
+
+  for (const match of raw.matchAll(/```(?:json)?\s*([\s\S]*?)(?:```|$)/gi)) {
+    const block = match[1]?.trim();
+    if (block?.startsWith('{') || block?.startsWith('[')) {
+      candidates.push(block);
+    }
+  }
+
+  const start = raw.search(/[{[]/);
+  if (start !== -1) {
+    candidates.push(
+      raw
+        .slice(start)
+        .replace(/```\s*$/, '')
+        .trim()
+    );
+  }
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * ローカル修復したうえで収集結果をパースする
+ * @returns 修復してパースできた場合の結果（修復できない場合はnull）
+ */
+export function parseWithLocalRepair(raw: string, sourceId: string): ParseResult | null {
+  for (const candidate of extractRepairCandidates(raw)) {
+    const repaired = repairJsonText(candidate);
+    if (repaired === null) {
+      continue;
+    }
+    const parsed = parseCollectionResult(repaired, sourceId);
+    if (!parsed.parseError) {
+      return parsed;
+    }
+  }
+  return null;
+}
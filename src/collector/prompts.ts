@@ -309,22 +309,31 @@ function getArticlesArray(parsed: unknown): unknown[] | null {
   return Array.isArray(maybeArticles) ? maybeArticles : null;
 }
 
+/**
+ * JSONの値を文字列に変換する（文字列・数値以外は空として扱う）
+ */
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
 /**
  * 記事配列をRawArticleへ正規化する
+ * タイトル・URLが空の記事も残し、検証（validation.ts）で理由を記録して除外する
  */
 function normalizeArticles(articlesInput: unknown[], sourceId: string): RawArticle[] {
   return articlesInput
     .filter((a): a is Record<string, unknown> => typeof a === 'object' && a !== null)
     .map((article) => ({
-      title: String(article['title'] ?? ''),
-      url: String(article['url'] ?? ''),
-      summary: article['summary'] ? String(article['summary']) : undefined,
-      publishedAt: article['publishedAt'] ? String(article['publishedAt']) : undefined,
-      dateMetaContent: article['dateMetaContent'] ? String(article['dateMetaContent']) : undefined,
+      title: toText(article['title']) ?? '',
+      url: toText(article['url']) ?? '',
+      summary: toText(article['summary']) || undefined,
+      publishedAt: toText(article['publishedAt']) || undefined,
+      dateMetaContent: toText(article['dateMetaContent']) || undefined,
       source: sourceId,
       collectedAt: new Date().toISOString(),
-    }))
-    .filter((a) => a.title && a.url);
+    }));
 }
 
 /**
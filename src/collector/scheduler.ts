@@ -0,0 +1,171 @@
+/**
+ * 収集タスクのスケジューラ
+ * 全体の同時実行数とドメインごとの同時実行数・開始間隔を守るワーカープール
+ */
+
+import type { DomainLimit, RateControlConfig, SourceConfig } from '../types/index.js';
+
+/**
+ * ワーカープールのオプション
+ */
+export interface WorkerPoolOptions {
+  /** 全体の同時実行数 */
+  concurrency: number;
+  /** ドメインごとのレート制限を取得する */
+  getDomainLimit: (domain: string) => DomainLimit;
+}
+
+/**
+ * 待機中のタスク
+ */
+interface PendingTask<T> {
+  item: T;
+  index: number;
+  domain: string | null;
+}
+
+/**
+ * ソースの取得先ドメインを取得する（WebSearchなど特定ホストにアクセスしない場合はnull）
+ * @example getSourceDomain({ collectMethod: 'WebFetch', url: 'https://www.anthropic.com/news', ... }) // 'anthropic.com'
+ */
+export function getSourceDomain(source: SourceConfig): string | null {
+  if (source.collectMethod !== 'WebFetch' || !source.url) {
+    return null;
+  }
+  try {
+    return new URL(source.url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ドメインのレート制限を取得する（perDomain → domainConcurrency/domainMinIntervalMs → デフォルト）
+ */
+export function getDomainLimit(domain: string, rateControl: RateControlConfig): DomainLimit {
+  const perDomain = rateControl.perDomain?.[domain];
+  return {
+    maxConcurrency: Math.max(1, perDomain?.maxConcurrency ?? rateControl.domainConcurrency ?? 1),
+    minIntervalMs: Math.max(0, perDomain?.minIntervalMs ?? rateControl.domainMinIntervalMs ?? 0),
+  };
+}
+
+/**
+ * WorkerPoolクラス
+ * キューの先頭から順に、実行可能な（ドメイン制限に掛からない）タスクを取り出して実行する。
+ * 1つの遅いタスクが他のタスクの開始を妨げないよう、空いたワーカーはすぐに次のタスクを取る。
+ */
+export class WorkerPool {
+  private concurrency: number;
+  private getDomainLimitFn: (domain: string) => DomainLimit;
+  private activeByDomain = new Map<string, number>();
+  private lastStartByDomain = new Map<string, number>();
+
+  constructor(options: WorkerPoolOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.getDomainLimitFn = options.getDomainLimit;
+  }
+
+  /**
+   * 全アイテムをワーカーで処理する
+   * @param items - 処理するアイテム（配列の順が優先順位）
+   * @param getDomain - アイテムのドメイン（nullの場合はドメイン制限なし）
+   * @param worker - 処理関数
+   * @returns itemsと同じ順の処理結果
+   */
+  run<T, R>(
+    items: T[],
+    getDomain: (item: T) => string | null,
+    worker: (item: T) => Promise<R>
+  ): Promise<PromiseSettledResult<R>[]> {
+    const pending: PendingTask<T>[] = items.map((item, index) => ({ item, index, domain: getDomain(item) }));
+    const results: PromiseSettledResult<R>[] = new Array<PromiseSettledResult<R>>(items.length);
+    let running = 0;
+    let timer: NodeJS.Timeout | undefined;
+
+    return new Promise((resolve) => {
+      const schedule = (): void => {
+        clearTimeout(timer);
+        timer = undefined;
+
+        while (running < this.concurrency && pending.length > 0) {
+          const now = Date.now();
+          let minWaitMs = Infinity;
+          const nextIndex = pending.findIndex((task) => {
+            const waitMs = this.getWaitMs(task.domain, now);
+            minWaitMs = Math.min(minWaitMs, waitMs);
+            return waitMs === 0;
+          });
+
+          if (nextIndex === -1) {
+            // 開始間隔待ちのみの場合はタイマーで再スケジュール（同時実行数待ちはタスク完了時に再スケジュール）
+            if (Number.isFinite(minWaitMs)) {
+              timer = setTimeout(schedule, minWaitMs);
+            }
+            break;
+          }
+
+          const [task] = pending.splice(nextIndex, 1);
+          if (!task) break;
+          running += 1;
+          this.markStarted(task.domain, now);
+
+          Promise.resolve()
+            .then(() => worker(task.item))
+            .then(
+              (value) => {
+                results[task.index] = { status: 'fulfilled', value };
+              },
+              (reason: unknown) => {
+                results[task.index] = { status: 'rejected', reason };
+              }
+            )
+            .finally(() => {
+              running -= 1;
+              this.markFinished(task.domain);
+              schedule();
+            });
+        }
+
+        if (running === 0 && pending.length === 0) {
+          resolve(results);
+        }
+      };
+
+      schedule();
+    });
+  }
+
+  /**
+   * ドメインのタスクを開始できるまでの待ち時間（同時実行数の上限に達している場合はInfinity）
+   */
+  private getWaitMs(domain: string | null, now: number): number {
+    if (domain === null) {
+      return 0;
+    }
+    const limit = this.getDomainLimitFn(domain);
+    if ((this.activeByDomain.get(domain) ?? 0) >= limit.maxConcurrency) {
+      return Infinity;
+    }
+    const lastStart = this.lastStartByDomain.get(domain);
+    return lastStart === undefined ? 0 : Math.max(0, lastStart + limit.minIntervalMs - now);
+  }
+
+  private markStarted(domain: string | null, now: number): void {
+    if (domain === null) return;
+    this.activeByDomain.set(domain, (this.activeByDomain.get(domain) ?? 0) + 1);
+    this.lastStartByDomain.set(domain, now);
+  }
+
+  private markFinished(domain: string | null): void {
+    if (domain === null) return;
+    this.activeByDomain.set(domain, (this.activeByDomain.get(domain) ?? 1) - 1);
+  }
+}
+
+/**
+ * WorkerPoolのファクトリ関数
+ */
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  return new WorkerPool(options);
+}
@@ -10,7 +10,19 @@ import type {
   SourceConfig,
   SourceTier,
   AgentConfig,
+  CassetteConfig,
+  UsageStats,
 } from '../types/index.js';
+import { computeCassetteHash, loadCassette, saveCassette } from './cassette.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import type { RunBudget } from './budget.js';
+import { addUsage, createEmptyUsage } from './usage.js';
+
+/** リトライ間隔の上限のデフォルト（ms） */
+const DEFAULT_MAX_RETRY_INTERVAL = 60000;
+
+/** リトライしても結果が変わらないエラーメッセージ */
+const NON_RETRYABLE_PATTERNS = ['invalid url', 'no cassette recorded', 'aborted before start'];
 
 /**
  * URLの基本的なバリデーション
@@ -31,6 +43,16 @@ export interface ExecutionResult {
   success: boolean;
   content: string;
   error?: CollectionError;
+  /** SDKの使用量（リトライした場合は全試行の合計、カセット再生・フェイクの場合はなし） */
+  usage?: UsageStats;
+}
+
+/**
+ * SDK呼び出し1回分の応答
+ */
+interface SdkResponse {
+  content: string;
+  usage?: UsageStats;
 }
 
 /**
@@ -42,6 +64,25 @@ export interface ExecutorOptions {
   maxTurns?: number;
   permissionMode?: AgentConfig['permissionMode'];
   timeout?: number;
+  /** 記録・再生設定（replayの場合はSDKを呼ばずカセットの応答を返す） */
+  cassette?: CassetteConfig;
+  /** abortされたら実行中の呼び出しを中断し、以降のリトライも行わない（実行予算の超過など） */
+  signal?: AbortSignal;
+  /** 連続タイムアウトしたソースを実行の残りの間呼び出さない */
+  circuitBreaker?: CircuitBreaker;
+  /** 実行予算（リトライを含むSDK呼び出しごとに回数と使用量を記録する） */
+  budget?: RunBudget;
+}
+
+/**
+ * リトライ設定
+ */
+interface RetryPolicy {
+  maxRetries: number;
+  /** バックオフの基準間隔（ms） */
+  retryInterval: number;
+  /** バックオフ・Retry-After待機の上限（ms） */
+  maxRetryInterval: number;
 }
 
 /**
@@ -73,19 +114,24 @@ export async function executeWebFetch(
   const timeout = Math.max(sourceRateConfig.timeout, options.timeout ?? 0);
 
   return executeWithRetry(
-    () => invokeSDK(
+    () => invokeWithCassette(
       `Use the WebFetch tool to fetch content from the following URL.
 
 URL: ${url}
 
 ${prompt}`,
+      source.id,
       options,
       timeout,
       ['WebFetch']
     ),
     source.id,
-    maxRetries,
-    sourceRateConfig.retryInterval
+    {
+      maxRetries: getEffectiveRetries(options, maxRetries),
+      retryInterval: sourceRateConfig.retryInterval,
+      maxRetryInterval: getMaxRetryInterval(options.rateControl),
+    },
+    options
   );
 }
 
@@ -103,22 +149,61 @@ export async function executeWebSearch(
   const timeout = Math.max(sourceRateConfig.timeout, options.timeout ?? 0);
 
   return executeWithRetry(
-    () => invokeSDK(
+    () => invokeWithCassette(
       `Use the WebSearch tool to search for information.
 
 Search Query: ${searchQuery}
 
 ${prompt}`,
+      source.id,
       options,
       timeout,
       ['WebSearch']
     ),
     source.id,
-    maxRetries,
-    sourceRateConfig.retryInterval
+    {
+      maxRetries: getEffectiveRetries(options, maxRetries),
+      retryInterval: sourceRateConfig.retryInterval,
+      maxRetryInterval: getMaxRetryInterval(options.rateControl),
+    },
+    options
   );
 }
 
+/**
+ * ツールを使わずにプロンプトを実行する（Stage2整理用）
+ * @param prompt - 実行するプロンプト
+ * @param label - ログ・エラー記録用のラベル（sourceIdとして記録される）
+ * @param options - 実行オプション
+ * @param maxRetries - 最大リトライ回数
+ */
+export async function executePrompt(
+  prompt: string,
+  label: string,
+  options: ExecutorOptions,
+  maxRetries: number = 1
+): Promise<ExecutionResult> {
+  const timeout = options.timeout ?? options.rateControl.defaultTimeout;
+
+  return executeWithRetry(
+    () => invokeWithCassette(prompt, label, options, timeout, []),
+    label,
+    {
+      maxRetries: getEffectiveRetries(options, maxRetries),
+      retryInterval: options.rateControl.defaultRetryInterval,
+      maxRetryInterval: getMaxRetryInterval(options.rateControl),
+    },
+    options
+  );
+}
+
+/**
+ * ソースの最大リトライ回数を取得する（ソース別設定とTierを考慮）
+ */
+export function getSourceMaxRetries(source: SourceConfig, rateControl: RateControlConfig): number {
+  return getRetriesByTier(source.tier, getSourceRateConfig(source.id, rateControl).maxRetries);
+}
+
 /**
  * ソースのレート制御設定を取得する
  */
@@ -138,6 +223,13 @@ function getSourceRateConfig(
   };
 }
 
+/**
+ * リトライ間隔の上限を取得する（基準間隔より短くはしない）
+ */
+function getMaxRetryInterval(rateControl: RateControlConfig): number {
+  return Math.max(rateControl.maxRetryInterval ?? DEFAULT_MAX_RETRY_INTERVAL, rateControl.defaultRetryInterval);
+}
+
 /**
  * Tier に基づいてリトライ回数を決定する
  * - Tier 1: 最低3回リトライ（高信頼ソース）
@@ -155,6 +247,54 @@ function getRetriesByTier(tier: SourceTier, configuredRetries: number): number {
   }
 }
 
+/**
+ * 再生モードではリトライしない（応答が決まっているため結果は変わらない）
+ */
+function getEffectiveRetries(options: ExecutorOptions, maxRetries: number): number {
+  return options.cassette?.mode === 'replay' ? 0 : maxRetries;
+}
+
+/**
+ * カセット設定に従ってSDKを呼び出す
+ * - record: ライブ実行し、プロンプトと応答をカセットに保存する
+ * - replay: カセットの応答を返す（見つからない場合はエラー）
+ */
+async function invokeWithCassette(
+  prompt: string,
+  sourceId: string,
+  options: ExecutorOptions,
+  timeout: number,
+  tools: string[]
+): Promise<SdkResponse> {
+  const cassette = options.cassette;
+  if (!cassette) {
+    return invokeSDK(prompt, options, timeout, tools);
+  }
+
+  const hash = computeCassetteHash(prompt, tools);
+
+  if (cassette.mode === 'replay') {
+    const entry = await loadCassette(cassette.directory, sourceId, hash);
+    if (!entry) {
+      throw new Error(`No cassette recorded for ${sourceId} (${hash.slice(0, 16)}) in ${cassette.directory}`);
+    }
+    console.log(`[SDK Executor] Replayed cassette for ${sourceId} (${hash.slice(0, 16)})`);
+    return { content: entry.response };
+  }
+
+  const { content, usage } = await invokeSDK(prompt, options, timeout, tools);
+  const filePath = await saveCassette(cassette.directory, {
+    sourceId,
+    tools,
+    hash,
+    prompt,
+    response: content,
+    recordedAt: new Date().toISOString(),
+  });
+  console.log(`[SDK Executor] Recorded cassette for ${sourceId}: ${filePath}`);
+  return { content, usage };
+}
+
 /**
  * Claude Agent SDK を呼び出す
  */
@@ -163,10 +303,17 @@ async function invokeSDK(
   options: ExecutorOptions,
   timeout: number,
   tools: string[]
-): Promise<string> {
+): Promise<SdkResponse> {
+  if (options.signal?.aborted) {
+    throw new Error('Operation aborted before start');
+  }
+
   const abortController = new AbortController();
   const timeoutId = setTimeout(() => abortController.abort(), timeout);
+  const onAbort = (): void => abortController.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
 
+  let usage: UsageStats | undefined;
   try {
     const result = query({
       prompt,
@@ -185,17 +332,53 @@ async function invokeSDK(
     let content = '';
 
     for await (const message of result) {
+      if (message.type === 'result') {
+        usage = extractUsage(message);
+      }
       if (isSuccessResult(message)) {
         content = message.result;
       }
     }
 
-    return content;
+    return { content, usage };
+  } catch (error) {
+    // 結果メッセージの受信後に失敗した場合も使用量を計上できるようにする
+    if (usage && error instanceof Error) {
+      Object.assign(error, { usage });
+    }
+    throw error;
   } finally {
     clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onAbort);
   }
 }
 
+/**
+ * 結果メッセージのusage（Anthropic APIのUsage）
+ */
+interface ResultUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+}
+
+/**
+ * 結果メッセージからトークン数・コスト・ターン数を取り出す
+ */
+function extractUsage(message: SDKResultMessage): UsageStats {
+  const usage = message.usage as ResultUsage | undefined;
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheReadInputTokens: usage?.cache_read_input_tokens ?? 0,
+    cacheCreationInputTokens: usage?.cache_creation_input_tokens ?? 0,
+    costUsd: message.total_cost_usd ?? 0,
+    turns: message.num_turns ?? 0,
+    invocations: 1,
+  };
+}
+
 /**
  * 成功結果かどうかを判定する型ガード
  */
@@ -211,30 +394,84 @@ function isSuccessResult(
 
 /**
  * リトライ付きで実行する
+ * - 指数バックオフ（ジッター付き）で待機し、Retry-Afterの指定があればそれに従う
+ * - パース失敗・不正なURLなどリトライしても変わらないエラーはリトライしない
+ * - サーキットブレーカーが開いたソースは呼び出さない
  */
 async function executeWithRetry(
-  fn: () => Promise<string>,
+  fn: () => Promise<SdkResponse>,
   sourceId: string,
-  maxRetries: number,
-  retryInterval: number
+  policy: RetryPolicy,
+  options: Pick<ExecutorOptions, 'signal' | 'circuitBreaker' | 'budget'>
 ): Promise<ExecutionResult> {
+  const { maxRetries, retryInterval, maxRetryInterval } = policy;
+  const { signal, circuitBreaker, budget } = options;
   let lastError: Error | null = null;
+  let retryCount = 0;
+  let usage: UsageStats | undefined;
+
+  // 試行ごとにSDK呼び出しを予算に計上し、使用量を合計する
+  const recordAttempt = (attemptUsage: UsageStats | undefined): void => {
+    budget?.record(attemptUsage);
+    if (attemptUsage) {
+      usage = addUsage(usage ?? createEmptyUsage(), attemptUsage);
+    }
+  };
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (circuitBreaker?.isOpen(sourceId)) {
+      lastError = new Error(
+        `Circuit open for ${sourceId}: ${circuitBreaker.getThreshold()} consecutive timeouts`
+      );
+      break;
+    }
+
+    if (signal?.aborted) {
+      lastError = new Error('Operation aborted before start');
+      break;
+    }
+
+    retryCount = attempt;
     const startedAt = Date.now();
     try {
-      const content = await fn();
-      return { success: true, content };
+      const response = await fn();
+      recordAttempt(response.usage);
+      circuitBreaker?.recordSuccess(sourceId);
+      return { success: true, content: response.content, usage };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      recordAttempt((lastError as Error & { usage?: UsageStats }).usage);
       const elapsedMs = Date.now() - startedAt;
       console.log(
         `[SDK Executor] Attempt ${attempt + 1}/${maxRetries + 1} failed for ${sourceId} after ${elapsedMs}ms: ${lastError.message}`
       );
 
-      if (attempt < maxRetries) {
-        await sleep(retryInterval);
+      if (signal?.aborted) {
+        break;
+      }
+
+      const errorType = classifyError(lastError);
+      if (errorType === 'timeout' && circuitBreaker?.recordTimeout(sourceId)) {
+        break;
+      }
+      if (!isRetryableError(lastError, errorType)) {
+        console.log(`[SDK Executor] Not retrying ${sourceId}: ${errorType} error is not retryable`);
+        break;
+      }
+      if (attempt >= maxRetries) {
+        break;
+      }
+
+      const retryAfterMs = getRetryAfterMs(lastError);
+      if (retryAfterMs !== null && retryAfterMs > maxRetryInterval) {
+        console.log(
+          `[SDK Executor] Not retrying ${sourceId}: Retry-After ${retryAfterMs}ms exceeds ${maxRetryInterval}ms`
+        );
+        break;
       }
+      const delayMs = retryAfterMs ?? getBackoffDelay(attempt, retryInterval, maxRetryInterval);
+      console.log(`[SDK Executor] Retrying ${sourceId} in ${delayMs}ms`);
+      await sleep(delayMs, signal);
     }
   }
 
@@ -246,11 +483,76 @@ async function executeWithRetry(
       errorType: classifyError(lastError),
       message: lastError?.message ?? 'Unknown error',
       timestamp: new Date().toISOString(),
-      retryCount: maxRetries,
+      retryCount,
     },
+    usage,
   };
 }
 
+/**
+ * 指数バックオフの待機時間を計算する（上限付き、後半半分にジッター）
+ * @param attempt - 失敗した試行（0始まり）
+ * @param baseMs - 基準間隔
+ * @param maxMs - 上限
+ * @param random - 0以上1未満の乱数（テスト用）
+ * @example getBackoffDelay(2, 1000, 60000, () => 0) // 2000（4000msの半分〜4000ms）
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * エラーからRetry-Afterの待機時間を取り出す（指定がない場合はnull）
+ * HTTPヘッダー（retry-after）、またはメッセージ中の「retry after 30s」「try again in 2 minutes」を解釈する
+ */
+export function getRetryAfterMs(error: Error): number | null {
+  const headers = (error as { headers?: Record<string, unknown> }).headers;
+  const header = headers?.['retry-after'];
+  if (typeof header === 'string' || typeof header === 'number') {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, Math.round(seconds * 1000));
+    }
+    const date = Date.parse(String(header));
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const match = /(?:retry[- ]after|try again in)[:=\s]+(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)?\b/i.exec(
+    error.message
+  );
+  if (!match?.[1]) {
+    return null;
+  }
+  const value = Number(match[1]);
+  const unit = (match[2] ?? 's').toLowerCase();
+  if (unit.startsWith('ms') || unit.startsWith('milli')) {
+    return Math.round(value);
+  }
+  if (unit.startsWith('m')) {
+    return Math.round(value * 60000);
+  }
+  return Math.round(value * 1000);
+}
+
+/**
+ * リトライで結果が変わり得るエラーか判定する
+ */
+export function isRetryableError(error: Error, errorType: CollectionError['errorType']): boolean {
+  if (errorType === 'parse') {
+    return false;
+  }
+  const message = error.message.toLowerCase();
+  return !NON_RETRYABLE_PATTERNS.some((pattern) => message.includes(pattern));
+}
+
 /**
  * エラーの種類を分類する
  */
@@ -280,8 +582,18 @@ function classifyError(error: Error | null): CollectionError['errorType'] {
 }
 
 /**
- * 指定時間待機する
+ * 指定時間待機する（signalがabortされたら早期に戻る）
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
@@ -0,0 +1,80 @@
+/**
+ * SDK使用量（トークン数・コスト）の集計
+ */
+
+import type { UsageStats, UsageSummary } from '../types/index.js';
+
+/**
+ * 空の使用量を生成する
+ */
+export function createEmptyUsage(): UsageStats {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd: 0,
+    turns: 0,
+    invocations: 0,
+  };
+}
+
+/**
+ * 使用量を合算する（引数は変更しない）
+ */
+export function addUsage(a: UsageStats, b: UsageStats | undefined): UsageStats {
+  if (!b) {
+    return a;
+  }
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    turns: a.turns + b.turns,
+    invocations: a.invocations + b.invocations,
+  };
+}
+
+/**
+ * ソース別・ステージ別の使用量から実行全体の集計を構築する
+ * @param bySource - 収集ステージのソース別使用量
+ * @param organizeUsage - 整理ステージの使用量
+ */
+export function buildUsageSummary(
+  bySource: Record<string, UsageStats>,
+  organizeUsage?: UsageStats
+): UsageSummary {
+  const collect = Object.values(bySource).reduce(addUsage, createEmptyUsage());
+  const byStage: Record<string, UsageStats> = { collect };
+  if (organizeUsage) {
+    byStage.organize = organizeUsage;
+  }
+
+  return {
+    total: Object.values(byStage).reduce(addUsage, createEmptyUsage()),
+    byStage,
+    bySource,
+  };
+}
+
+/**
+ * コストを表示用に整形する
+ * @example formatCost(0.01234) // '$0.0123'
+ */
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(4)}`;
+}
+
+/**
+ * コスト表の行（ステージ別 → ソース別（コスト順） → 合計）を構築する
+ */
+export function buildUsageRows(summary: UsageSummary): Array<[string, UsageStats]> {
+  const sources = Object.entries(summary.bySource).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+  return [
+    ...Object.entries(summary.byStage).map(([stage, stats]): [string, UsageStats] => [`Stage: ${stage}`, stats]),
+    ...sources.map(([sourceId, stats]): [string, UsageStats] => [`Source: ${sourceId}`, stats]),
+    ['Total', summary.total],
+  ];
+}
@@ -0,0 +1,380 @@
+/**
+ * 収集記事の検証
+ * LLMが返した記事のURL・日付・文字列値を検証し、補正できないものは除外して理由を記録する
+ * ソースのドメイン外のURL（LLMが作り出したリンクの可能性がある）は隔離または記録する
+ */
+
+import type {
+  ArticleDiagnostic,
+  ArticleDiagnosticsSummary,
+  ArticleField,
+  QuarantinedArticle,
+  RawArticle,
+  SourceConfig,
+} from '../types/index.js';
+import { getSourceDomain } from './scheduler.js';
+
+/** 値が無いことを表す文字列として扱うリテラル */
+const NULL_LITERALS = new Set(['null', 'undefined']);
+
+/** 許可するURLスキーム */
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+
+/** ISO 8601の日付・日時 */
+const ISO_DATE_PATTERN =
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** フィールドの問題（記事・フィールドの情報を除く） */
+type ArticleIssue = Pick<ArticleDiagnostic, 'issue' | 'action' | 'message'>;
+
+/**
+ * 記事の検証結果
+ */
+export interface ArticleValidationResult {
+  articles: RawArticle[];
+  diagnostics: ArticleDiagnostic[];
+  /** 許可ドメイン外のURLのため隔離した記事 */
+  quarantined: RawArticle[];
+}
+
+/**
+ * 値が"null"・"undefined"のリテラルか
+ */
+function isNullLiteral(value: string): boolean {
+  return NULL_LITERALS.has(value.trim().toLowerCase());
+}
+
+/**
+ * ISO 8601形式の日付として有効か
+ */
+export function isValidIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * 記事のURLを検証し、相対URLはソースのURLを基準に解決する
+ * @returns 補正後のURL、問題、有効なURLの場合はパース済みのホスト名
+ */
+function validateUrl(
+  value: string,
+  source: SourceConfig
+): { url: string; hostname?: string; issue?: ArticleIssue } {
+  if (!value) {
+    return { url: value, issue: { issue: 'missing', action: 'rejected', message: 'URL is empty' } };
+  }
+  if (isNullLiteral(value)) {
+    return {
+      url: value,
+      issue: { issue: 'null_literal', action: 'rejected', message: `URL is "${value}"` },
+    };
+  }
+
+  let absolute: URL | null = null;
+  try {
+    absolute = new URL(value);
+  } catch {
+    // 相対URLとして解決を試みる
+  }
+
+  if (absolute) {
+    if (!ALLOWED_PROTOCOLS.has(absolute.protocol)) {
+      return {
+        url: value,
+        issue: {
+          issue: 'unsupported_scheme',
+          action: 'rejected',
+          message: `Unsupported URL scheme: ${absolute.protocol}`,
+        },
+      };
+    }
+    return { url: value, hostname: absolute.hostname };
+  }
+
+  if (/^www\./i.test(value)) {
+    try {
+      const withScheme = new URL(`https://${value}`);
+      return {
+        url: withScheme.toString(),
+        hostname: withScheme.hostname,
+        issue: {
+          issue: 'relative_url',
+          action: 'fixed',
+          message: 'Added https:// to a scheme-less URL',
+        },
+      };
+    } catch (error) {
+      return {
+        url: value,
+        issue: {
+          issue: 'invalid_url',
+          action: 'rejected',
+          message: error instanceof Error ? error.message : 'Invalid URL',
+        },
+      };
+    }
+  }
+
+  if (!source.url) {
+    return {
+      url: value,
+      issue: {
+        issue: 'relative_url',
+        action: 'rejected',
+        message: 'Relative URL without a source URL to resolve against',
+      },
+    };
+  }
+
+  try {
+    const resolved = new URL(value, source.url);
+    if (!ALLOWED_PROTOCOLS.has(resolved.protocol)) {
+      throw new Error(`Unsupported URL scheme: ${resolved.protocol}`);
+    }
+    return {
+      url: resolved.toString(),
+      hostname: resolved.hostname,
+      issue: { issue: 'relative_url', action: 'fixed', message: `Resolved against ${source.url}` },
+    };
+  } catch (error) {
+    return {
+      url: value,
+      issue: {
+        issue: 'invalid_url',
+        action: 'rejected',
+        message: error instanceof Error ? error.message : 'Invalid URL',
+      },
+    };
+  }
+}
+
+/**
+ * ドメインを比較用に正規化する（小文字化・www.の除去・パスの除去）
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^www\./, '');
+}
+
+/**
+ * ソースの記事URLとして許可するドメインを取得する
+ * WebFetchのurlのホスト、queryのsite:指定、allowedDomainsを合わせる（空の場合はドメインを検証しない）
+ * @example getAllowedDomains({ collectMethod: 'WebSearch', query: 'site:openai.com/news', ... }) // ['openai.com']
+ */
+export function getAllowedDomains(source: SourceConfig): string[] {
+  const domains: string[] = [];
+  const sourceDomain = getSourceDomain(source);
+  if (sourceDomain) {
+    domains.push(sourceDomain);
+  }
+  for (const match of (source.query ?? '').matchAll(/\bsite:([^\s()"]+)/gi)) {
+    if (match[1]) {
+      domains.push(normalizeDomain(match[1]));
+    }
+  }
+  for (const domain of source.allowedDomains ?? []) {
+    domains.push(normalizeDomain(domain));
+  }
+  return [...new Set(domains.filter((domain) => domain))];
+}
+
+/**
+ * URLのホストが許可ドメイン（またはそのサブドメイン）か
+ */
+export function isAllowedDomain(url: string, allowedDomains: string[]): boolean {
+  try {
+    return isAllowedHost(new URL(url).hostname, allowedDomains);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ホスト名が許可ドメイン（またはそのサブドメイン）か
+ */
+function isAllowedHost(hostname: string, allowedDomains: string[]): boolean {
+  const host = normalizeDomain(hostname);
+  return allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * 単一の記事を検証する
+ * @returns 補正後の記事（除外・隔離する場合はnull）、隔離した記事と検証結果
+ */
+export function validateArticle(
+  article: RawArticle,
+  source: SourceConfig,
+  allowedDomains: string[] = getAllowedDomains(source)
+): { article: RawArticle | null; quarantined?: RawArticle; diagnostics: ArticleDiagnostic[] } {
+  const diagnostics: ArticleDiagnostic[] = [];
+  const label = article.url.trim() || article.title.trim() || '(empty)';
+  const report = (field: ArticleField, value: string | undefined, issue: ArticleIssue): void => {
+    diagnostics.push({ sourceId: source.id, article: label, field, value, ...issue });
+  };
+
+  const validated: RawArticle = {
+    ...article,
+    title: article.title.trim(),
+    url: article.url.trim(),
+  };
+
+  if (!validated.title) {
+    report('title', undefined, { issue: 'missing', action: 'rejected', message: 'Title is empty' });
+  } else if (isNullLiteral(validated.title)) {
+    report('title', validated.title, {
+      issue: 'null_literal',
+      action: 'rejected',
+      message: `Title is "${validated.title}"`,
+    });
+  }
+
+  const urlResult = validateUrl(validated.url, source);
+  if (urlResult.issue) {
+    report('url', validated.url || undefined, urlResult.issue);
+  }
+  validated.url = urlResult.url;
+
+  let quarantine = false;
+  const { hostname } = urlResult;
+  if (
+    hostname !== undefined &&
+    allowedDomains.length > 0 &&
+    !isAllowedHost(hostname, allowedDomains)
+  ) {
+    quarantine = (source.offDomainAction ?? 'quarantine') === 'quarantine';
+    validated.offDomainReason = `Host ${hostname} is outside the allowed domains (${allowedDomains.join(', ')})`;
+    report('url', validated.url, {
+      issue: 'off_domain',
+      action: quarantine ? 'quarantined' : 'flagged',
+      message: validated.offDomainReason,
+    });
+  }
+
+  for (const field of ['summary', 'dateMetaContent'] as const) {
+    const value = validated[field];
+    if (value !== undefined && isNullLiteral(value)) {
+      report(field, value, {
+        issue: 'null_literal',
+        action: 'dropped',
+        message: `${field} is "${value}"`,
+      });
+      validated[field] = undefined;
+    }
+  }
+
+  const publishedAt = validated.publishedAt?.trim();
+  if (publishedAt !== undefined) {
+    if (isNullLiteral(publishedAt)) {
+      report('publishedAt', publishedAt, {
+        issue: 'null_literal',
+        action: 'dropped',
+        message: `publishedAt is "${publishedAt}"`,
+      });
+      validated.publishedAt = undefined;
+    } else if (!isValidIsoDate(publishedAt)) {
+      // ISO 8601でない日付表記は日付推定に使えるようdateMetaContentに残す
+      const keepAsMeta = !validated.dateMetaContent;
+      report('publishedAt', publishedAt, {
+        issue: 'invalid_date',
+        action: 'dropped',
+        message: keepAsMeta
+          ? 'Not an ISO 8601 date, kept as dateMetaContent'
+          : 'Not an ISO 8601 date',
+      });
+      validated.publishedAt = undefined;
+      if (keepAsMeta) {
+        validated.dateMetaContent = publishedAt;
+      }
+    } else {
+      validated.publishedAt = publishedAt;
+    }
+  }
+
+  if (diagnostics.some((d) => d.action === 'rejected')) {
+    return { article: null, diagnostics };
+  }
+  if (quarantine) {
+    return { article: null, quarantined: validated, diagnostics };
+  }
+  return { article: validated, diagnostics };
+}
+
+/**
+ * ソースから収集した記事をまとめて検証する
+ */
+export function validateArticles(
+  articles: RawArticle[],
+  source: SourceConfig
+): ArticleValidationResult {
+  const validArticles: RawArticle[] = [];
+  const diagnostics: ArticleDiagnostic[] = [];
+  const quarantined: RawArticle[] = [];
+  const allowedDomains = getAllowedDomains(source);
+
+  for (const article of articles) {
+    const result = validateArticle(article, source, allowedDomains);
+    diagnostics.push(...result.diagnostics);
+    if (result.article) {
+      validArticles.push(result.article);
+    }
+    if (result.quarantined) {
+      quarantined.push(result.quarantined);
+    }
+  }
+
+  return { articles: validArticles, diagnostics, quarantined };
+}
+
+/**
+ * 検証結果をレポートのメタデータ用に集計する
+ * @returns 集計（問題が無い場合はundefined）
+ */
+export function summarizeArticleDiagnostics(
+  diagnostics: ArticleDiagnostic[] | undefined
+): ArticleDiagnosticsSummary | undefined {
+  if (!diagnostics?.length) {
+    return undefined;
+  }
+
+  const summary: ArticleDiagnosticsSummary = {
+    total: diagnostics.length,
+    rejectedArticles: 0,
+    byIssue: {},
+    byField: {},
+    bySource: {},
+  };
+  const rejected = new Set<string>();
+
+  for (const diagnostic of diagnostics) {
+    summary.byIssue[diagnostic.issue] = (summary.byIssue[diagnostic.issue] ?? 0) + 1;
+    summary.byField[diagnostic.field] = (summary.byField[diagnostic.field] ?? 0) + 1;
+    summary.bySource[diagnostic.sourceId] = (summary.bySource[diagnostic.sourceId] ?? 0) + 1;
+    if (diagnostic.action === 'rejected') {
+      rejected.add(`${diagnostic.sourceId}\n${diagnostic.article}`);
+    }
+  }
+
+  summary.rejectedArticles = rejected.size;
+  return summary;
+}
+
+/**
+ * 隔離した記事をレポートのメタデータ用の一覧に変換する
+ * @returns 一覧（隔離した記事が無い場合はundefined）
+ */
+export function toQuarantinedArticles(
+  articles: RawArticle[] | undefined
+): QuarantinedArticle[] | undefined {
+  if (!articles?.length) {
+    return undefined;
+  }
+  return articles.map((article) => ({
+    sourceId: article.source,
+    url: article.url,
+    title: article.title,
+    reason: article.offDomainReason ?? 'Outside the allowed domains',
+  }));
+}
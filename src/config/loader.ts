@@ -6,6 +6,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import type {
+  SourceOverride,
+  SourceOverridesFile,
   SourcesConfig,
   QueriesConfig,
   TagSynonyms,
@@ -27,38 +29,163 @@ function loadJson<T>(filePath: string): T {
 
 /**
  * ソース設定を読み込む
+ * 実行時の上書き（data/source-overrides.json）をsources.jsonの上にマージする
+ * @param filePath - ソース設定のパス（指定時は上書きをマージしない）
+ * @param overridesPath - 上書きファイルのパス（指定時はfilePathに関わらずマージする）
  */
-export function loadSourcesConfig(filePath?: string): SourcesConfig {
+export function loadSourcesConfig(filePath?: string, overridesPath?: string): SourcesConfig {
   const configPath = filePath ?? path.join(CONFIG_DIR, 'sources.json');
-  return loadJson<SourcesConfig>(configPath);
+  const config = loadJson<SourcesConfig>(configPath);
+
+  const effectiveOverridesPath = overridesPath ?? (filePath ? undefined : getSourceOverridesPath());
+  if (!effectiveOverridesPath) {
+    return config;
+  }
+  return applySourceOverrides(config, loadSourceOverrides(effectiveOverridesPath));
+}
+
+/**
+ * ソース設定に実行時の上書きを適用する（引数は変更しない）
+ */
+export function applySourceOverrides(
+  config: SourcesConfig,
+  overrides: Record<string, SourceOverride>
+): SourcesConfig {
+  return {
+    ...config,
+    sources: config.sources.map((source) => {
+      const override = overrides[source.id];
+      return override ? { ...source, enabled: override.enabled } : source;
+    }),
+  };
 }
 
 /**
- * 指定したソースを無効化して設定ファイルへ保存する
+ * ソースの上書きを読み込む（ファイルがない・壊れている場合は空）
  */
-export function disableSources(sourceIds: string[], filePath?: string): string[] {
+export function loadSourceOverrides(filePath: string = getSourceOverridesPath()): Record<string, SourceOverride> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const data = loadJson<Partial<SourceOverridesFile>>(filePath);
+    return data.overrides ?? {};
+  } catch {
+    console.log(`[Config] Ignoring malformed source overrides: ${filePath}`);
+    return {};
+  }
+}
+
+/**
+ * ソースの上書きを保存する
+ */
+export function saveSourceOverrides(
+  overrides: Record<string, SourceOverride>,
+  filePath: string = getSourceOverridesPath()
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const data: SourceOverridesFile = { version: 1, overrides };
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * ソース上書きの操作対象
+ */
+export interface SourceOverridePaths {
+  /** ソース設定のパス（デフォルト: config/sources.json） */
+  configPath?: string;
+  /** 上書きファイルのパス（デフォルト: data/source-overrides.json） */
+  overridesPath?: string;
+}
+
+/**
+ * 指定したソースを上書きファイルで無効化する（sources.jsonは変更しない）
+ * @returns 新たに無効になったソースID
+ */
+export function disableSources(
+  sourceIds: string[],
+  reason?: string,
+  paths: SourceOverridePaths = {}
+): string[] {
+  return setSourcesEnabled(sourceIds, false, reason, paths);
+}
+
+/**
+ * 指定したソースを上書きファイルで有効化する（sources.jsonで無効なソースも有効にできる）
+ * @returns 新たに有効になったソースID
+ */
+export function enableSources(
+  sourceIds: string[],
+  reason?: string,
+  paths: SourceOverridePaths = {}
+): string[] {
+  return setSourcesEnabled(sourceIds, true, reason, paths);
+}
+
+/**
+ * 指定したソース（省略時は全ソース）の上書きを削除し、sources.jsonの状態に戻す
+ * @returns 上書きを削除したソースID
+ */
+export function resetSourceOverrides(
+  sourceIds?: string[],
+  overridesPath: string = getSourceOverridesPath()
+): string[] {
+  const overrides = loadSourceOverrides(overridesPath);
+  const targetIds = sourceIds ?? Object.keys(overrides);
+  const removed = targetIds.filter((id) => id in overrides);
+
+  if (removed.length > 0) {
+    for (const id of removed) {
+      delete overrides[id];
+    }
+    saveSourceOverrides(overrides, overridesPath);
+  }
+
+  return removed;
+}
+
+/**
+ * ソースの有効/無効を上書きファイルに記録する
+ */
+function setSourcesEnabled(
+  sourceIds: string[],
+  enabled: boolean,
+  reason: string | undefined,
+  paths: SourceOverridePaths
+): string[] {
   const uniqueIds = [...new Set(sourceIds)];
   if (uniqueIds.length === 0) {
     return [];
   }
 
-  const configPath = filePath ?? path.join(CONFIG_DIR, 'sources.json');
-  const sourcesConfig = loadJson<SourcesConfig>(configPath);
-  const targetIds = new Set(uniqueIds);
-  const disabled: string[] = [];
-
-  for (const source of sourcesConfig.sources) {
-    if (targetIds.has(source.id) && source.enabled) {
-      source.enabled = false;
-      disabled.push(source.id);
+  const overridesPath = paths.overridesPath ?? getSourceOverridesPath();
+  const config = loadJson<SourcesConfig>(paths.configPath ?? path.join(CONFIG_DIR, 'sources.json'));
+  const overrides = loadSourceOverrides(overridesPath);
+  const updatedAt = new Date().toISOString();
+  const changed: string[] = [];
+
+  for (const source of config.sources) {
+    const effectiveEnabled = overrides[source.id]?.enabled ?? source.enabled;
+    if (!uniqueIds.includes(source.id) || effectiveEnabled === enabled) {
+      continue;
     }
+    // sources.jsonと同じ状態に戻す場合は上書き自体を削除する
+    if (source.enabled === enabled) {
+      delete overrides[source.id];
+    } else {
+      overrides[source.id] = { enabled, reason, updatedAt };
+    }
+    changed.push(source.id);
   }
 
-  if (disabled.length > 0) {
-    fs.writeFileSync(configPath, `${JSON.stringify(sourcesConfig, null, 2)}\n`, 'utf-8');
+  if (changed.length > 0) {
+    saveSourceOverrides(overrides, overridesPath);
   }
 
-  return disabled;
+  return changed;
 }
 
 /**
@@ -171,6 +298,20 @@ export function getHistoryDbPath(): string {
   return path.join(DATA_DIR, 'history.db');
 }
 
+/**
+ * ソース上書きファイルのパスを取得する
+ */
+export function getSourceOverridesPath(): string {
+  return path.join(DATA_DIR, 'source-overrides.json');
+}
+
+/**
+ * 実行チェックポイントのディレクトリを取得する（日付ごとのサブディレクトリを置く）
+ */
+export function getRunsDir(): string {
+  return path.join(DATA_DIR, 'runs');
+}
+
 /**
  * ログディレクトリのパスを取得する
  */
@@ -180,9 +321,12 @@ export function getLogsDir(): string {
 
 /**
  * 出力ディレクトリのパスを取得する
+ * @param directory - AppConfig.output.directory（未指定時は ./output/daily-reports）
  */
-export function getOutputDir(): string {
-  return path.resolve(process.cwd(), 'output', 'daily-reports');
+export function getOutputDir(directory?: string): string {
+  return directory
+    ? path.resolve(process.cwd(), directory)
+    : path.resolve(process.cwd(), 'output', 'daily-reports');
 }
 
 /**
@@ -4,7 +4,7 @@
  */
 
 import Database from 'better-sqlite3';
-import type { HistoryEntry, DateConfidence } from '../types/index.js';
+import type { HistoryEntry, DateConfidence, OrganizerCacheEntry } from '../types/index.js';
 
 export interface HistoryStoreConfig {
   /** データベースファイルのパス */
@@ -65,6 +65,24 @@ export class HistoryStore {
       CREATE INDEX IF NOT EXISTS idx_source ON history(source);
       CREATE INDEX IF NOT EXISTS idx_title_hash ON history(title_hash);
     `);
+
+    // 整理結果キャッシュ（Stage 2の再実行でSDKを呼ばないため）
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS organizer_cache (
+        normalized_url TEXT NOT NULL,
+        prompt_version TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        relevance_score INTEGER NOT NULL,
+        ai_summary TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        cached_at TEXT NOT NULL,
+        PRIMARY KEY (normalized_url, prompt_version)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_organizer_cache_cached_at ON organizer_cache(cached_at);
+    `);
   }
 
   /**
@@ -83,16 +101,22 @@ export class HistoryStore {
   /**
    * 複数の正規化URLで一括検索する
    * @param normalizedUrls - 正規化済みURLの配列
+   * @param seenBefore - 指定時は、この日時（ISO 8601）より前に初めて見たURLのみ対象にする
    * @returns 存在するURLのSet
    */
-  findExistingUrls(normalizedUrls: string[]): Set<string> {
+  findExistingUrls(normalizedUrls: string[], seenBefore?: string): Set<string> {
     if (normalizedUrls.length === 0) return new Set();
 
     const placeholders = normalizedUrls.map(() => '?').join(',');
-    const stmt = this.db.prepare(`
-      SELECT normalized_url FROM history WHERE normalized_url IN (${placeholders})
-    `);
-    const rows = stmt.all(...normalizedUrls) as Array<{ normalized_url: string }>;
+    const params = [...normalizedUrls];
+    let query = `SELECT normalized_url FROM history WHERE normalized_url IN (${placeholders})`;
+    if (seenBefore) {
+      query += ' AND first_seen_at < ?';
+      params.push(seenBefore);
+    }
+
+    const stmt = this.db.prepare(query);
+    const rows = stmt.all(...params) as Array<{ normalized_url: string }>;
     return new Set(rows.map((row) => row.normalized_url));
   }
 
@@ -201,15 +225,67 @@ export class HistoryStore {
     return results;
   }
 
+  /**
+   * 整理結果キャッシュを一括検索する
+   * @param normalizedUrls - 正規化済みURLの配列
+   * @param promptVersion - プロンプトバージョン
+   * @returns 正規化URL → キャッシュエントリ
+   */
+  findOrganizerCache(
+    normalizedUrls: string[],
+    promptVersion: string
+  ): Map<string, OrganizerCacheEntry> {
+    if (normalizedUrls.length === 0) return new Map();
+
+    const placeholders = normalizedUrls.map(() => '?').join(',');
+    const stmt = this.db.prepare(`
+      SELECT * FROM organizer_cache
+      WHERE prompt_version = ? AND normalized_url IN (${placeholders})
+    `);
+    const rows = stmt.all(promptVersion, ...normalizedUrls) as OrganizerCacheRow[];
+    return new Map(rows.map((row) => [row.normalized_url, this.rowToCacheEntry(row)]));
+  }
+
+  /**
+   * 整理結果キャッシュを一括保存する（トランザクション使用）
+   * 同じURL・プロンプトバージョンのエントリは上書きする
+   * @param entries - キャッシュエントリの配列
+   */
+  saveOrganizerCache(entries: OrganizerCacheEntry[]): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO organizer_cache (
+        normalized_url, prompt_version, category_id, relevance_score,
+        ai_summary, tags, cached_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const transaction = this.db.transaction(() => {
+      for (const entry of entries) {
+        stmt.run(
+          entry.normalizedUrl,
+          entry.promptVersion,
+          entry.categoryId,
+          entry.relevanceScore,
+          entry.aiSummary,
+          JSON.stringify(entry.tags),
+          entry.cachedAt
+        );
+      }
+    });
+    transaction();
+  }
+
   /**
    * 保持期間を超えた古い履歴を削除する
+   * 同じ保持期間を超えた整理結果キャッシュも削除する
    * @param beforeDate - この日付より前の履歴を削除（ISO 8601）
-   * @returns 削除された件数
+   * @returns 削除された履歴の件数
    */
   cleanup(beforeDate?: string): number {
     const cutoffDate =
       beforeDate ?? this.calculateCutoffDate(this.config.retentionDays);
 
+    this.db.prepare('DELETE FROM organizer_cache WHERE cached_at < ?').run(cutoffDate);
+
     const stmt = this.db.prepare(`
       DELETE FROM history WHERE first_seen_at < ?
     `);
@@ -301,6 +377,21 @@ export class HistoryStore {
       contentHash: row.content_hash ?? undefined,
     };
   }
+
+  /**
+   * キャッシュ行をキャッシュエントリに変換する
+   */
+  private rowToCacheEntry(row: OrganizerCacheRow): OrganizerCacheEntry {
+    return {
+      normalizedUrl: row.normalized_url,
+      promptVersion: row.prompt_version,
+      categoryId: row.category_id,
+      relevanceScore: row.relevance_score,
+      aiSummary: row.ai_summary,
+      tags: parseTags(row.tags),
+      cachedAt: row.cached_at,
+    };
+  }
 }
 
 /** データベース行の型定義 */
@@ -318,6 +409,29 @@ interface HistoryRow {
   content_hash: string | null;
 }
 
+/** 整理結果キャッシュ行の型定義 */
+interface OrganizerCacheRow {
+  normalized_url: string;
+  prompt_version: string;
+  category_id: string;
+  relevance_score: number;
+  ai_summary: string;
+  tags: string;
+  cached_at: string;
+}
+
+/**
+ * JSON文字列のタグ配列をパースする（不正な値は空配列）
+ */
+function parseTags(json: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * 履歴ストアのファクトリ関数
  * @param config - 設定
@@ -50,6 +50,11 @@ export interface DeduplicatorOptions {
   };
   /** 前回成功時刻（Freshness判定用） */
   lastSuccessAt?: string | null;
+  /**
+   * 指定時刻以降に履歴DBへ追加されたエントリを既出扱いしない
+   * （チェックポイントから重複排除をやり直す際、前回の同一実行分を除外するため）
+   */
+  ignoreHistorySince?: string;
 }
 
 /**
@@ -76,12 +81,14 @@ export class Deduplicator {
   private thresholds: DedupThresholds;
   private urlNormalization: DeduplicatorOptions['urlNormalization'];
   private lastSuccessAt: string | null;
+  private ignoreHistorySince: string | undefined;
 
   constructor(options: DeduplicatorOptions) {
     this.historyStore = new HistoryStore(options.historyStoreConfig);
     this.thresholds = options.thresholds;
     this.urlNormalization = options.urlNormalization;
     this.lastSuccessAt = options.lastSuccessAt ?? null;
+    this.ignoreHistorySince = options.ignoreHistorySince;
   }
 
   /**
@@ -161,7 +168,7 @@ export class Deduplicator {
     articles: Array<RawArticle & { normalizedUrl: string }>
   ): Array<RawArticle & { normalizedUrl: string; historyEntry?: HistoryEntry }> {
     const urls = articles.map((a) => a.normalizedUrl);
-    const existingUrls = this.historyStore.findExistingUrls(urls);
+    const existingUrls = this.historyStore.findExistingUrls(urls, this.ignoreHistorySince);
 
     return articles
       .filter((article) => !existingUrls.has(article.normalizedUrl))
@@ -326,6 +333,13 @@ export class Deduplicator {
     return this.historyStore.cleanup();
   }
 
+  /**
+   * 履歴ストアを取得する（整理結果キャッシュの共有用）
+   */
+  getHistoryStore(): HistoryStore {
+    return this.historyStore;
+  }
+
   /**
    * 履歴ストアの統計を取得する
    */
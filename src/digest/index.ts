@@ -0,0 +1,292 @@
+/**
+ * ダイジェストモジュール
+ * 履歴DBと保存済み日次レポートから週次・月次ダイジェストを生成する
+ */
+
+import type { AgentConfig, HistoryEntry, RateControlConfig } from '../types/index.js';
+import type { HistoryStore } from '../deduplicator/history-store.js';
+import type { TagNormalizer } from '../query-generator/tag-normalizer.js';
+import { executePrompt } from '../collector/sdk-executor.js';
+import type { RunBudget } from '../collector/budget.js';
+import { formatDateJst } from '../output/markdown.js';
+import { loadStoredReports, type StoredReport } from '../output/feed.js';
+import {
+  buildDigestIntroPrompt,
+  parseDigestIntro,
+  DIGEST_PERIOD_DAYS,
+  DIGEST_TOP_STORIES_LIMIT,
+  DIGEST_RISING_TAGS_LIMIT,
+  type Digest,
+  type DigestCategory,
+  type DigestPeriod,
+  type DigestStory,
+  type DigestTag,
+  type SourceContribution,
+} from './prompts.js';
+
+// Re-export prompts
+export * from './prompts.js';
+
+/** カテゴリごとに表示するタグ数 */
+const CATEGORY_TOP_TAGS = 3;
+
+/** 上昇タグとみなす最小出現数 */
+const MIN_RISING_TAG_COUNT = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ダイジェスト生成オプション
+ */
+export interface DigestBuilderOptions {
+  /** 履歴ストア */
+  historyStore: HistoryStore;
+  /** タイトルからのタグ抽出に使用 */
+  tagNormalizer: TagNormalizer;
+  /** 日次レポートの出力ディレクトリ */
+  outputDir: string;
+  /** 日次レポートのファイル名フォーマット */
+  filenameFormat?: string;
+  /** レート制御設定（導入文生成時のみ使用） */
+  rateControl?: RateControlConfig;
+  /** Agent実行設定（導入文生成時のみ使用） */
+  agentConfig?: AgentConfig;
+  /** 実行予算（導入文生成のSDK呼び出しを計上する） */
+  budget?: RunBudget;
+}
+
+/**
+ * DigestBuilderクラス
+ */
+export class DigestBuilder {
+  private options: DigestBuilderOptions;
+
+  constructor(options: DigestBuilderOptions) {
+    this.options = options;
+  }
+
+  /**
+   * ダイジェストを生成する（SDKは使用しない）
+   * @param period - 期間
+   * @param endDate - 期間の最終日（この日を含む）
+   */
+  async build(period: DigestPeriod, endDate: Date): Promise<Digest> {
+    const days = DIGEST_PERIOD_DAYS[period];
+    const endDay = formatDateJst(endDate);
+    const until = startOfJstDay(endDay) + DAY_MS;
+    const since = until - days * DAY_MS;
+    const previousSince = since - days * DAY_MS;
+
+    const entries = this.options.historyStore.findByDateRange(
+      new Date(since).toISOString(),
+      new Date(until).toISOString()
+    );
+    const previousEntries = this.options.historyStore.findByDateRange(
+      new Date(previousSince).toISOString(),
+      new Date(since).toISOString()
+    );
+    const reports = await loadStoredReports(
+      this.options.outputDir,
+      endDate,
+      days,
+      this.options.filenameFormat
+    );
+
+    console.log(
+      `[Digest] ${period}: ${entries.length} history entries, ${reports.length} stored reports`
+    );
+
+    return {
+      period,
+      startDate: formatDateJst(new Date(since)),
+      endDate: endDay,
+      reportCount: reports.length,
+      totalArticles: entries.length,
+      categories: aggregateCategories(reports),
+      topStories: aggregateStories(reports),
+      risingTags: this.findRisingTags(entries, previousEntries),
+      sourceContributions: aggregateSources(entries),
+    };
+  }
+
+  /**
+   * LLMで導入文を生成する
+   * 失敗した場合はnullを返し、ダイジェストはオフラインのまま出力する
+   */
+  async generateIntro(digest: Digest): Promise<string | null> {
+    if (!this.options.rateControl) {
+      console.log('[Digest] Intro generation requires rateControl, skipped');
+      return null;
+    }
+    if (this.options.budget?.isExhausted()) {
+      console.log(`[Digest] Intro skipped for budget: ${this.options.budget.getExhaustedReason() ?? ''}`);
+      return null;
+    }
+
+    const result = await executePrompt(buildDigestIntroPrompt(digest), 'digest', {
+      rateControl: this.options.rateControl,
+      model: this.options.agentConfig?.model,
+      maxTurns: this.options.agentConfig?.maxTurnsOrganizer,
+      permissionMode: this.options.agentConfig?.permissionMode,
+      timeout: this.options.agentConfig?.timeout,
+      cassette: this.options.agentConfig?.cassette,
+      budget: this.options.budget,
+    });
+
+    if (!result.success) {
+      console.log(`[Digest] Intro failed: ${result.error?.message ?? 'unknown error'}`);
+      return null;
+    }
+
+    const parsed = parseDigestIntro(result.content);
+    if (!parsed.intro) {
+      console.log(`[Digest] Intro parse warning: ${parsed.parseError}`);
+    }
+    return parsed.intro;
+  }
+
+  /**
+   * 前期間より出現数が増えたタグを抽出する（タイトルから抽出）
+   */
+  private findRisingTags(entries: HistoryEntry[], previousEntries: HistoryEntry[]): DigestTag[] {
+    const { tagNormalizer } = this.options;
+    const current = tagNormalizer.extractTagsFromMany(entries.map((e) => e.title));
+    const previous = tagNormalizer.extractTagsFromMany(previousEntries.map((e) => e.title));
+
+    return [...current.entries()]
+      .map(([tag, count]) => ({ tag, count, previousCount: previous.get(tag) ?? 0 }))
+      .filter((t) => t.count >= MIN_RISING_TAG_COUNT && t.count > t.previousCount)
+      .sort(
+        (a, b) =>
+          b.count - b.previousCount - (a.count - a.previousCount) ||
+          b.count - a.count ||
+          a.tag.localeCompare(b.tag)
+      )
+      .slice(0, DIGEST_RISING_TAGS_LIMIT);
+  }
+}
+
+/**
+ * 期間出力用のファイル名を生成する（例: digest-week-2024-01-15.md）
+ */
+export function generateDigestFilename(period: DigestPeriod, endDate: Date): string {
+  return `digest-${period}-${formatDateJst(endDate)}.md`;
+}
+
+/**
+ * JST日付（YYYY-MM-DD）の0時をエポックミリ秒で返す
+ */
+function startOfJstDay(date: string): number {
+  return new Date(`${date}T00:00:00+09:00`).getTime();
+}
+
+/**
+ * 保存済みレポートの記事をカテゴリ別に集計する（同一URLはカテゴリ内で1件）
+ */
+function aggregateCategories(reports: StoredReport[]): DigestCategory[] {
+  const categories = new Map<string, { urls: Set<string>; tags: Map<string, number> }>();
+
+  for (const { report } of reports) {
+    for (const category of report?.categories ?? []) {
+      const entry = categories.get(category.name) ?? { urls: new Set(), tags: new Map() };
+      for (const article of category.articles) {
+        if (entry.urls.has(article.url)) continue;
+        entry.urls.add(article.url);
+        for (const tag of article.tags) {
+          entry.tags.set(tag, (entry.tags.get(tag) ?? 0) + 1);
+        }
+      }
+      categories.set(category.name, entry);
+    }
+  }
+
+  return [...categories.entries()]
+    .map(([name, { urls, tags }]) => ({
+      name,
+      articleCount: urls.size,
+      topTags: [...tags.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, CATEGORY_TOP_TAGS)
+        .map(([tag]) => tag),
+    }))
+    .filter((c) => c.articleCount > 0)
+    .sort((a, b) => b.articleCount - a.articleCount);
+}
+
+/**
+ * 複数の日次レポートで取り上げられた記事を集計する
+ * トップ選出回数 → 掲載レポート数 → 最大関連度の順に並べる
+ */
+function aggregateStories(reports: StoredReport[]): DigestStory[] {
+  const stories = new Map<string, DigestStory & { reportDates: Set<string> }>();
+
+  const getStory = (
+    article: { title: string; url: string; source: string; relevanceScore: number },
+    categoryName: string
+  ) => {
+    const story = stories.get(article.url) ?? {
+      title: article.title,
+      url: article.url,
+      source: article.source,
+      categoryName,
+      appearances: 0,
+      topRanked: 0,
+      maxRelevance: 0,
+      reportDates: new Set<string>(),
+    };
+    story.maxRelevance = Math.max(story.maxRelevance, article.relevanceScore);
+    stories.set(article.url, story);
+    return story;
+  };
+
+  for (const { date, report } of reports) {
+    if (!report) continue;
+
+    for (const category of report.categories) {
+      for (const article of category.articles) {
+        getStory(article, category.name).reportDates.add(date);
+      }
+    }
+    for (const top of report.topArticles ?? []) {
+      const story = getStory(top.article, top.categoryName);
+      story.reportDates.add(date);
+      story.topRanked++;
+    }
+  }
+
+  return [...stories.values()]
+    .map(({ reportDates, ...story }) => ({ ...story, appearances: reportDates.size }))
+    .sort(
+      (a, b) =>
+        b.topRanked - a.topRanked ||
+        b.appearances - a.appearances ||
+        b.maxRelevance - a.maxRelevance ||
+        a.title.localeCompare(b.title)
+    )
+    .slice(0, DIGEST_TOP_STORIES_LIMIT);
+}
+
+/**
+ * 期間内の新規記事をソース別に集計する
+ */
+function aggregateSources(entries: HistoryEntry[]): SourceContribution[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    counts.set(entry.source, (counts.get(entry.source) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .map(([source, articles]) => ({
+      source,
+      articles,
+      share: entries.length > 0 ? articles / entries.length : 0,
+    }))
+    .sort((a, b) => b.articles - a.articles || a.source.localeCompare(b.source));
+}
+
+/**
+ * DigestBuilderのファクトリ関数
+ */
+export function createDigestBuilder(options: DigestBuilderOptions): DigestBuilder {
+  return new DigestBuilder(options);
+}
@@ -0,0 +1,224 @@
+/**
+ * 週次・月次ダイジェスト用の型定義・プロンプト・Markdown整形
+ */
+
+/** ダイジェストの期間 */
+export type DigestPeriod = 'week' | 'month';
+
+/** 期間ごとの日数 */
+export const DIGEST_PERIOD_DAYS: Record<DigestPeriod, number> = {
+  week: 7,
+  month: 30,
+};
+
+/** 注目記事の最大件数 */
+export const DIGEST_TOP_STORIES_LIMIT = 10;
+
+/** 上昇タグの最大件数 */
+export const DIGEST_RISING_TAGS_LIMIT = 10;
+
+/**
+ * 期間中に繰り返し取り上げられた記事
+ */
+export interface DigestStory {
+  title: string;
+  url: string;
+  source: string;
+  categoryName?: string;
+  /** 掲載された日次レポート数 */
+  appearances: number;
+  /** トップ記事に選ばれた回数 */
+  topRanked: number;
+  /** 最大関連度スコア */
+  maxRelevance: number;
+}
+
+/**
+ * カテゴリ別の集計
+ */
+export interface DigestCategory {
+  name: string;
+  articleCount: number;
+  /** 出現頻度の高いタグ（最大3件） */
+  topTags: string[];
+}
+
+/**
+ * 前期間から出現数が増えたタグ
+ */
+export interface DigestTag {
+  tag: string;
+  count: number;
+  previousCount: number;
+}
+
+/**
+ * ソースごとの記事提供数
+ */
+export interface SourceContribution {
+  source: string;
+  articles: number;
+  /** 期間内の新規記事に占める割合（0-1） */
+  share: number;
+}
+
+/**
+ * ダイジェスト
+ */
+export interface Digest {
+  period: DigestPeriod;
+  /** 開始日（YYYY-MM-DD、JST） */
+  startDate: string;
+  /** 終了日（YYYY-MM-DD、JST） */
+  endDate: string;
+  /** 期間内の日次レポート数 */
+  reportCount: number;
+  /** 期間内に初めて検出した記事数（履歴DB基準） */
+  totalArticles: number;
+  categories: DigestCategory[];
+  topStories: DigestStory[];
+  risingTags: DigestTag[];
+  sourceContributions: SourceContribution[];
+  /** LLMによる編集後記（オフライン生成時はなし） */
+  intro?: string;
+}
+
+/**
+ * 導入文のパース結果
+ */
+export interface DigestIntroParseResult {
+  intro: string | null;
+  parseError?: string;
+}
+
+/**
+ * ダイジェストの導入文生成プロンプトを生成する
+ */
+export function buildDigestIntroPrompt(digest: Digest): string {
+  const dataJson = JSON.stringify(
+    {
+      period: `${digest.startDate} - ${digest.endDate}`,
+      totalArticles: digest.totalArticles,
+      topStories: digest.topStories.map((s) => ({ title: s.title, category: s.categoryName })),
+      categories: digest.categories.map((c) => ({ name: c.name, articles: c.articleCount })),
+      risingTags: digest.risingTags.map((t) => t.tag),
+    },
+    null,
+    2
+  );
+
+  return `あなたは技術レポートの編集者です。
+以下の${periodLabelJa(digest.period)}の集計をもとに、ダイジェスト冒頭に載せる導入文を作成してください。
+
+## 集計データ
+${dataJson}
+
+## 出力形式
+\`\`\`json
+{
+  "intro": "この期間は〇〇に関する話題が多く取り上げられました。..."
+}
+\`\`\`
+
+## 作成ルール
+1. introは200-300文字程度
+2. 注目記事と上昇タグから期間全体の傾向を述べる
+3. 集計データにない事実を追加しない
+`;
+}
+
+/**
+ * 導入文生成の結果をパースする
+ */
+export function parseDigestIntro(result: string): DigestIntroParseResult {
+  const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/);
+  const jsonStr = jsonMatch?.[1] ?? result;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch (error) {
+    return {
+      intro: null,
+      parseError: error instanceof Error ? error.message : 'Unknown parse error',
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { intro: null, parseError: 'Intro response is not a JSON object' };
+  }
+
+  const { intro } = parsed as Record<string, unknown>;
+  if (typeof intro !== 'string' || intro.trim() === '') {
+    return { intro: null, parseError: 'intro must be a non-empty string' };
+  }
+
+  return { intro: intro.trim() };
+}
+
+/**
+ * ダイジェストをMarkdownフォーマットに変換する
+ */
+export function formatDigestMarkdown(digest: Digest): string {
+  const title = digest.period === 'week' ? 'Weekly Digest' : 'Monthly Digest';
+
+  let markdown = `# ${title} - ${digest.startDate} 〜 ${digest.endDate}\n\n`;
+  markdown += `> Reports: ${digest.reportCount} | New articles: ${digest.totalArticles}\n\n`;
+
+  if (digest.intro) {
+    markdown += `${digest.intro}\n\n`;
+  }
+  markdown += '---\n\n';
+
+  markdown += '## 📰 Most Covered Stories\n\n';
+  if (digest.topStories.length === 0) {
+    markdown += '_No stored reports in this period._\n\n';
+  } else {
+    digest.topStories.forEach((story, index) => {
+      const meta = [story.source, `${story.appearances} reports`];
+      if (story.categoryName) meta.unshift(story.categoryName);
+      if (story.topRanked > 0) meta.push(`🌟 Top ×${story.topRanked}`);
+      markdown += `${index + 1}. [${story.title}](${story.url}) — ${meta.join(' | ')}\n`;
+    });
+    markdown += '\n';
+  }
+
+  if (digest.categories.length > 0) {
+    markdown += '## 📂 Categories\n\n';
+    markdown += '| Category | Articles | Top Tags |\n';
+    markdown += '|----------|----------|----------|\n';
+    for (const category of digest.categories) {
+      markdown += `| ${category.name} | ${category.articleCount} | ${category.topTags.join(', ')} |\n`;
+    }
+    markdown += '\n';
+  }
+
+  if (digest.risingTags.length > 0) {
+    markdown += '## 📈 Rising Tags\n\n';
+    markdown += '| Tag | This Period | Previous |\n';
+    markdown += '|-----|-------------|----------|\n';
+    for (const tag of digest.risingTags) {
+      markdown += `| ${tag.tag} | ${tag.count} | ${tag.previousCount} |\n`;
+    }
+    markdown += '\n';
+  }
+
+  if (digest.sourceContributions.length > 0) {
+    markdown += '## 🗞 Sources\n\n';
+    markdown += '| Source | Articles | Share |\n';
+    markdown += '|--------|----------|-------|\n';
+    for (const contribution of digest.sourceContributions) {
+      markdown += `| ${contribution.source} | ${contribution.articles} | ${Math.round(contribution.share * 100)}% |\n`;
+    }
+    markdown += '\n';
+  }
+
+  return markdown;
+}
+
+/**
+ * 期間の日本語表記
+ */
+function periodLabelJa(period: DigestPeriod): string {
+  return period === 'week' ? '週間' : '月間';
+}
@@ -0,0 +1,476 @@
+/**
+ * ソース健全性管理モジュール
+ * 実行ごとのソース別収集結果を記録し、連続失敗に応じて状態を遷移させる
+ *
+ * healthy → (失敗) → degraded → (連続失敗) → disabled → (クールダウン経過) → probation → (成功) → healthy
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  CollectionResult,
+  SourceConfig,
+  SourceOverride,
+  SourcesConfig,
+  SourceHealthConfig,
+  SourceHealthRecord,
+  SourceHealthState,
+  SourceRunRecord,
+} from '../types/index.js';
+
+/** 健全性管理のデフォルト設定 */
+export const DEFAULT_SOURCE_HEALTH_CONFIG: Required<SourceHealthConfig> = {
+  degradedAfter: 1,
+  disableAfter: 3,
+  probationCooldownHours: 24,
+  recoverAfter: 1,
+};
+
+export interface SourceHealthStoreConfig extends SourceHealthConfig {
+  /** データベースファイルのパス（履歴DBと共用） */
+  path: string;
+}
+
+/**
+ * 実行前の健全性チェック結果
+ */
+export interface SourceHealthPlan {
+  /** 今回の実行から除外するソース（disabledでクールダウン中） */
+  excluded: string[];
+  /** 今回probation（試験運用）で再試行するソース */
+  probation: string[];
+}
+
+/**
+ * 収集結果1件を反映した健全性の状態を計算する
+ * @param current - 現在の状態（初回はnull）
+ * @param run - 今回の収集結果
+ * @param config - 状態遷移のしきい値
+ */
+export function applyHealthTransition(
+  current: SourceHealthRecord | null,
+  run: SourceRunRecord,
+  config: Required<SourceHealthConfig> = DEFAULT_SOURCE_HEALTH_CONFIG
+): SourceHealthRecord {
+  const base: SourceHealthRecord = current ?? {
+    sourceId: run.sourceId,
+    state: 'healthy',
+    consecutiveFailures: 0,
+    consecutiveSuccesses: 0,
+  };
+
+  if (run.success) {
+    const consecutiveSuccesses = base.consecutiveSuccesses + 1;
+    const recovering = base.state === 'probation' && consecutiveSuccesses < config.recoverAfter;
+    return {
+      ...base,
+      state: recovering ? 'probation' : 'healthy',
+      consecutiveFailures: 0,
+      consecutiveSuccesses: recovering ? consecutiveSuccesses : 0,
+      lastRunAt: run.runAt,
+      lastSuccessAt: run.runAt,
+      disabledAt: recovering ? base.disabledAt : undefined,
+      lastError: undefined,
+    };
+  }
+
+  const consecutiveFailures = base.consecutiveFailures + 1;
+  let state: SourceHealthState = 'healthy';
+  if (base.state === 'probation' || base.state === 'disabled' || consecutiveFailures >= config.disableAfter) {
+    state = 'disabled';
+  } else if (consecutiveFailures >= config.degradedAfter) {
+    state = 'degraded';
+  }
+
+  return {
+    ...base,
+    state,
+    consecutiveFailures,
+    consecutiveSuccesses: 0,
+    lastRunAt: run.runAt,
+    disabledAt: state === 'disabled' ? run.runAt : undefined,
+    lastError: run.errorMessage ?? base.lastError,
+  };
+}
+
+/**
+ * 収集結果からソース別の実行記録を構築する（予算超過でスキップしたソースは含まない）
+ * partialは記事が取れた場合のみ成功とする（エラーで0件の場合は失敗）
+ */
+export function buildSourceRunRecords(result: CollectionResult, runAt: string): SourceRunRecord[] {
+  return Object.entries(result.sourcesStatus).map(([sourceId, status]) => {
+    const error = result.errors.find((e) => e.sourceId === sourceId);
+    const articleCount = result.articles.filter((a) => a.source === sourceId).length;
+    return {
+      sourceId,
+      runAt,
+      success: status === 'success' || (status === 'partial' && articleCount > 0),
+      articleCount,
+      latencyMs: result.latencyMs?.[sourceId],
+      errorType: error?.errorType,
+      errorMessage: error?.message,
+    };
+  });
+}
+
+/**
+ * ソースの実効状態とその理由
+ */
+export interface SourceStateDescription {
+  sourceId: string;
+  tier: SourceConfig['tier'];
+  /** 次回の実行で収集するか */
+  enabled: boolean;
+  health?: SourceHealthState;
+  /** 状態の理由 */
+  reason: string;
+}
+
+/**
+ * sources.json・上書き・健全性からソースの実効状態と理由を求める
+ * @param sources - sources.jsonのソース定義（上書き適用前）
+ * @param overrides - 実行時の上書き
+ * @param healthRecords - ソースの健全性
+ * @param config - 健全性管理設定（クールダウンの判定に使用）
+ * @param now - 現在時刻
+ */
+export function describeSourceStates(
+  sources: SourceConfig[],
+  overrides: Record<string, SourceOverride>,
+  healthRecords: SourceHealthRecord[],
+  config: SourceHealthConfig = {},
+  now: Date = new Date()
+): SourceStateDescription[] {
+  const healthById = new Map(healthRecords.map((record) => [record.sourceId, record]));
+  const cooldownHours = config.probationCooldownHours ?? DEFAULT_SOURCE_HEALTH_CONFIG.probationCooldownHours;
+
+  return sources.map((source) => {
+    const override = overrides[source.id];
+    const health = healthById.get(source.id);
+    const describe = (enabled: boolean, reason: string): SourceStateDescription => ({
+      sourceId: source.id,
+      tier: source.tier,
+      enabled,
+      health: health?.state,
+      reason,
+    });
+
+    if (override && !override.enabled) {
+      return describe(false, `disabled by override${override.reason ? `: ${override.reason}` : ''} (${override.updatedAt})`);
+    }
+    if (!override && !source.enabled) {
+      return describe(false, 'disabled in sources.json');
+    }
+
+    const failures = health ? `${health.consecutiveFailures} consecutive failures${health.lastError ? `: ${health.lastError}` : ''}` : '';
+    if (health?.state === 'disabled') {
+      const probationAt = new Date(new Date(health.disabledAt ?? 0).getTime() + cooldownHours * 60 * 60 * 1000);
+      return probationAt.getTime() <= now.getTime()
+        ? describe(true, `health: disabled (${failures}), retried in probation on the next run`)
+        : describe(false, `health: disabled (${failures}), probation after ${probationAt.toISOString()}`);
+    }
+    if (health?.state === 'probation') {
+      return describe(true, 'health: probation, re-enabled after a successful run');
+    }
+    if (health?.state === 'degraded') {
+      return describe(true, `health: degraded (${failures})`);
+    }
+
+    return describe(
+      true,
+      override ? `enabled by override${override.reason ? `: ${override.reason}` : ''} (${override.updatedAt})` : 'enabled in sources.json'
+    );
+  });
+}
+
+/**
+ * 指定したソースを無効にしたソース設定を返す（設定ファイルは変更しない）
+ */
+export function excludeSources(sourcesConfig: SourcesConfig, sourceIds: string[]): SourcesConfig {
+  const targetIds = new Set(sourceIds);
+  return {
+    ...sourcesConfig,
+    sources: sourcesConfig.sources.map((source) =>
+      targetIds.has(source.id) ? { ...source, enabled: false } : source
+    ),
+  };
+}
+
+/**
+ * ソース健全性ストアクラス
+ */
+export class SourceHealthStore {
+  private db: Database.Database;
+  private config: Required<SourceHealthConfig>;
+
+  constructor(config: SourceHealthStoreConfig) {
+    this.config = {
+      degradedAfter: config.degradedAfter ?? DEFAULT_SOURCE_HEALTH_CONFIG.degradedAfter,
+      disableAfter: config.disableAfter ?? DEFAULT_SOURCE_HEALTH_CONFIG.disableAfter,
+      probationCooldownHours:
+        config.probationCooldownHours ?? DEFAULT_SOURCE_HEALTH_CONFIG.probationCooldownHours,
+      recoverAfter: config.recoverAfter ?? DEFAULT_SOURCE_HEALTH_CONFIG.recoverAfter,
+    };
+    fs.mkdirSync(path.dirname(config.path), { recursive: true });
+    this.db = new Database(config.path);
+    this.initialize();
+  }
+
+  /**
+   * データベースを初期化する
+   */
+  private initialize(): void {
+    this.db.pragma('journal_mode = WAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS source_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_id TEXT NOT NULL,
+        run_at TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        article_count INTEGER NOT NULL,
+        latency_ms INTEGER,
+        error_type TEXT,
+        error_message TEXT
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_source_runs_source_run_at ON source_runs(source_id, run_at);
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS source_health (
+        source_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL CHECK(state IN ('healthy', 'degraded', 'disabled', 'probation')),
+        consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        consecutive_successes INTEGER NOT NULL DEFAULT 0,
+        last_run_at TEXT,
+        last_success_at TEXT,
+        disabled_at TEXT,
+        last_error TEXT
+      )
+    `);
+  }
+
+  /**
+   * ソースの健全性を取得する
+   * @returns 健全性（記録がない場合はnull）
+   */
+  get(sourceId: string): SourceHealthRecord | null {
+    const row = this.db
+      .prepare('SELECT * FROM source_health WHERE source_id = ?')
+      .get(sourceId) as SourceHealthRow | undefined;
+    return row ? this.rowToRecord(row) : null;
+  }
+
+  /**
+   * 全ソースの健全性を取得する
+   */
+  getAll(): SourceHealthRecord[] {
+    const rows = this.db.prepare('SELECT * FROM source_health ORDER BY source_id').all() as SourceHealthRow[];
+    return rows.map((row) => this.rowToRecord(row));
+  }
+
+  /**
+   * ソースの直近の実行記録を取得する（新しい順）
+   */
+  getRecentRuns(sourceId: string, limit: number = 10): SourceRunRecord[] {
+    const rows = this.db
+      .prepare('SELECT * FROM source_runs WHERE source_id = ? ORDER BY run_at DESC, id DESC LIMIT ?')
+      .all(sourceId, limit) as SourceRunRow[];
+    return rows.map((row) => ({
+      sourceId: row.source_id,
+      runAt: row.run_at,
+      success: row.success === 1,
+      articleCount: row.article_count,
+      latencyMs: row.latency_ms ?? undefined,
+      errorType: (row.error_type as SourceRunRecord['errorType']) ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+    }));
+  }
+
+  /**
+   * 実行前に対象ソースを判定する
+   * クールダウンが明けたdisabledのソースはprobationに移して再試行する
+   * @param sourceIds - 有効なソースID
+   * @param now - 現在時刻
+   */
+  planRun(sourceIds: string[], now: Date = new Date()): SourceHealthPlan {
+    const excluded: string[] = [];
+    const probation: string[] = [];
+    const cooldownMs = this.config.probationCooldownHours * 60 * 60 * 1000;
+
+    for (const sourceId of sourceIds) {
+      const record = this.get(sourceId);
+      if (record?.state === 'probation') {
+        probation.push(sourceId);
+      } else if (record?.state === 'disabled') {
+        const disabledAt = record.disabledAt ? new Date(record.disabledAt).getTime() : 0;
+        if (now.getTime() - disabledAt >= cooldownMs) {
+          this.save({ ...record, state: 'probation', consecutiveSuccesses: 0 });
+          console.log(`[SourceHealth] ${sourceId}: disabled -> probation (cooldown elapsed)`);
+          probation.push(sourceId);
+        } else {
+          excluded.push(sourceId);
+        }
+      }
+    }
+
+    return { excluded, probation };
+  }
+
+  /**
+   * 実行結果を記録し、健全性を更新する
+   * @returns 更新後の健全性
+   */
+  recordRun(runs: SourceRunRecord[]): SourceHealthRecord[] {
+    const insert = this.db.prepare(`
+      INSERT INTO source_runs (source_id, run_at, success, article_count, latency_ms, error_type, error_message)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const record = this.db.transaction((items: SourceRunRecord[]) =>
+      items.map((run) => {
+        insert.run(
+          run.sourceId,
+          run.runAt,
+          run.success ? 1 : 0,
+          run.articleCount,
+          run.latencyMs ?? null,
+          run.errorType ?? null,
+          run.errorMessage ?? null
+        );
+
+        const current = this.get(run.sourceId);
+        const next = applyHealthTransition(current, run, this.config);
+        this.save(next);
+        if ((current?.state ?? 'healthy') !== next.state) {
+          console.log(`[SourceHealth] ${run.sourceId}: ${current?.state ?? 'healthy'} -> ${next.state}`);
+        }
+        return next;
+      })
+    );
+
+    return record(runs);
+  }
+
+  /**
+   * ソースを無効化する（クールダウン後にprobationで再試行される）
+   * @param sourceIds - 無効化するソースID
+   * @param reason - 無効化の理由
+   * @param now - 現在時刻
+   */
+  disable(sourceIds: string[], reason: string, now: Date = new Date()): void {
+    for (const sourceId of sourceIds) {
+      const current = this.get(sourceId);
+      this.save({
+        sourceId,
+        consecutiveFailures: current?.consecutiveFailures ?? 0,
+        consecutiveSuccesses: 0,
+        lastRunAt: current?.lastRunAt,
+        lastSuccessAt: current?.lastSuccessAt,
+        state: 'disabled',
+        disabledAt: now.toISOString(),
+        lastError: reason,
+      });
+      console.log(`[SourceHealth] ${sourceId}: ${current?.state ?? 'healthy'} -> disabled (${reason})`);
+    }
+  }
+
+  /**
+   * 健全性をリセットする（実行記録は残す）
+   * @param sourceIds - 対象ソースID（省略時は全ソース）
+   * @returns リセットしたソースID
+   */
+  reset(sourceIds?: string[]): string[] {
+    const targetIds = sourceIds ?? this.getAll().map((record) => record.sourceId);
+    const remove = this.db.prepare('DELETE FROM source_health WHERE source_id = ?');
+    return targetIds.filter((sourceId) => remove.run(sourceId).changes > 0);
+  }
+
+  /**
+   * データベースを閉じる
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * 健全性を保存する
+   */
+  private save(record: SourceHealthRecord): void {
+    this.db
+      .prepare(`
+        INSERT INTO source_health (
+          source_id, state, consecutive_failures, consecutive_successes,
+          last_run_at, last_success_at, disabled_at, last_error
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(source_id) DO UPDATE SET
+          state = excluded.state,
+          consecutive_failures = excluded.consecutive_failures,
+          consecutive_successes = excluded.consecutive_successes,
+          last_run_at = excluded.last_run_at,
+          last_success_at = excluded.last_success_at,
+          disabled_at = excluded.disabled_at,
+          last_error = excluded.last_error
+      `)
+      .run(
+        record.sourceId,
+        record.state,
+        record.consecutiveFailures,
+        record.consecutiveSuccesses,
+        record.lastRunAt ?? null,
+        record.lastSuccessAt ?? null,
+        record.disabledAt ?? null,
+        record.lastError ?? null
+      );
+  }
+
+  /**
+   * データベース行を健全性に変換する
+   */
+  private rowToRecord(row: SourceHealthRow): SourceHealthRecord {
+    return {
+      sourceId: row.source_id,
+      state: row.state as SourceHealthState,
+      consecutiveFailures: row.consecutive_failures,
+      consecutiveSuccesses: row.consecutive_successes,
+      lastRunAt: row.last_run_at ?? undefined,
+      lastSuccessAt: row.last_success_at ?? undefined,
+      disabledAt: row.disabled_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+    };
+  }
+}
+
+/** データベース行の型定義 */
+interface SourceHealthRow {
+  source_id: string;
+  state: string;
+  consecutive_failures: number;
+  consecutive_successes: number;
+  last_run_at: string | null;
+  last_success_at: string | null;
+  disabled_at: string | null;
+  last_error: string | null;
+}
+
+interface SourceRunRow {
+  id: number;
+  source_id: string;
+  run_at: string;
+  success: number;
+  article_count: number;
+  latency_ms: number | null;
+  error_type: string | null;
+  error_message: string | null;
+}
+
+/**
+ * SourceHealthStoreのファクトリ関数
+ */
+export function createSourceHealthStore(config: SourceHealthStoreConfig): SourceHealthStore {
+  return new SourceHealthStore(config);
+}
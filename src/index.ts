@@ -6,26 +6,104 @@
  */
 
 import * as path from 'path';
-import type { CollectionError, DateMethodConfig } from './types/index.js';
+import type {
+  AppConfig,
+  CassetteConfig,
+  CollectionError,
+  CollectionResult,
+  DateMethodConfig,
+  OrganizedReport,
+  ReportFormat,
+  RunStage,
+  UsageSummary,
+} from './types/index.js';
 
 import {
   loadAllConfigs,
+  loadDefaultConfig,
+  loadSourcesConfig,
+  loadSourceOverrides,
   disableSources,
+  enableSources,
+  resetSourceOverrides,
+  getConfigDir,
   saveLastSuccessAt,
   getHistoryDbPath,
   getOutputDir,
+  getRunsDir,
   validateConfigFiles,
+  type AllConfigs,
 } from './config/loader.js';
+import {
+  createCheckpointStore,
+  shouldRunStage,
+  isRunStage,
+  RUN_STAGES,
+  type OrganizeCheckpoint,
+} from './checkpoint/index.js';
 
-import { createDeduplicator, type DeduplicatorOptions } from './deduplicator/index.js';
-import { createQueryGenerator } from './query-generator/index.js';
-import { createCollector, type CollectionTask } from './collector/index.js';
+import {
+  createDeduplicator,
+  createHistoryStore,
+  type DeduplicationResult,
+  type Deduplicator,
+  type DeduplicatorOptions,
+} from './deduplicator/index.js';
+import {
+  createSourceHealthStore,
+  buildSourceRunRecords,
+  describeSourceStates,
+  excludeSources,
+  type SourceStateDescription,
+} from './health/index.js';
+import { createQueryGenerator, createTagNormalizer } from './query-generator/index.js';
+import {
+  createCollector,
+  createFakeExecutor,
+  loadFakeFixtures,
+  buildUsageSummary,
+  createRunBudget,
+  createCircuitBreaker,
+  formatCost,
+  type CollectionTask,
+  type Executor,
+} from './collector/index.js';
+import {
+  createOrganizer,
+  createHeuristicCategorizer,
+  buildOrganizedReport,
+  selectTopArticles,
+  type CategorySummary,
+  type TopArticle,
+} from './organizer/index.js';
 import {
   generateDailyReport,
   generateSimpleReport,
   saveReport,
   generateReportFilename,
+  replaceReportExtension,
+  formatDateJst,
+  formatSkippedSources,
 } from './output/markdown.js';
+import { generateHtmlReport } from './output/html.js';
+import { writeFeeds } from './output/feed.js';
+import { deliverReportEmail } from './output/email.js';
+import { createGitPublisher } from './output/git-publisher.js';
+import { createNotifier, buildNotificationMessage } from './notifier/index.js';
+import {
+  createDigestBuilder,
+  formatDigestMarkdown,
+  generateDigestFilename,
+  type DigestPeriod,
+} from './digest/index.js';
+import {
+  generateJsonReport,
+  loadJsonReport,
+  type JsonReportValidationResult,
+} from './output/json.js';
+
+/** デフォルトの出力形式 */
+const DEFAULT_REPORT_FORMATS: ReportFormat[] = ['markdown', 'json'];
 
 /**
  * 実行オプション
@@ -39,10 +117,16 @@ export interface RunOptions {
   verbose?: boolean;
   /** カテゴリ化をスキップ（簡易レポート） */
   skipCategorization?: boolean;
-  /** Abort多発ソースを自動で無効化する */
+  /** Abort多発ソースを自動で無効化し、disabledのソースをクールダウン中は除外する */
   autoDisableUnstableSources?: boolean;
   /** 無効化後に同一実行内で再収集する */
   rerunAfterDisable?: boolean;
+  /** 指定ステージから再開する（それ以前はチェックポイントを読み込む、デフォルト: collect） */
+  fromStage?: RunStage;
+  /** SDK呼び出しの記録・再生（設定ファイルのagent.cassetteより優先） */
+  cassette?: CassetteConfig;
+  /** SDK実行の差し替え（テスト・CIでのフェイク実行用） */
+  executor?: Executor;
 }
 
 /**
@@ -57,6 +141,8 @@ export interface RunResult {
     freshArticles: number;
     executionTimeMs: number;
   };
+  /** SDK使用量の集計 */
+  usage?: UsageSummary;
   errors: string[];
 }
 
@@ -81,191 +167,622 @@ export async function run(options: RunOptions = {}): Promise<RunResult> {
   }
 
   // 設定を読み込む
-  let configs = loadAllConfigs();
+  let configs = loadRunConfigs(options);
   console.log(`[Daily Reporter] Loaded ${configs.sources.sources.length} sources`);
 
   // クエリ生成
-  let queryGenerator = createQueryGenerator(configs.tagSynonyms, configs.queries);
-  let queryResult = queryGenerator.generate();
+  const queryGenerator = createQueryGenerator(configs.tagSynonyms, configs.queries);
+  const queryResult = queryGenerator.generate();
   console.log(`[Daily Reporter] Generated ${queryResult.queries.length} queries`);
 
-  // 収集タスクを構築
-  let collector = createCollector({
-    sourcesConfig: configs.sources,
-    queries: queryResult.queries,
-    dateRestrictionDays: queryGenerator.getDateRestrictionDays(),
-    dryRun: options.dryRun,
-    agentConfig: configs.app.agent,
-  });
+  // 実行予算（設定されている場合のみ）
+  const budget = configs.app.budget ? createRunBudget(configs.app.budget, startTime) : undefined;
+  let deduplicator: Deduplicator | undefined;
 
-  let tasks = collector.getAllTasks();
-  console.log(`[Daily Reporter] Built ${tasks.length} collection tasks`);
+  try {
+    // サーキットブレーカーは実行単位（再実行用にCollectorを作り直しても開いた回路を引き継ぐ）
+    const circuitBreaker = createCircuitBreaker(configs.sources.rateControl.circuitBreakerThreshold);
 
-  if (options.dryRun) {
-    console.log('[Daily Reporter] Dry run mode - skipping actual collection');
-    printTasks(tasks, options.verbose ?? false);
-    return {
-      success: true,
-      stats: { collected: 0, afterDedup: 0, freshArticles: 0, executionTimeMs: Date.now() - startTime },
-      errors: [],
+    // 収集タスクを構築
+    let collector = createCollector({
+      sourcesConfig: configs.sources,
+      queries: queryResult.queries,
+      dateRestrictionDays: queryGenerator.getDateRestrictionDays(),
+      dryRun: options.dryRun,
+      agentConfig: configs.app.agent,
+      executor: options.executor,
+      budget,
+      circuitBreaker,
+    });
+
+    let tasks = collector.getAllTasks();
+    console.log(`[Daily Reporter] Built ${tasks.length} collection tasks`);
+
+    if (options.dryRun) {
+      console.log('[Daily Reporter] Dry run mode - skipping actual collection');
+      printTasks(tasks, options.verbose ?? false);
+      return {
+        success: true,
+        stats: { collected: 0, afterDedup: 0, freshArticles: 0, executionTimeMs: Date.now() - startTime },
+        errors: [],
+      };
+    }
+
+    const fromStage = options.fromStage ?? 'collect';
+    const checkpoints = createCheckpointStore(path.join(getRunsDir(), formatDateJst(date)));
+    let collectionResult: CollectionResult;
+    let lastSuccessAt = configs.lastSuccessAt;
+    let ignoreHistorySince: string | undefined;
+
+    if (!shouldRunStage('collect', fromStage)) {
+      // チェックポイントから再開
+      const checkpoint = checkpoints.loadCollection();
+      if (!checkpoint) {
+        return missingCheckpointResult('collect', checkpoints.getRunDir(), startTime);
+      }
+      console.log(`[Daily Reporter] Resuming from ${fromStage} (collected at ${checkpoint.savedAt})`);
+      collectionResult = checkpoint.data.collectionResult;
+      lastSuccessAt = checkpoint.data.lastSuccessAt;
+      // 前回の重複排除で履歴DBに追加された分は既出扱いしない
+      ignoreHistorySince = checkpoint.savedAt;
+    } else {
+      // Stage 1: 情報収集
+      const autoDisableUnstableSources = options.autoDisableUnstableSources ?? true;
+      const rerunAfterDisable = options.rerunAfterDisable ?? true;
+      const healthStore = createSourceHealthStore({ path: getHistoryDbPath(), ...configs.app.sourceHealth });
+
+      try {
+        // disabledのソースはクールダウンが明けるまで除外（明けたらprobationで再試行）
+        if (autoDisableUnstableSources) {
+          const healthPlan = healthStore.planRun(collector.getEnabledSources().map((s) => s.id));
+          if (healthPlan.probation.length > 0) {
+            console.log(`[Daily Reporter] Probation sources: ${healthPlan.probation.join(', ')}`);
+          }
+          if (healthPlan.excluded.length > 0) {
+            console.log(`[Daily Reporter] Skipping disabled sources: ${healthPlan.excluded.join(', ')}`);
+            configs = { ...configs, sources: excludeSources(configs.sources, healthPlan.excluded) };
+            collector = createCollector({
+              sourcesConfig: configs.sources,
+              queries: queryResult.queries,
+              dateRestrictionDays: queryGenerator.getDateRestrictionDays(),
+              dryRun: false,
+              agentConfig: configs.app.agent,
+              executor: options.executor,
+              budget,
+              circuitBreaker,
+            });
+          }
+        }
+
+        console.log('[Daily Reporter] Stage 1: Starting collection...');
+        collectionResult = await collector.collectAll();
+
+        if (autoDisableUnstableSources) {
+          const unstableSourceIds = findAbortHeavySourceIds(collectionResult.errors);
+          if (unstableSourceIds.length > 0) {
+            healthStore.disable(unstableSourceIds, 'Claude Code process aborted repeatedly');
+            console.log(`[Daily Reporter] Disabled unstable sources: ${unstableSourceIds.join(', ')}`);
+
+            if (rerunAfterDisable) {
+              configs = { ...configs, sources: excludeSources(configs.sources, unstableSourceIds) };
+              collector = createCollector({
+                sourcesConfig: configs.sources,
+                queries: queryResult.queries,
+                dateRestrictionDays: queryGenerator.getDateRestrictionDays(),
+                dryRun: false,
+                agentConfig: configs.app.agent,
+                executor: options.executor,
+                budget,
+                circuitBreaker,
+              });
+
+              tasks = collector.getAllTasks();
+              console.log(`[Daily Reporter] Built ${tasks.length} collection tasks`);
+              console.log('[Daily Reporter] Stage 1: Re-running collection...');
+              collectionResult = await collector.collectAll();
+            }
+          }
+        }
+
+        healthStore.recordRun(buildSourceRunRecords(collectionResult, new Date().toISOString()));
+      } finally {
+        healthStore.close();
+      }
+
+      checkpoints.saveCollection({ collectionResult, lastSuccessAt });
+    }
+
+    if (collectionResult.skippedSources?.length) {
+      errors.push(formatSkippedSources(collectionResult.skippedSources));
+    }
+
+    // Tier別ステータスを集計
+    const tierCounts = collector.getSourceCountByTier();
+    const tierStatus = {
+      tier1: { success: 0, total: tierCounts.tier1 },
+      tier2: { success: 0, total: tierCounts.tier2 },
+      tier3: { success: 0, total: tierCounts.tier3 },
     };
-  }
 
-  // Stage 1: 情報収集
-  console.log('[Daily Reporter] Stage 1: Starting collection...');
-  let collectionResult = await collector.collectAll();
-
-  const autoDisableUnstableSources = options.autoDisableUnstableSources ?? true;
-  const rerunAfterDisable = options.rerunAfterDisable ?? true;
-
-  if (autoDisableUnstableSources) {
-    const unstableSourceIds = findAbortHeavySourceIds(collectionResult.errors);
-    if (unstableSourceIds.length > 0) {
-      const disabledSourceIds = disableSources(unstableSourceIds);
-      if (disabledSourceIds.length > 0) {
-        console.log(`[Daily Reporter] Disabled unstable sources: ${disabledSourceIds.join(', ')}`);
-
-        if (rerunAfterDisable) {
-          console.log('[Daily Reporter] Reloading configuration after disabling unstable sources...');
-          configs = loadAllConfigs();
-          console.log(`[Daily Reporter] Loaded ${configs.sources.sources.length} sources`);
-
-          queryGenerator = createQueryGenerator(configs.tagSynonyms, configs.queries);
-          queryResult = queryGenerator.generate();
-          console.log(`[Daily Reporter] Generated ${queryResult.queries.length} queries`);
-
-          collector = createCollector({
-            sourcesConfig: configs.sources,
-            queries: queryResult.queries,
-            dateRestrictionDays: queryGenerator.getDateRestrictionDays(),
-            dryRun: false,
-            agentConfig: configs.app.agent,
-          });
-
-          tasks = collector.getAllTasks();
-          console.log(`[Daily Reporter] Built ${tasks.length} collection tasks`);
-          console.log('[Daily Reporter] Stage 1: Re-running collection...');
-          collectionResult = await collector.collectAll();
+    for (const source of configs.sources.sources) {
+      if (!source.enabled) continue;
+      const status = collectionResult.sourcesStatus[source.id];
+      if (status === 'success' || status === 'partial') {
+        if (source.tier === 1) tierStatus.tier1.success++;
+        else if (source.tier === 2) tierStatus.tier2.success++;
+        else if (source.tier === 3) tierStatus.tier3.success++;
+      }
+    }
+
+    console.log(`[Daily Reporter] Collection complete: ${collectionResult.stats.totalArticles} articles`);
+    console.log(`[Daily Reporter] Tier status: Tier1 ${tierStatus.tier1.success}/${tierStatus.tier1.total}, Tier2 ${tierStatus.tier2.success}/${tierStatus.tier2.total}, Tier3 ${tierStatus.tier3.success}/${tierStatus.tier3.total}`);
+
+    // 重複排除の設定
+    const dedupOptions: DeduplicatorOptions = {
+      historyStoreConfig: {
+        path: getHistoryDbPath(),
+        retentionDays: configs.app.historyRetentionDays ?? 90,
+      },
+      thresholds: configs.dedupThresholds,
+      urlNormalization: {
+        removeParams: ['utm_source', 'utm_medium', 'utm_campaign', 'ref', 'source'],
+        normalizeTrailingSlash: true,
+        lowercaseHost: true,
+      },
+      lastSuccessAt,
+      ignoreHistorySince,
+    };
+
+    deduplicator = createDeduplicator(dedupOptions);
+
+    // DateMethodマップを作成
+    const dateMethodMap = new Map<string, DateMethodConfig>();
+    for (const source of configs.sources.sources) {
+      if (source.dateMethod) {
+        dateMethodMap.set(source.id, {
+          type: source.dateMethod,
+          selector: source.dateSelector,
+          pattern: source.datePattern,
+        });
+      }
+    }
+
+    // Stage 2: 重複排除
+    let dedupResult: DeduplicationResult;
+    if (shouldRunStage('dedup', fromStage)) {
+      console.log('[Daily Reporter] Stage 2: Deduplication');
+      dedupResult = await deduplicator.deduplicate(collectionResult.articles, dateMethodMap);
+      checkpoints.saveDedup(dedupResult);
+    } else {
+      const checkpoint = checkpoints.loadDedup();
+      if (!checkpoint) {
+        return missingCheckpointResult('dedup', checkpoints.getRunDir(), startTime);
+      }
+      dedupResult = checkpoint.data;
+    }
+    console.log(`[Daily Reporter] After dedup: ${dedupResult.articles.length} articles`);
+
+    // レポート生成
+    const outputConfig = configs.app.output;
+    const outputDir = getOutputDir(outputConfig?.directory);
+    const reportFilename = generateReportFilename(date, outputConfig?.filenameFormat);
+    const reportPath = path.join(outputDir, reportFilename);
+    const includeMetadata = outputConfig?.includeMetadata ?? true;
+    const formats: ReportFormat[] = outputConfig?.formats ?? DEFAULT_REPORT_FORMATS;
+
+    let reportMarkdown: string;
+    let organizedReport: OrganizedReport | undefined;
+    let usage = buildUsageSummary(collectionResult.usage ?? {});
+
+    if (options.skipCategorization) {
+      // 簡易レポート（カテゴリ化なし）
+      reportMarkdown = generateSimpleReport(
+        dedupResult.articles,
+        collectionResult,
+        dedupResult,
+        date,
+        configs.sources.sources,
+        includeMetadata,
+        usage
+      );
+    } else {
+      let stageOutput: OrganizeCheckpoint;
+
+      if (shouldRunStage('organize', fromStage)) {
+        // Stage 3: AI整理（カテゴリ化）
+        console.log('[Daily Reporter] Stage 3: Categorization');
+        const organizer = createOrganizer({
+          queryGroups: configs.queries.queryGroups,
+          rateControl: configs.sources.rateControl,
+          agentConfig: configs.app.agent,
+          fallbackCategorizer: createHeuristicCategorizer(
+            queryGenerator.getTitleAnalyzer(),
+            queryGenerator.getTagNormalizer(),
+            configs.queries.queryGroups
+          ),
+          cacheStore: deduplicator.getHistoryStore(),
+          executor: options.executor,
+          budget,
+        });
+        const organized = await organizer.organize(dedupResult.articles);
+        console.log(
+          `[Daily Reporter] Categorized ${organized.stats.categorizedArticles}/${organized.stats.totalArticles} articles (heuristic: ${organized.stats.heuristicArticles})`
+        );
+
+        const llmFailed = organized.stats.categorizedArticles === 0 && dedupResult.articles.length > 0;
+        let categorySummaries: Map<string, CategorySummary> | undefined;
+        let topArticles: TopArticle[];
+
+        if (llmFailed) {
+          // LLMのカテゴリ化が全滅した場合はヒューリスティック分類のみでレポートを構成する
+          console.log('[Daily Reporter] Categorization failed, using heuristic categorization');
+          topArticles = selectTopArticles([], [...organized.categorizedArticles.values()].flat());
+        } else {
+          categorySummaries = await organizer.summarizeCategories(organized.categorizedArticles);
+          console.log(`[Daily Reporter] Summarized ${categorySummaries.size} categories`);
+
+          topArticles = await organizer.rankArticles(organized.categorizedArticles);
+        }
+        console.log(`[Daily Reporter] Selected ${topArticles.length} top articles`);
+
+        stageOutput = {
+          organized,
+          categoryOrder: organizer.getCategoryOrder(),
+          categorySummaries,
+          topArticles,
+          llmFailed,
+          usage: organizer.getUsage(),
+        };
+        checkpoints.saveOrganize(stageOutput);
+      } else {
+        const checkpoint = checkpoints.loadOrganize();
+        if (!checkpoint) {
+          return missingCheckpointResult('organize', checkpoints.getRunDir(), startTime);
         }
+        stageOutput = checkpoint.data;
+      }
+
+      const { organized, categoryOrder, categorySummaries, topArticles } = stageOutput;
+      if (stageOutput.llmFailed) {
+        errors.push('Stage 3 categorization failed, using heuristic categorization');
       }
+      usage = buildUsageSummary(collectionResult.usage ?? {}, stageOutput.usage);
+
+      reportMarkdown = generateDailyReport({
+        date,
+        collectionResult,
+        deduplicationResult: dedupResult,
+        categorizedArticles: organized.categorizedArticles,
+        categoryOrder,
+        categorySummaries,
+        topArticles,
+        executionTimeMs: Date.now() - startTime,
+        organizerCache: { hits: organized.stats.cacheHits, misses: organized.stats.cacheMisses },
+        usage,
+        includeMetadata,
+      });
+
+      organizedReport = buildOrganizedReport(organized, {
+        date: formatDateJst(date),
+        collectionResult,
+        afterDedup: dedupResult.articles.length,
+        executionTimeMs: Date.now() - startTime,
+        sources: configs.sources.sources,
+        categoryOrder,
+        categorySummaries,
+        topArticles,
+        usage,
+      });
     }
-  }
+    console.log(
+      `[Daily Reporter] SDK usage: ${usage.total.invocations} calls, ${usage.total.inputTokens} input / ${usage.total.outputTokens} output tokens, ${formatCost(usage.total.costUsd)}`
+    );
 
-  // Tier別ステータスを集計
-  const tierCounts = collector.getSourceCountByTier();
-  const tierStatus = {
-    tier1: { success: 0, total: tierCounts.tier1 },
-    tier2: { success: 0, total: tierCounts.tier2 },
-    tier3: { success: 0, total: tierCounts.tier3 },
-  };
+    // レポートを保存
+    const savedPaths: string[] = [];
+    if (formats.includes('markdown')) {
+      await saveReport(reportMarkdown, reportPath);
+      savedPaths.push(reportPath);
+      console.log(`[Daily Reporter] Report saved to: ${reportPath}`);
+    }
 
-  for (const source of configs.sources.sources) {
-    if (!source.enabled) continue;
-    const status = collectionResult.sourcesStatus[source.id];
-    if (status === 'success' || status === 'partial') {
-      if (source.tier === 1) tierStatus.tier1.success++;
-      else if (source.tier === 2) tierStatus.tier2.success++;
-      else if (source.tier === 3) tierStatus.tier3.success++;
+    if (formats.includes('html')) {
+      if (organizedReport) {
+        const htmlPath = replaceReportExtension(reportPath, '.html');
+        await saveReport(generateHtmlReport(organizedReport, { includeMetadata }), htmlPath);
+        savedPaths.push(htmlPath);
+        console.log(`[Daily Reporter] HTML report saved to: ${htmlPath}`);
+      } else {
+        console.log('[Daily Reporter] HTML report requires categorization, skipped');
+      }
     }
-  }
 
-  console.log(`[Daily Reporter] Collection complete: ${collectionResult.stats.totalArticles} articles`);
-  console.log(`[Daily Reporter] Tier status: Tier1 ${tierStatus.tier1.success}/${tierStatus.tier1.total}, Tier2 ${tierStatus.tier2.success}/${tierStatus.tier2.total}, Tier3 ${tierStatus.tier3.success}/${tierStatus.tier3.total}`);
+    if (formats.includes('json')) {
+      if (organizedReport) {
+        const jsonPath = replaceReportExtension(reportPath, '.json');
+        await saveReport(generateJsonReport(organizedReport), jsonPath);
+        savedPaths.push(jsonPath);
+        console.log(`[Daily Reporter] JSON report saved to: ${jsonPath}`);
+      } else {
+        console.log('[Daily Reporter] JSON report requires categorization, skipped');
+      }
+    }
 
-  // 重複排除の設定
-  const dedupOptions: DeduplicatorOptions = {
-    historyStoreConfig: {
-      path: getHistoryDbPath(),
-      retentionDays: configs.app.historyRetentionDays ?? 90,
-    },
-    thresholds: configs.dedupThresholds,
-    urlNormalization: {
-      removeParams: ['utm_source', 'utm_medium', 'utm_campaign', 'ref', 'source'],
-      normalizeTrailingSlash: true,
-      lowercaseHost: true,
-    },
-    lastSuccessAt: configs.lastSuccessAt,
-  };
+    // gitリポジトリへ公開（Markdownと、あればJSON）
+    const gitConfig = outputConfig?.git;
+    if (gitConfig?.enabled) {
+      const publishFiles = savedPaths.filter((p) => p === reportPath || p.endsWith('.json'));
+      const publishResult = await createGitPublisher(gitConfig).publish(publishFiles, {
+        date: formatDateJst(date),
+        collected: collectionResult.stats.totalArticles,
+        afterDedup: dedupResult.articles.length,
+        inReport: organizedReport?.metadata.inReport,
+        executionTimeMs: Date.now() - startTime,
+        sourcesSucceeded: collectionResult.stats.successfulSources,
+        sourcesTotal: collectionResult.stats.totalSources,
+      });
+      if (publishResult.status === 'failed') {
+        errors.push(`Git publish failed: ${publishResult.error ?? 'unknown error'}`);
+      }
+    }
 
-  const deduplicator = createDeduplicator(dedupOptions);
+    // フィードを直近の保存済みレポートから再構築
+    if (outputConfig?.feed?.enabled) {
+      const feedPaths = await writeFeeds({
+        outputDir,
+        filenameFormat: outputConfig.filenameFormat,
+        date,
+        config: outputConfig.feed,
+      });
+      for (const feedPath of feedPaths) {
+        console.log(`[Daily Reporter] Feed saved to: ${feedPath}`);
+      }
+    }
 
-  // DateMethodマップを作成
-  const dateMethodMap = new Map<string, DateMethodConfig>();
-  for (const source of configs.sources.sources) {
-    if (source.dateMethod) {
-      dateMethodMap.set(source.id, {
-        type: source.dateMethod,
-        selector: source.dateSelector,
-        pattern: source.datePattern,
+    // メール配信
+    if (outputConfig?.email?.enabled) {
+      const emailResult = await deliverReportEmail({
+        config: outputConfig.email,
+        report: organizedReport,
+        markdown: reportMarkdown,
+        reportPath,
+        date,
+        articleCount: dedupResult.articles.length,
+        includeMetadata,
       });
+      if (!emailResult.success) {
+        errors.push(`Email delivery failed: ${emailResult.error ?? 'unknown error'}`);
+      }
+    }
+
+    // 通知
+    const notificationsConfig = configs.app.notifications;
+    if (notificationsConfig?.enabled) {
+      const notificationResults = await createNotifier(notificationsConfig).notify(
+        buildNotificationMessage({
+          date: formatDateJst(date),
+          report: organizedReport,
+          articleCount: dedupResult.articles.length,
+          reportFilename,
+          reportBaseUrl: notificationsConfig.reportBaseUrl,
+        })
+      );
+      for (const result of notificationResults) {
+        if (!result.success) {
+          errors.push(`Notification to ${result.type} failed: ${result.error ?? 'unknown error'}`);
+        }
+      }
+    }
+
+    // 実行ステータスを記録
+    const stats = {
+      collected: collectionResult.stats.totalArticles,
+      afterDedup: dedupResult.articles.length,
+      freshArticles: dedupResult.stats.freshArticles,
+      executionTimeMs: Date.now() - startTime,
+    };
+    checkpoints.saveStatus({
+      date: formatDateJst(date),
+      startedAt: new Date(startTime).toISOString(),
+      finishedAt: new Date().toISOString(),
+      success: true,
+      stats: { ...stats, inReport: organizedReport?.metadata.inReport },
+      usage,
+      errors,
+    });
+
+    // 成功時刻を保存
+    saveLastSuccessAt(new Date().toISOString());
+
+    // クリーンアップ
+    const cleanedCount = deduplicator.cleanup();
+    if (cleanedCount > 0) {
+      console.log(`[Daily Reporter] Cleaned up ${cleanedCount} old history entries`);
     }
+
+    return {
+      success: true,
+      reportPath: savedPaths[0],
+      stats: { ...stats, executionTimeMs: Date.now() - startTime },
+      usage,
+      errors,
+    };
+  } finally {
+    // 収集が例外で終わった場合やチェックポイントから再開した場合もタイマーと履歴DBを解放する
+    budget?.dispose();
+    deduplicator?.close();
   }
+}
 
-  // Stage 2: 重複排除
-  console.log('[Daily Reporter] Stage 2: Deduplication');
-  const dedupResult = await deduplicator.deduplicate(
-    collectionResult.articles,
-    dateMethodMap
-  );
-  console.log(`[Daily Reporter] After dedup: ${dedupResult.articles.length} articles`);
-
-  // レポート生成
-  const outputDir = getOutputDir();
-  const reportFilename = generateReportFilename(date);
-  const reportPath = path.join(outputDir, reportFilename);
-
-  let reportMarkdown: string;
-
-  if (options.skipCategorization) {
-    // 簡易レポート（カテゴリ化なし）
-    reportMarkdown = generateSimpleReport(
-      dedupResult.articles,
-      collectionResult,
-      dedupResult,
-      date,
-      configs.sources.sources
-    );
-  } else {
-    // Stage 2: AI整理（カテゴリ化）
-    // TODO: 将来実装 - organizer/prompts.ts の categorizeArticles を使用予定
-    // 現時点では簡易レポートを生成（Stage2未実装のため）
-    console.log('[Daily Reporter] Note: Stage 2 categorization not yet implemented, using simple report');
-    reportMarkdown = generateSimpleReport(
-      dedupResult.articles,
-      collectionResult,
-      dedupResult,
-      date,
-      configs.sources.sources
-    );
+/**
+ * 再出力オプション
+ */
+export interface RerenderOptions {
+  /** 対象日付（デフォルト: 今日） */
+  date?: Date;
+  /** 出力形式 */
+  format: Exclude<ReportFormat, 'markdown'>;
+}
+
+/**
+ * 保存済みのJSONレポートから指定形式のレポートを再出力する
+ * jsonの場合は現在のスキーマバージョンで書き直す
+ */
+export async function rerenderReport(options: RerenderOptions): Promise<RunResult> {
+  const startTime = Date.now();
+  const date = options.date ?? new Date();
+  const emptyStats = { collected: 0, afterDedup: 0, freshArticles: 0, executionTimeMs: 0 };
+
+  let outputConfig: AppConfig['output'] | undefined;
+  try {
+    outputConfig = loadDefaultConfig().output;
+  } catch (error) {
+    return {
+      success: false,
+      stats: emptyStats,
+      errors: [`Failed to load config: ${error instanceof Error ? error.message : String(error)}`],
+    };
   }
 
-  // レポートを保存
-  await saveReport(reportMarkdown, reportPath);
-  console.log(`[Daily Reporter] Report saved to: ${reportPath}`);
+  const reportPath = path.join(
+    getOutputDir(outputConfig?.directory),
+    generateReportFilename(date, outputConfig?.filenameFormat)
+  );
+  const jsonPath = replaceReportExtension(reportPath, '.json');
 
-  // 成功時刻を保存
-  saveLastSuccessAt(new Date().toISOString());
+  let validation: JsonReportValidationResult;
+  try {
+    validation = await loadJsonReport(jsonPath);
+  } catch (error) {
+    return {
+      success: false,
+      stats: emptyStats,
+      errors: [`Failed to read ${jsonPath}: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
 
-  // クリーンアップ
-  const cleanedCount = deduplicator.cleanup();
-  if (cleanedCount > 0) {
-    console.log(`[Daily Reporter] Cleaned up ${cleanedCount} old history entries`);
+  if (!validation.report) {
+    return { success: false, stats: emptyStats, errors: validation.errors };
   }
 
-  deduplicator.close();
+  const { report } = validation;
+  const outputPath =
+    options.format === 'json' ? jsonPath : replaceReportExtension(reportPath, '.html');
+  const content =
+    options.format === 'json'
+      ? generateJsonReport(report)
+      : generateHtmlReport(report, { includeMetadata: outputConfig?.includeMetadata ?? true });
 
-  const endTime = Date.now();
+  await saveReport(content, outputPath);
+  console.log(`[Daily Reporter] Report re-rendered to: ${outputPath}`);
 
   return {
     success: true,
-    reportPath,
+    reportPath: outputPath,
     stats: {
-      collected: collectionResult.stats.totalArticles,
-      afterDedup: dedupResult.articles.length,
-      freshArticles: dedupResult.stats.freshArticles,
-      executionTimeMs: endTime - startTime,
+      collected: report.metadata.totalCollected,
+      afterDedup: report.metadata.afterDedup,
+      freshArticles: 0,
+      executionTimeMs: Date.now() - startTime,
     },
-    errors,
+    errors: [],
+  };
+}
+
+/**
+ * ダイジェスト実行オプション
+ */
+export interface DigestRunOptions {
+  period: DigestPeriod;
+  /** 期間の最終日（デフォルト: 今日） */
+  date?: Date;
+  /** LLMで導入文を生成する（デフォルト: オフラインのみ） */
+  withIntro?: boolean;
+}
+
+/**
+ * 履歴DBと保存済みレポートから週次・月次ダイジェストを生成する
+ */
+export async function runDigest(options: DigestRunOptions): Promise<RunResult> {
+  const startTime = Date.now();
+  const date = options.date ?? new Date();
+
+  const configValidation = validateConfigFiles();
+  if (!configValidation.valid) {
+    return {
+      success: false,
+      stats: { collected: 0, afterDedup: 0, freshArticles: 0, executionTimeMs: 0 },
+      errors: [`Missing config files: ${configValidation.missing.join(', ')}`],
+    };
+  }
+
+  const configs = loadAllConfigs();
+  const outputConfig = configs.app.output;
+  const outputDir = getOutputDir(outputConfig?.directory);
+  const historyStore = createHistoryStore({
+    path: getHistoryDbPath(),
+    retentionDays: configs.app.historyRetentionDays ?? 90,
+  });
+
+  const budget = configs.app.budget ? createRunBudget(configs.app.budget, startTime) : undefined;
+
+  try {
+    const builder = createDigestBuilder({
+      historyStore,
+      tagNormalizer: createTagNormalizer(configs.tagSynonyms),
+      outputDir,
+      filenameFormat: outputConfig?.filenameFormat,
+      rateControl: configs.sources.rateControl,
+      agentConfig: configs.app.agent,
+      budget,
+    });
+
+    const digest = await builder.build(options.period, date);
+    if (options.withIntro) {
+      digest.intro = (await builder.generateIntro(digest)) ?? undefined;
+    }
+
+    const digestPath = path.join(outputDir, generateDigestFilename(options.period, date));
+    await saveReport(formatDigestMarkdown(digest), digestPath);
+    console.log(`[Daily Reporter] Digest saved to: ${digestPath}`);
+
+    return {
+      success: true,
+      reportPath: digestPath,
+      stats: {
+        collected: digest.totalArticles,
+        afterDedup: digest.totalArticles,
+        freshArticles: 0,
+        executionTimeMs: Date.now() - startTime,
+      },
+      errors: [],
+    };
+  } finally {
+    budget?.dispose();
+    historyStore.close();
+  }
+}
+
+/**
+ * 設定を読み込み、実行オプションのカセット設定を反映する
+ */
+function loadRunConfigs(options: RunOptions): AllConfigs {
+  const configs = loadAllConfigs();
+  if (options.cassette) {
+    configs.app.agent = { ...configs.app.agent, cassette: options.cassette };
+    console.log(`[Daily Reporter] Cassette ${options.cassette.mode}: ${options.cassette.directory}`);
+  }
+  return configs;
+}
+
+/**
+ * 再開に必要なチェックポイントがない場合の実行結果
+ */
+function missingCheckpointResult(stage: RunStage, runDir: string, startTime: number): RunResult {
+  return {
+    success: false,
+    stats: { collected: 0, afterDedup: 0, freshArticles: 0, executionTimeMs: Date.now() - startTime },
+    errors: [`No ${stage} checkpoint found in ${runDir}`],
   };
 }
 
@@ -319,6 +836,127 @@ function printTasks(tasks: CollectionTask[], verbose: boolean): void {
   }
 }
 
+/** sourcesサブコマンドの操作 */
+export type SourcesAction = 'list' | 'disable' | 'enable' | 'reset';
+
+/**
+ * sourcesサブコマンドのオプション
+ */
+export interface SourcesCommandOptions {
+  action: SourcesAction;
+  /** 対象ソースID（resetで省略した場合は全ソース） */
+  sourceIds: string[];
+  /** 無効化・有効化の理由（上書きファイルに記録） */
+  reason?: string;
+}
+
+/**
+ * sourcesサブコマンドの結果
+ */
+export interface SourcesCommandResult {
+  success: boolean;
+  /** 状態が変わったソースID */
+  changed: string[];
+  /** 操作後の実効状態 */
+  sources: SourceStateDescription[];
+  errors: string[];
+}
+
+/**
+ * ソースの実効状態を表示・変更する（sources.jsonは変更せず、data/の上書きと健全性を操作する）
+ * - disable: 上書きで無効化する
+ * - enable: 上書きで有効化し、健全性をリセットする
+ * - reset: 上書きと健全性を削除し、sources.jsonの状態に戻す
+ */
+export function runSourcesCommand(options: SourcesCommandOptions): SourcesCommandResult {
+  const configValidation = validateConfigFiles();
+  if (!configValidation.valid) {
+    return {
+      success: false,
+      changed: [],
+      sources: [],
+      errors: [`Missing config files: ${configValidation.missing.join(', ')}`],
+    };
+  }
+
+  const sourcesPath = path.join(getConfigDir(), 'sources.json');
+  const { sources } = loadSourcesConfig(sourcesPath);
+  const unknownIds = options.sourceIds.filter((id) => !sources.some((s) => s.id === id));
+  if (unknownIds.length > 0) {
+    return { success: false, changed: [], sources: [], errors: [`Unknown sources: ${unknownIds.join(', ')}`] };
+  }
+  if ((options.action === 'disable' || options.action === 'enable') && options.sourceIds.length === 0) {
+    return { success: false, changed: [], sources: [], errors: [`sources ${options.action} requires source ids`] };
+  }
+
+  const healthConfig = loadDefaultConfig().sourceHealth;
+  const healthStore = createSourceHealthStore({ path: getHistoryDbPath(), ...healthConfig });
+  try {
+    let changed: string[] = [];
+    if (options.action === 'disable') {
+      changed = disableSources(options.sourceIds, options.reason ?? 'disabled via CLI');
+    } else if (options.action === 'enable') {
+      changed = enableSources(options.sourceIds, options.reason ?? 'enabled via CLI');
+      changed = [...new Set([...changed, ...healthStore.reset(options.sourceIds)])];
+    } else if (options.action === 'reset') {
+      const targetIds = options.sourceIds.length > 0 ? options.sourceIds : undefined;
+      changed = [...new Set([...resetSourceOverrides(targetIds), ...healthStore.reset(targetIds)])];
+    }
+
+    return {
+      success: true,
+      changed,
+      sources: describeSourceStates(sources, loadSourceOverrides(), healthStore.getAll(), healthConfig),
+      errors: [],
+    };
+  } finally {
+    healthStore.close();
+  }
+}
+
+/**
+ * ソースの実効状態を表形式で出力する
+ */
+function printSourceStates(states: SourceStateDescription[]): void {
+  const idWidth = Math.max(...states.map((s) => s.sourceId.length), 'SOURCE'.length);
+  console.log(`${'SOURCE'.padEnd(idWidth)}  TIER  STATE     REASON`);
+  for (const state of states) {
+    console.log(
+      `${state.sourceId.padEnd(idWidth)}  ${String(state.tier).padEnd(4)}  ${(state.enabled ? 'enabled' : 'disabled').padEnd(8)}  ${state.reason}`
+    );
+  }
+}
+
+/** 値を取るCLIオプション（位置引数の解析で値ごと読み飛ばす） */
+const VALUE_OPTIONS = new Set([
+  '--date',
+  '--from-stage',
+  '--record',
+  '--replay',
+  '--fake-executor',
+  '--reason',
+  '--format',
+  '--period',
+]);
+
+/**
+ * CLI引数から位置引数（サブコマンド・ソースIDなど）のみを取り出す
+ * フラグと値を取るオプションの値は除く
+ * @example getPositionalArgs(['sources', 'disable', '--date', '2024-01-01', 'qiita']) // ['sources', 'disable', 'qiita']
+ */
+export function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+    if (arg.startsWith('-')) {
+      if (VALUE_OPTIONS.has(arg)) i++;
+      continue;
+    }
+    positional.push(arg);
+  }
+  return positional;
+}
+
 /**
  * CLIエントリーポイント
  */
@@ -343,8 +981,108 @@ async function main(): Promise<void> {
     }
   }
 
+  // --from-stage オプションの処理
+  const fromStageIndex = args.findIndex((arg) => arg === '--from-stage');
+  if (fromStageIndex !== -1) {
+    const stage = args[fromStageIndex + 1];
+    if (!isRunStage(stage)) {
+      console.error(`Unsupported stage: ${stage ?? ''} (expected ${RUN_STAGES.join(', ')})`);
+      process.exit(2);
+    }
+    options.fromStage = stage;
+  }
+
+  // --record / --replay オプションの処理（SDK呼び出しのカセット）
+  for (const mode of ['record', 'replay'] as const) {
+    const index = args.findIndex((arg) => arg === `--${mode}`);
+    if (index !== -1) {
+      const directory = args[index + 1];
+      if (!directory || directory.startsWith('--')) {
+        console.error(`--${mode} requires a cassette directory`);
+        process.exit(2);
+      }
+      options.cassette = { mode, directory };
+    }
+  }
+
+  // --fake-executor オプションの処理（フィクスチャの応答でオフライン実行）
+  const fakeExecutorIndex = args.findIndex((arg) => arg === '--fake-executor');
+  if (fakeExecutorIndex !== -1) {
+    const fixturesPath = args[fakeExecutorIndex + 1];
+    if (!fixturesPath || fixturesPath.startsWith('--')) {
+      console.error('--fake-executor requires a fixtures file');
+      process.exit(2);
+    }
+    options.executor = createFakeExecutor(loadFakeFixtures(fixturesPath));
+  }
+
+  // sources サブコマンド: ソースの実効状態の表示・変更
+  const [command, ...commandArgs] = getPositionalArgs(args);
+  if (command === 'sources') {
+    const [action = 'list', ...sourceIds] = commandArgs;
+    if (action !== 'list' && action !== 'disable' && action !== 'enable' && action !== 'reset') {
+      console.error(`Unsupported sources action: ${action} (expected list, disable, enable or reset)`);
+      process.exit(2);
+    }
+    const reasonIndex = args.findIndex((arg) => arg === '--reason');
+    const reason = reasonIndex !== -1 ? args[reasonIndex + 1] : undefined;
+
+    try {
+      const result = runSourcesCommand({ action, sourceIds, reason });
+      if (!result.success) {
+        for (const error of result.errors) {
+          console.error(`  Error: ${error}`);
+        }
+        process.exit(2);
+      }
+      if (action !== 'list') {
+        console.log(`[Daily Reporter] ${action}: ${result.changed.length > 0 ? result.changed.join(', ') : 'no changes'}`);
+      }
+      printSourceStates(result.sources);
+      process.exit(0);
+    } catch (error) {
+      console.error('Fatal error:', error);
+      process.exit(2);
+    }
+  }
+
+  // report サブコマンド: 保存済みJSONレポートから再出力
+  let rerenderFormat: RerenderOptions['format'] | undefined;
+  if (command === 'report') {
+    const formatIndex = args.findIndex((arg) => arg === '--format');
+    const format = formatIndex !== -1 ? args[formatIndex + 1] : 'json';
+    if (format !== 'json' && format !== 'html') {
+      console.error(`Unsupported format: ${format ?? ''} (expected json or html)`);
+      process.exit(2);
+    }
+    rerenderFormat = format;
+  }
+
+  // digest サブコマンド: 週次・月次ダイジェスト
+  let digestPeriod: DigestPeriod | undefined;
+  if (command === 'digest') {
+    const periodIndex = args.findIndex((arg) => arg === '--period');
+    const period = periodIndex !== -1 ? args[periodIndex + 1] : 'week';
+    if (period !== 'week' && period !== 'month') {
+      console.error(`Unsupported period: ${period ?? ''} (expected week or month)`);
+      process.exit(2);
+    }
+    digestPeriod = period;
+  }
+
   try {
-    const result = await run(options);
+    let result: RunResult;
+    if (rerenderFormat) {
+      result = await rerenderReport({ date: options.date, format: rerenderFormat });
+    } else if (digestPeriod) {
+      result = await runDigest({
+        period: digestPeriod,
+        date: options.date,
+        withIntro: args.includes('--intro'),
+      });
+    } else {
+      result = await run(options);
+    }
 
     if (result.success) {
       console.log('\n=== Execution Complete ===');
@@ -352,6 +1090,9 @@ async function main(): Promise<void> {
       console.log(`  After Dedup: ${result.stats.afterDedup}`);
       console.log(`  Fresh Articles: ${result.stats.freshArticles}`);
       console.log(`  Execution Time: ${Math.round(result.stats.executionTimeMs / 1000)}s`);
+      if (result.usage) {
+        console.log(`  SDK Cost: ${formatCost(result.usage.total.costUsd)}`);
+      }
 
       if (result.reportPath) {
         console.log(`  Report: ${result.reportPath}`);
@@ -382,6 +1123,7 @@ export {
   createDeduplicator,
   createQueryGenerator,
   createCollector,
+  createOrganizer,
   generateDailyReport,
   generateSimpleReport,
   saveReport,
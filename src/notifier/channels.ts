@@ -0,0 +1,273 @@
+/**
+ * 通知チャネル
+ * Slack（Block Kit）/ Discord（embed）/ 汎用JSON POST の3種類を提供する
+ */
+
+import type { NotificationChannelConfig, NotificationChannelType } from '../types/index.js';
+import {
+  chunkBySize,
+  splitLines,
+  type NotificationArticle,
+  type NotificationMessage,
+} from './message.js';
+
+/** デフォルトの最大リトライ回数 */
+const DEFAULT_MAX_RETRIES = 2;
+
+/** デフォルトのリトライ間隔（ms） */
+const DEFAULT_RETRY_INTERVAL = 1000;
+
+/** デフォルトのリクエストタイムアウト（ms） */
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** Slackのsectionブロックのテキスト上限 */
+const SLACK_SECTION_LIMIT = 3000;
+
+/** Slack 1メッセージあたりのデフォルト文字数 */
+const SLACK_DEFAULT_MAX_LENGTH = 12000;
+
+/** Discord embed descriptionの上限 */
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+
+/** 汎用webhook 1リクエストあたりのデフォルト文字数（JSON換算） */
+const WEBHOOK_DEFAULT_MAX_LENGTH = 20000;
+
+/**
+ * 通知チャネルのインターフェース
+ */
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+  /**
+   * メッセージを送信する（分割した場合は順に送信）
+   * @returns 送信したリクエスト数
+   */
+  send(message: NotificationMessage): Promise<number>;
+}
+
+/**
+ * HTTP POSTを行うチャネルの基底クラス
+ */
+abstract class HttpChannel implements NotificationChannel {
+  abstract readonly type: NotificationChannelType;
+  protected config: NotificationChannelConfig;
+
+  constructor(config: NotificationChannelConfig) {
+    this.config = config;
+  }
+
+  async send(message: NotificationMessage): Promise<number> {
+    const payloads = this.buildPayloads(message);
+    for (const payload of payloads) {
+      await this.post(payload);
+    }
+    return payloads.length;
+  }
+
+  /**
+   * メッセージを送信単位のペイロードに変換する
+   */
+  abstract buildPayloads(message: NotificationMessage): unknown[];
+
+  /**
+   * JSONをPOSTする
+   * 429・5xx・ネットワークエラー・タイムアウトは指数バックオフでリトライし、その他の4xxは即失敗とする
+   */
+  protected async post(payload: unknown): Promise<void> {
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const retryInterval = this.config.retryInterval ?? DEFAULT_RETRY_INTERVAL;
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let lastError = new Error(`${this.type} request failed`);
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      let retryable = true;
+      try {
+        const response = await fetch(this.config.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.config.headers },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (response.ok) return;
+
+        lastError = new Error(`${this.type} responded with HTTP ${response.status}`);
+        retryable = response.status === 429 || response.status >= 500;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (lastError.name === 'TimeoutError') {
+          lastError = new Error(`${this.type} request timed out after ${timeoutMs}ms`);
+        }
+      }
+
+      if (!retryable) break;
+      if (attempt < maxRetries) {
+        console.log(
+          `[Notifier] Attempt ${attempt + 1}/${maxRetries + 1} failed for ${this.type}: ${lastError.message}`
+        );
+        await sleep(retryInterval * 2 ** attempt);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Slack Incoming Webhook（Block Kit）
+ */
+export class SlackChannel extends HttpChannel {
+  readonly type = 'slack';
+
+  buildPayloads(message: NotificationMessage): unknown[] {
+    const maxLength = this.config.maxMessageLength ?? SLACK_DEFAULT_MAX_LENGTH;
+    const lines = renderLines(message, {
+      article: (article) =>
+        `${article.rank}. <${article.url}|${escapeSlack(article.title)}> — ${escapeSlack(article.reason)}`,
+      bold: (text) => `*${text}*`,
+      escape: escapeSlack,
+    });
+    const parts = splitLines(lines, maxLength);
+
+    return parts.map((part, index) => {
+      const blocks: unknown[] = [];
+      if (index === 0) {
+        blocks.push({ type: 'header', text: { type: 'plain_text', text: message.title } });
+        blocks.push({
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: escapeSlack(message.summary) }],
+        });
+      }
+      for (const section of splitLines(part.split('\n'), SLACK_SECTION_LIMIT)) {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: section } });
+      }
+      return { text: partTitle(message.title, index, parts.length), blocks };
+    });
+  }
+}
+
+/**
+ * Discord Webhook（embed）
+ */
+export class DiscordChannel extends HttpChannel {
+  readonly type = 'discord';
+
+  buildPayloads(message: NotificationMessage): unknown[] {
+    const maxLength = Math.min(
+      this.config.maxMessageLength ?? DISCORD_DESCRIPTION_LIMIT,
+      DISCORD_DESCRIPTION_LIMIT
+    );
+    const lines = renderLines(message, {
+      article: (article) => `${article.rank}. [${article.title}](${article.url}) — ${article.reason}`,
+      bold: (text) => `**${text}**`,
+      escape: (text) => text,
+    });
+    const parts = splitLines(lines, maxLength);
+
+    return parts.map((description, index) => ({
+      embeds: [
+        {
+          title: partTitle(message.title, index, parts.length),
+          url: message.reportUrl,
+          description,
+          footer: index === 0 ? { text: message.summary } : undefined,
+        },
+      ],
+    }));
+  }
+}
+
+/**
+ * 汎用webhook（構造化JSONをPOST）
+ * トップ記事が多い場合は複数リクエストに分割し、part/totalPartsを付与する
+ */
+export class WebhookChannel extends HttpChannel {
+  readonly type = 'webhook';
+
+  buildPayloads(message: NotificationMessage): unknown[] {
+    const maxLength = this.config.maxMessageLength ?? WEBHOOK_DEFAULT_MAX_LENGTH;
+    const { topArticles, ...rest } = message;
+    // part/totalPartsは桁数の余裕を含めて見積もる
+    const baseSize = JSON.stringify({ ...rest, topArticles: [], part: 999, totalParts: 999 }).length;
+    const chunks = chunkBySize(
+      topArticles,
+      Math.max(maxLength - baseSize, 0),
+      (article) => JSON.stringify(article).length + 1
+    );
+    if (chunks.length === 0) chunks.push([]);
+
+    return chunks.map((articles, index) => ({
+      ...rest,
+      topArticles: articles,
+      part: index + 1,
+      totalParts: chunks.length,
+    }));
+  }
+}
+
+/**
+ * チャネル設定から通知チャネルを生成する
+ */
+export function createNotificationChannel(config: NotificationChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'slack':
+      return new SlackChannel(config);
+    case 'discord':
+      return new DiscordChannel(config);
+    case 'webhook':
+      return new WebhookChannel(config);
+  }
+}
+
+/**
+ * テキストチャネルごとの記法
+ */
+interface LineStyle {
+  article: (article: NotificationArticle) => string;
+  bold: (text: string) => string;
+  escape: (text: string) => string;
+}
+
+/**
+ * テキストチャネル用に本文の行を生成する
+ */
+function renderLines(message: NotificationMessage, style: LineStyle): string[] {
+  const { escape } = style;
+  const lines: string[] = [];
+
+  if (message.topArticles.length > 0) {
+    lines.push(style.bold("Today's Top"));
+    lines.push(...message.topArticles.map(style.article));
+  }
+  if (message.categories.length > 0) {
+    lines.push(style.bold('Categories'));
+    lines.push(...message.categories.map((c) => `• ${escape(c.name)}: ${c.articleCount}`));
+  }
+  if (message.reportUrl) {
+    lines.push(message.reportUrl);
+  }
+  if (lines.length === 0) {
+    lines.push(escape(message.summary));
+  }
+
+  return lines;
+}
+
+/**
+ * 分割送信時のタイトル（例: "Daily Tech Report - 2024-01-15 (2/3)"）
+ */
+function partTitle(title: string, index: number, total: number): string {
+  return total > 1 ? `${title} (${index + 1}/${total})` : title;
+}
+
+/**
+ * Slack mrkdwnの制御文字をエスケープする
+ */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * 指定時間待機する
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,67 @@
+/**
+ * 通知モジュール
+ * 生成したレポートの概要を設定済みのチャネル（Slack / Discord / webhook）へ配信する
+ */
+
+import type { NotificationChannelType, NotificationsConfig } from '../types/index.js';
+import { createNotificationChannel, type NotificationChannel } from './channels.js';
+import type { NotificationMessage } from './message.js';
+
+// Re-export
+export * from './channels.js';
+export * from './message.js';
+
+/**
+ * チャネルごとの送信結果
+ */
+export interface NotificationResult {
+  type: NotificationChannelType;
+  success: boolean;
+  /** 送信したリクエスト数（分割送信時は複数） */
+  messagesSent: number;
+  error?: string;
+}
+
+/**
+ * Notifierクラス
+ */
+export class Notifier {
+  private channels: NotificationChannel[];
+
+  constructor(channels: NotificationChannel[]) {
+    this.channels = channels;
+  }
+
+  /**
+   * 全チャネルへ送信する
+   * 1チャネルの失敗は他のチャネルに影響させず、結果として返す
+   */
+  async notify(message: NotificationMessage): Promise<NotificationResult[]> {
+    const results: NotificationResult[] = [];
+
+    for (const channel of this.channels) {
+      try {
+        const messagesSent = await channel.send(message);
+        console.log(`[Notifier] Sent ${messagesSent} message(s) to ${channel.type}`);
+        results.push({ type: channel.type, success: true, messagesSent });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.log(`[Notifier] Failed to notify ${channel.type}: ${errorMessage}`);
+        results.push({ type: channel.type, success: false, messagesSent: 0, error: errorMessage });
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Notifierのファクトリ関数（無効化されたチャネルは除外）
+ */
+export function createNotifier(config: NotificationsConfig): Notifier {
+  return new Notifier(
+    config.channels
+      .filter((channel) => channel.enabled !== false)
+      .map((channel) => createNotificationChannel(channel))
+  );
+}
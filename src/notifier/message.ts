@@ -0,0 +1,125 @@
+/**
+ * 通知メッセージの組み立てと分割
+ */
+
+import type { OrganizedReport } from '../types/index.js';
+
+/** 通知に含めるトップ記事の最大件数 */
+const NOTIFICATION_TOP_ARTICLES_LIMIT = 10;
+
+/**
+ * 通知のトップ記事
+ */
+export interface NotificationArticle {
+  rank: number;
+  title: string;
+  url: string;
+  reason: string;
+  categoryName: string;
+}
+
+/**
+ * チャネル共通の通知メッセージ
+ * 各チャネルはこれをSlack Block Kit / Discord embed / JSONに整形する
+ */
+export interface NotificationMessage {
+  title: string;
+  /** 1行の概要 */
+  summary: string;
+  topArticles: NotificationArticle[];
+  categories: Array<{ name: string; articleCount: number }>;
+  /** 公開済みレポートへのリンク */
+  reportUrl?: string;
+}
+
+/**
+ * 通知メッセージの組み立て入力
+ */
+export interface NotificationMessageInput {
+  /** レポート日付（YYYY-MM-DD） */
+  date: string;
+  /** 整理済みレポート（簡易レポートの場合はなし） */
+  report?: OrganizedReport;
+  /** レポート掲載記事数（簡易レポート用） */
+  articleCount: number;
+  /** レポートのファイル名（reportBaseUrlと組み合わせてリンクにする） */
+  reportFilename?: string;
+  reportBaseUrl?: string;
+}
+
+/**
+ * レポートから通知メッセージを組み立てる
+ */
+export function buildNotificationMessage(input: NotificationMessageInput): NotificationMessage {
+  const { report } = input;
+  const reportUrl =
+    input.reportBaseUrl && input.reportFilename
+      ? `${input.reportBaseUrl.replace(/\/+$/, '')}/${encodeURIComponent(input.reportFilename)}`
+      : undefined;
+
+  if (!report) {
+    return {
+      title: `Daily Tech Report - ${input.date}`,
+      summary: `${input.articleCount} articles`,
+      topArticles: [],
+      categories: [],
+      reportUrl,
+    };
+  }
+
+  return {
+    title: `Daily Tech Report - ${report.date}`,
+    summary: `${report.metadata.inReport} articles in ${report.categories.length} categories`,
+    topArticles: (report.topArticles ?? []).slice(0, NOTIFICATION_TOP_ARTICLES_LIMIT).map((top) => ({
+      rank: top.rank,
+      title: top.article.title,
+      url: top.article.url,
+      reason: top.reason,
+      categoryName: top.categoryName,
+    })),
+    categories: report.categories.map((category) => ({
+      name: category.name,
+      articleCount: category.articles.length,
+    })),
+    reportUrl,
+  };
+}
+
+/**
+ * 要素をサイズ上限ごとのチャンクに分割する（順序は維持）
+ * 単体で上限を超える要素はそれだけで1チャンクになる
+ */
+export function chunkBySize<T>(items: T[], maxSize: number, sizeOf: (item: T) => number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentSize = 0;
+
+  for (const item of items) {
+    const size = sizeOf(item);
+    if (current.length > 0 && currentSize + size > maxSize) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(item);
+    currentSize += size;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * 行単位でテキストを上限文字数以下のチャンクに分割する
+ * 上限を超える行は末尾を省略する
+ */
+export function splitLines(lines: string[], maxLength: number): string[] {
+  const truncated = lines.map((line) =>
+    line.length > maxLength ? `${line.slice(0, Math.max(maxLength - 1, 0))}…` : line
+  );
+  return chunkBySize(truncated, maxLength, (line) => line.length + 1).map((chunk) =>
+    chunk.join('\n')
+  );
+}
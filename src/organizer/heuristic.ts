@@ -0,0 +1,140 @@
+/**
+ * ヒューリスティック分類モジュール
+ * SDKを使わずにタイトル分析とタグ抽出だけで記事をカテゴリ化する（LLM整理のフォールバック/比較用）
+ */
+
+import type { FilteredArticle, QueryGroup } from '../types/index.js';
+import type { TitleAnalyzer } from '../query-generator/title-analyzer.js';
+import type { TagNormalizer } from '../query-generator/tag-normalizer.js';
+import { OTHER_CATEGORY_ID, OTHER_CATEGORY_NAME, type CategorizedArticle } from './prompts.js';
+
+/** 1記事あたりの最大タグ数 */
+const MAX_TAGS = 5;
+
+/**
+ * LLM分類とヒューリスティック分類の一致度
+ */
+export interface CategorizationAgreement {
+  /** 比較対象の記事数 */
+  compared: number;
+  /** カテゴリが一致した記事数 */
+  agreed: number;
+  /** 一致率（0-1、比較対象がない場合はnull） */
+  agreementRate: number | null;
+}
+
+/**
+ * ヒューリスティック分類クラス
+ */
+export class HeuristicCategorizer {
+  private titleAnalyzer: TitleAnalyzer;
+  private tagNormalizer: TagNormalizer;
+  private queryGroups: QueryGroup[];
+
+  constructor(titleAnalyzer: TitleAnalyzer, tagNormalizer: TagNormalizer, queryGroups: QueryGroup[]) {
+    this.titleAnalyzer = titleAnalyzer;
+    this.tagNormalizer = tagNormalizer;
+    this.queryGroups = queryGroups;
+  }
+
+  /**
+   * 記事をカテゴリ化する
+   * @param articles - 重複排除済みの記事
+   * @returns カテゴリ化済み記事（入力と同じ順序）
+   */
+  categorize(articles: FilteredArticle[]): CategorizedArticle[] {
+    return articles.map((article) => this.categorizeArticle(article));
+  }
+
+  /**
+   * 単一記事をカテゴリ化する
+   * タイトルでグループが見つからない場合のみ概要も参照する
+   */
+  categorizeArticle(article: FilteredArticle): CategorizedArticle {
+    let analysis = this.titleAnalyzer.analyzeTitle(article.title);
+    if (analysis.matchedGroups.length === 0 && article.summary) {
+      analysis = this.titleAnalyzer.analyzeTitle(article.summary);
+    }
+
+    const group = this.selectGroup(analysis.matchedGroups);
+    const tags = this.tagNormalizer
+      .extractTags(`${article.title} ${article.summary ?? ''}`)
+      .slice(0, MAX_TAGS);
+
+    return {
+      article,
+      categoryId: group?.id ?? OTHER_CATEGORY_ID,
+      categoryName: group?.name ?? OTHER_CATEGORY_NAME,
+      relevanceScore: group ? toRelevanceScore(analysis.relevanceScore) : 1,
+      aiSummary: article.summary ?? '',
+      tags,
+    };
+  }
+
+  /**
+   * マッチしたグループのうち最も重みの大きいものを選ぶ（同じ重みなら設定順）
+   */
+  private selectGroup(matchedGroupIds: string[]): QueryGroup | undefined {
+    let selected: QueryGroup | undefined;
+
+    for (const group of this.queryGroups) {
+      if (!matchedGroupIds.includes(group.id)) continue;
+      if (!selected || group.weight > selected.weight) {
+        selected = group;
+      }
+    }
+
+    return selected;
+  }
+}
+
+/**
+ * 関連度（0-1）を1-5のスコアに変換する
+ */
+export function toRelevanceScore(relevance: number): number {
+  return Math.max(1, Math.min(5, 1 + Math.ceil(relevance * 4)));
+}
+
+/**
+ * LLM分類とヒューリスティック分類のカテゴリ一致度を計算する
+ * @param llmResults - LLMによるカテゴリ化結果
+ * @param heuristicResults - ヒューリスティックによるカテゴリ化結果
+ */
+export function measureAgreement(
+  llmResults: CategorizedArticle[],
+  heuristicResults: CategorizedArticle[]
+): CategorizationAgreement {
+  const heuristicByUrl = new Map(
+    heuristicResults.map((ca) => [ca.article.normalizedUrl, ca.categoryId])
+  );
+
+  let compared = 0;
+  let agreed = 0;
+
+  for (const ca of llmResults) {
+    const heuristicCategory = heuristicByUrl.get(ca.article.normalizedUrl);
+    if (heuristicCategory === undefined) continue;
+
+    compared++;
+    if (heuristicCategory === ca.categoryId) {
+      agreed++;
+    }
+  }
+
+  return {
+    compared,
+    agreed,
+    agreementRate: compared > 0 ? agreed / compared : null,
+  };
+}
+
+/**
+ * HeuristicCategorizerのファクトリ関数
+ */
+export function createHeuristicCategorizer(
+  titleAnalyzer: TitleAnalyzer,
+  tagNormalizer: TagNormalizer,
+  queryGroups: QueryGroup[]
+): HeuristicCategorizer {
+  return new HeuristicCategorizer(titleAnalyzer, tagNormalizer, queryGroups);
+}
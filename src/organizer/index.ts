@@ -0,0 +1,579 @@
+/**
+ * 整理モジュール
+ * Stage2: Agent SDKを使用した記事のカテゴリ化
+ */
+
+import { createHash } from 'crypto';
+import type {
+  FilteredArticle,
+  QueryGroup,
+  AgentConfig,
+  RateControlConfig,
+  CollectionResult,
+  SourceConfig,
+  SourceStatus,
+  OrganizedReport,
+  OrganizedArticle,
+  ArticleCategory,
+  UsageStats,
+  UsageSummary,
+} from '../types/index.js';
+import type { ExecutionResult, ExecutorOptions } from '../collector/sdk-executor.js';
+import { sdkExecutor, type Executor } from '../collector/executor.js';
+import type { RunBudget } from '../collector/budget.js';
+import { addUsage, createEmptyUsage } from '../collector/usage.js';
+import { summarizeArticleDiagnostics, toQuarantinedArticles } from '../collector/validation.js';
+import type { HistoryStore } from '../deduplicator/history-store.js';
+import {
+  buildCategorizationPrompt,
+  buildSummaryPrompt,
+  buildRankingPrompt,
+  parseCategorizationResult,
+  parseSummaryResult,
+  parseRankingResult,
+  selectTopArticles,
+  groupByCategory,
+  OTHER_CATEGORY_ID,
+  OTHER_CATEGORY_NAME,
+  CATEGORIZATION_PROMPT_VERSION,
+  TOP_ARTICLES_LIMIT,
+  type CategorizedArticle,
+  type CategorySummary,
+  type OrganizedResult,
+  type TopArticle,
+} from './prompts.js';
+
+import { measureAgreement, type HeuristicCategorizer } from './heuristic.js';
+
+// Re-export prompts
+export * from './prompts.js';
+export * from './heuristic.js';
+
+/** 1バッチあたりの最大記事数（デフォルト） */
+const DEFAULT_BATCH_SIZE = 25;
+
+/** 1バッチあたりのプロンプト最大文字数（デフォルト） */
+const DEFAULT_MAX_PROMPT_CHARS = 40000;
+
+/**
+ * 整理オプション
+ */
+export interface OrganizerOptions {
+  /** カテゴリとして使用するクエリグループ */
+  queryGroups: QueryGroup[];
+  /** レート制御設定 */
+  rateControl: RateControlConfig;
+  /** Agent実行設定（maxTurnsOrganizerを使用） */
+  agentConfig?: AgentConfig;
+  /** 1バッチあたりの最大記事数 */
+  batchSize?: number;
+  /** 1バッチあたりのプロンプト最大文字数 */
+  maxPromptChars?: number;
+  /** LLMで分類できなかった記事に使うヒューリスティック分類 */
+  fallbackCategorizer?: HeuristicCategorizer;
+  /** 整理結果キャッシュの保存先（省略時はキャッシュしない） */
+  cacheStore?: HistoryStore;
+  /** SDK実行（デフォルト: Claude Agent SDK） */
+  executor?: Executor;
+  /** 実行予算（カテゴリ化・要約・ランキングのSDK呼び出しを計上する） */
+  budget?: RunBudget;
+}
+
+/**
+ * Organizerクラス
+ */
+export class Organizer {
+  private queryGroups: QueryGroup[];
+  private rateControl: RateControlConfig;
+  private agentConfig?: AgentConfig;
+  private batchSize: number;
+  private maxPromptChars: number;
+  private fallbackCategorizer?: HeuristicCategorizer;
+  private cacheStore?: HistoryStore;
+  private cacheVersion: string;
+  private executor: Executor;
+  private budget?: RunBudget;
+  private usage: UsageStats = createEmptyUsage();
+
+  constructor(options: OrganizerOptions) {
+    this.queryGroups = options.queryGroups;
+    this.rateControl = options.rateControl;
+    this.agentConfig = options.agentConfig;
+    this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    this.maxPromptChars = options.maxPromptChars ?? DEFAULT_MAX_PROMPT_CHARS;
+    this.fallbackCategorizer = options.fallbackCategorizer;
+    this.cacheStore = options.cacheStore;
+    this.cacheVersion = buildCacheVersion(options.queryGroups);
+    this.executor = options.executor ?? sdkExecutor;
+    this.budget = options.budget;
+  }
+
+  /**
+   * 記事をカテゴリ化する
+   * キャッシュ済みの記事を除いてバッチごとにSDKを呼び出し、結果をマージする。
+   * カテゴリ化できなかった記事はヒューリスティック分類で補い、
+   * それもない場合は「その他」に元の概要のまま残す
+   */
+  async organize(articles: FilteredArticle[]): Promise<OrganizedResult> {
+    const cached = this.restoreFromCache(articles);
+    const categorized: CategorizedArticle[] = [...cached];
+    const categorizedArticles = new Set<FilteredArticle>(cached.map((ca) => ca.article));
+
+    const uncached = articles.filter((article) => !categorizedArticles.has(article));
+    if (this.cacheStore) {
+      console.log(`[Organizer] Cache: ${cached.length} hits, ${uncached.length} misses`);
+    }
+
+    const batches = this.splitIntoBatches(uncached);
+    const fresh: CategorizedArticle[] = [];
+
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i] ?? [];
+      console.log(`[Organizer] Categorizing batch ${i + 1}/${batches.length} (${batch.length} articles)`);
+
+      const batchResult = await this.categorizeBatch(batch);
+      for (const ca of batchResult) {
+        // 同一記事が複数回返された場合は最初の結果を採用
+        if (categorizedArticles.has(ca.article)) continue;
+        categorizedArticles.add(ca.article);
+        categorized.push(ca);
+        fresh.push(ca);
+      }
+    }
+
+    this.saveToCache(fresh);
+
+    const remaining = articles.filter((article) => !categorizedArticles.has(article));
+    let heuristic: CategorizedArticle[] = [];
+    let uncategorized: CategorizedArticle[] = [];
+    let heuristicAgreementRate: number | null = null;
+
+    if (this.fallbackCategorizer) {
+      const baseline = this.fallbackCategorizer.categorize(articles);
+      heuristic = baseline.filter((ca) => remaining.includes(ca.article));
+      heuristicAgreementRate = measureAgreement(categorized, baseline).agreementRate;
+
+      if (heuristicAgreementRate !== null) {
+        console.log(
+          `[Organizer] Heuristic agreement with LLM: ${Math.round(heuristicAgreementRate * 100)}%`
+        );
+      }
+      if (heuristic.length > 0) {
+        console.log(`[Organizer] ${heuristic.length} articles categorized by heuristic fallback`);
+      }
+    } else {
+      uncategorized = remaining.map((article) => toUncategorized(article));
+      if (uncategorized.length > 0) {
+        console.log(`[Organizer] ${uncategorized.length} articles were not categorized`);
+      }
+    }
+
+    return buildOrganizedResult({
+      categorized,
+      heuristic,
+      uncategorized,
+      heuristicAgreementRate,
+      cacheHits: cached.length,
+      cacheMisses: this.cacheStore ? uncached.length : 0,
+    });
+  }
+
+  /**
+   * 記事のあるカテゴリごとに概要・ハイライトを生成する
+   * 生成・パースに失敗したカテゴリは結果に含めない
+   */
+  async summarizeCategories(
+    categorizedArticles: Map<string, CategorizedArticle[]>
+  ): Promise<Map<string, CategorySummary>> {
+    const summaries = new Map<string, CategorySummary>();
+
+    for (const [categoryId, articles] of categorizedArticles) {
+      const categoryName = articles[0]?.categoryName;
+      if (!categoryName) continue;
+
+      const prompt = buildSummaryPrompt(articles, categoryName);
+      const result = await this.executePrompt(prompt);
+
+      if (!result.success) {
+        console.log(
+          `[Organizer] Summary failed for ${categoryId}: ${result.error?.message ?? 'unknown error'}`
+        );
+        continue;
+      }
+
+      const parsed = parseSummaryResult(result.content);
+      if (!parsed.summary) {
+        console.log(`[Organizer] Summary parse warning for ${categoryId}: ${parsed.parseError}`);
+        continue;
+      }
+
+      summaries.set(categoryId, parsed.summary);
+    }
+
+    return summaries;
+  }
+
+  /**
+   * 今日のトップ記事を選出する
+   * LLMの選出結果を検証し、失敗時や不足時は関連度順のフォールバックで補う
+   * @param categorizedArticles - カテゴリID → カテゴリ化済み記事
+   * @param limit - 選出件数
+   */
+  async rankArticles(
+    categorizedArticles: Map<string, CategorizedArticle[]>,
+    limit: number = TOP_ARTICLES_LIMIT
+  ): Promise<TopArticle[]> {
+    const allCategorized = [...categorizedArticles.values()].flat();
+    if (allCategorized.length === 0) {
+      return [];
+    }
+
+    const prompt = buildRankingPrompt(allCategorized);
+    const result = await this.executePrompt(prompt);
+
+    let ranked: TopArticle[] = [];
+    if (!result.success) {
+      console.log(`[Organizer] Ranking failed: ${result.error?.message ?? 'unknown error'}`);
+    } else {
+      const parsed = parseRankingResult(result.content, allCategorized);
+      if (parsed.parseError) {
+        console.log(`[Organizer] Ranking parse warning: ${parsed.parseError}`);
+      }
+      ranked = parsed.topArticles;
+    }
+
+    return selectTopArticles(ranked, allCategorized, limit);
+  }
+
+  /**
+   * 1バッチ分の記事をSDKでカテゴリ化する
+   */
+  private async categorizeBatch(batch: FilteredArticle[]): Promise<CategorizedArticle[]> {
+    const prompt = buildCategorizationPrompt(batch, this.queryGroups);
+    const result = await this.executePrompt(prompt);
+
+    if (!result.success) {
+      console.log(`[Organizer] Categorization failed: ${result.error?.message ?? 'unknown error'}`);
+      return [];
+    }
+
+    const parsed = parseCategorizationResult(result.content, batch, this.queryGroups);
+    if (parsed.length === 0) {
+      console.log('[Organizer] Categorization response could not be parsed');
+    }
+
+    return parsed.map((ca) => this.normalizeCategory(ca));
+  }
+
+  /**
+   * 記事をプロンプトに収まるバッチに分割する
+   */
+  splitIntoBatches(articles: FilteredArticle[]): FilteredArticle[][] {
+    const batches: FilteredArticle[][] = [];
+    let current: FilteredArticle[] = [];
+
+    for (const article of articles) {
+      const candidate = [...current, article];
+      const exceedsSize = candidate.length > this.batchSize;
+      const exceedsPrompt =
+        buildCategorizationPrompt(candidate, this.queryGroups).length > this.maxPromptChars;
+
+      if (current.length > 0 && (exceedsSize || exceedsPrompt)) {
+        batches.push(current);
+        current = [article];
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
+
+  /**
+   * キャッシュ済みのカテゴリ化結果を復元する（入力と同じ順序）
+   */
+  private restoreFromCache(articles: FilteredArticle[]): CategorizedArticle[] {
+    if (!this.cacheStore || articles.length === 0) return [];
+
+    const entries = this.cacheStore.findOrganizerCache(
+      articles.map((article) => article.normalizedUrl),
+      this.cacheVersion
+    );
+
+    return articles.flatMap((article) => {
+      const entry = entries.get(article.normalizedUrl);
+      if (!entry) return [];
+
+      const group = this.queryGroups.find((g) => g.id === entry.categoryId);
+      return [
+        this.normalizeCategory({
+          article,
+          categoryId: entry.categoryId,
+          categoryName: group?.name ?? OTHER_CATEGORY_NAME,
+          relevanceScore: entry.relevanceScore,
+          aiSummary: entry.aiSummary,
+          tags: entry.tags,
+        }),
+      ];
+    });
+  }
+
+  /**
+   * SDKでカテゴリ化した結果をキャッシュに保存する
+   */
+  private saveToCache(categorized: CategorizedArticle[]): void {
+    if (!this.cacheStore || categorized.length === 0) return;
+
+    const cachedAt = new Date().toISOString();
+    this.cacheStore.saveOrganizerCache(
+      categorized.map((ca) => ({
+        normalizedUrl: ca.article.normalizedUrl,
+        promptVersion: this.cacheVersion,
+        categoryId: ca.categoryId,
+        relevanceScore: ca.relevanceScore,
+        aiSummary: ca.aiSummary,
+        tags: ca.tags,
+        cachedAt,
+      }))
+    );
+  }
+
+  /**
+   * 未知のカテゴリIDを「その他」に寄せる
+   */
+  private normalizeCategory(ca: CategorizedArticle): CategorizedArticle {
+    if (this.queryGroups.some((g) => g.id === ca.categoryId)) {
+      return ca;
+    }
+    return { ...ca, categoryId: OTHER_CATEGORY_ID, categoryName: OTHER_CATEGORY_NAME };
+  }
+
+  /**
+   * このOrganizerでのSDK使用量の累計（カテゴリ化・要約・ランキング）
+   */
+  getUsage(): UsageStats {
+    return this.usage;
+  }
+
+  /**
+   * プロンプトを実行し、使用量を累計する
+   */
+  private async executePrompt(prompt: string): Promise<ExecutionResult> {
+    const result = await this.executor.prompt(prompt, 'organizer', this.buildExecutorOptions());
+    this.usage = addUsage(this.usage, result.usage);
+    return result;
+  }
+
+  /**
+   * SDK実行オプションを構築する
+   */
+  private buildExecutorOptions(): ExecutorOptions {
+    return {
+      rateControl: this.rateControl,
+      model: this.agentConfig?.model,
+      maxTurns: this.agentConfig?.maxTurnsOrganizer,
+      permissionMode: this.agentConfig?.permissionMode,
+      timeout: this.agentConfig?.timeout,
+      cassette: this.agentConfig?.cassette,
+      budget: this.budget,
+    };
+  }
+
+  /**
+   * レポートでのカテゴリ表示順を取得する（設定順 + その他）
+   */
+  getCategoryOrder(): string[] {
+    return [...this.queryGroups.map((g) => g.id), OTHER_CATEGORY_ID];
+  }
+}
+
+/**
+ * 整理結果の構築に使う分類ごとの記事と統計
+ */
+interface OrganizedParts {
+  categorized: CategorizedArticle[];
+  heuristic: CategorizedArticle[];
+  uncategorized: CategorizedArticle[];
+  heuristicAgreementRate: number | null;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * キャッシュのバージョンキーを生成する
+ * プロンプトバージョンに加え、カテゴリ定義が変わった場合もキャッシュを無効化する
+ */
+function buildCacheVersion(queryGroups: QueryGroup[]): string {
+  const groupsHash = createHash('sha256')
+    .update(JSON.stringify(queryGroups.map((g) => [g.id, g.name, g.keywords])))
+    .digest('hex')
+    .slice(0, 12);
+  return `${CATEGORIZATION_PROMPT_VERSION}:${groupsHash}`;
+}
+
+/**
+ * カテゴリ化済み記事と未分類記事から整理結果を構築する
+ */
+function buildOrganizedResult(parts: OrganizedParts): OrganizedResult {
+  const { categorized, heuristic, uncategorized } = parts;
+  const all = [...categorized, ...heuristic, ...uncategorized];
+  const grouped = groupByCategory(all);
+
+  const categoryStats = new Map<string, number>();
+  for (const [categoryId, articles] of grouped) {
+    categoryStats.set(categoryId, articles.length);
+  }
+
+  const avgRelevanceScore =
+    categorized.length > 0
+      ? categorized.reduce((sum, ca) => sum + ca.relevanceScore, 0) / categorized.length
+      : 0;
+
+  return {
+    categorizedArticles: grouped,
+    categoryStats,
+    stats: {
+      totalArticles: all.length,
+      categorizedArticles: categorized.length,
+      heuristicArticles: heuristic.length,
+      uncategorizedArticles: uncategorized.length,
+      avgRelevanceScore,
+      heuristicAgreementRate: parts.heuristicAgreementRate,
+      cacheHits: parts.cacheHits,
+      cacheMisses: parts.cacheMisses,
+    },
+  };
+}
+
+/**
+ * カテゴリ化できなかった記事を「その他」として扱う
+ */
+function toUncategorized(article: FilteredArticle): CategorizedArticle {
+  return {
+    article,
+    categoryId: OTHER_CATEGORY_ID,
+    categoryName: OTHER_CATEGORY_NAME,
+    relevanceScore: 1,
+    aiSummary: article.summary ?? '',
+    tags: [],
+  };
+}
+
+/**
+ * カテゴリ化済み記事をレポート出力用の記事に変換する
+ */
+function toOrganizedArticle(ca: CategorizedArticle): OrganizedArticle {
+  return {
+    title: ca.article.title,
+    url: ca.article.url,
+    summary: ca.aiSummary,
+    source: ca.article.source,
+    relevanceScore: ca.relevanceScore,
+    tags: ca.tags,
+    publishedAt: ca.article.publishedAt,
+    dateConfidence: ca.article.dateConfidence,
+    freshnessPriority: ca.article.freshnessPriority,
+    dateSource: ca.article.dateSource,
+    offDomainReason: ca.article.offDomainReason,
+  };
+}
+
+/**
+ * 整理結果をOrganizedReportに変換する
+ */
+export function buildOrganizedReport(
+  organized: OrganizedResult,
+  options: {
+    date: string;
+    collectionResult: CollectionResult;
+    afterDedup: number;
+    executionTimeMs: number;
+    sources: SourceConfig[];
+    categoryOrder?: string[];
+    categorySummaries?: Map<string, CategorySummary>;
+    topArticles?: TopArticle[];
+    /** SDK使用量の集計 */
+    usage?: UsageSummary;
+  }
+): OrganizedReport {
+  const order = options.categoryOrder ?? [];
+  const categoryIds = [
+    ...order.filter((id) => organized.categorizedArticles.has(id)),
+    ...[...organized.categorizedArticles.keys()].filter((id) => !order.includes(id)),
+  ];
+
+  const categories: ArticleCategory[] = categoryIds
+    .map((id) => ({ id, articles: organized.categorizedArticles.get(id) ?? [] }))
+    .filter(({ articles }) => articles.length > 0)
+    .map(({ id, articles }) => ({
+      id,
+      name: articles[0]?.categoryName ?? OTHER_CATEGORY_NAME,
+      summary: options.categorySummaries?.get(id)?.categorySummary,
+      highlights: options.categorySummaries?.get(id)?.highlights,
+      articles: articles.map((ca) => toOrganizedArticle(ca)),
+    }));
+
+  const topArticles = [...(options.topArticles ?? [])]
+    .sort((a, b) => a.rank - b.rank)
+    .map((top) => ({
+      rank: top.rank,
+      reason: top.reason,
+      categoryName: top.article.categoryName,
+      article: toOrganizedArticle(top.article),
+    }));
+
+  return {
+    date: options.date,
+    topArticles,
+    categories,
+    metadata: {
+      totalCollected: options.collectionResult.stats.totalArticles,
+      afterDedup: options.afterDedup,
+      inReport: organized.stats.totalArticles,
+      executionTimeMs: options.executionTimeMs,
+      sourcesStatus: buildSourcesStatus(options.collectionResult, options.sources),
+      generatedAt: new Date().toISOString(),
+      organizerCache: { hits: organized.stats.cacheHits, misses: organized.stats.cacheMisses },
+      usage: options.usage,
+      skippedSources: options.collectionResult.skippedSources?.length
+        ? options.collectionResult.skippedSources
+        : undefined,
+      articleDiagnostics: summarizeArticleDiagnostics(options.collectionResult.diagnostics),
+      quarantinedArticles: toQuarantinedArticles(options.collectionResult.quarantinedArticles),
+    },
+  };
+}
+
+/**
+ * 収集結果からソースごとの取得状態を構築する
+ */
+export function buildSourcesStatus(
+  collectionResult: CollectionResult,
+  sources: SourceConfig[]
+): SourceStatus[] {
+  return sources
+    .filter((source) => source.enabled || collectionResult.sourcesStatus[source.id])
+    .map((source) => {
+      const status = collectionResult.sourcesStatus[source.id];
+      const error = collectionResult.errors.find((e) => e.sourceId === source.id);
+      const skipped = collectionResult.skippedSources?.find((s) => s.sourceId === source.id);
+      return {
+        sourceId: source.id,
+        tier: source.tier,
+        success: status === 'success' || status === 'partial',
+        articlesCount: collectionResult.articles.filter((a) => a.source === source.id).length,
+        error: skipped ? `Skipped for budget: ${skipped.reason}` : error?.message,
+      };
+    });
+}
+
+/**
+ * Organizerのファクトリ関数
+ */
+export function createOrganizer(options: OrganizerOptions): Organizer {
+  return new Organizer(options);
+}
@@ -5,6 +5,18 @@
 
 import type { FilteredArticle, QueryGroup } from '../types/index.js';
 
+/** 未分類カテゴリのID */
+export const OTHER_CATEGORY_ID = 'other';
+
+/** 未分類カテゴリの表示名 */
+export const OTHER_CATEGORY_NAME = 'その他';
+
+/**
+ * カテゴリ化プロンプトのバージョン
+ * プロンプトや出力スキーマを変更したら更新し、古い整理結果キャッシュを無効化する
+ */
+export const CATEGORIZATION_PROMPT_VERSION = 'categorize-v1';
+
 /**
  * カテゴリ化結果
  */
@@ -34,12 +46,70 @@ export interface OrganizedResult {
   /** 処理統計 */
   stats: {
     totalArticles: number;
+    /** LLMでカテゴリ化された記事数 */
     categorizedArticles: number;
+    /** ヒューリスティック分類で補った記事数 */
+    heuristicArticles: number;
     uncategorizedArticles: number;
     avgRelevanceScore: number;
+    /** LLM分類とヒューリスティック分類の一致率（比較していない場合はnull） */
+    heuristicAgreementRate: number | null;
+    /** 整理結果キャッシュから復元した記事数 */
+    cacheHits: number;
+    /** キャッシュになくSDKに送った記事数 */
+    cacheMisses: number;
   };
 }
 
+/**
+ * カテゴリ要約結果
+ */
+export interface CategorySummary {
+  /** カテゴリ全体の概要 */
+  categorySummary: string;
+  /** ハイライト（最大3件） */
+  highlights: string[];
+  /** トレンドキーワード */
+  trendKeywords: string[];
+}
+
+/**
+ * トップ記事（ランキング結果）
+ */
+export interface TopArticle {
+  /** カテゴリ化済み記事 */
+  article: CategorizedArticle;
+  /** 順位（1始まり） */
+  rank: number;
+  /** 選出理由 */
+  reason: string;
+}
+
+/**
+ * ランキングのパース結果
+ */
+export interface RankingParseResult {
+  topArticles: TopArticle[];
+  parseError?: string;
+}
+
+/** トップ記事の選出件数 */
+export const TOP_ARTICLES_LIMIT = 5;
+
+/**
+ * カテゴリ要約のパース結果
+ */
+export interface SummaryParseResult {
+  summary: CategorySummary | null;
+  parseError?: string;
+}
+
+/** ハイライトの最大件数 */
+const MAX_HIGHLIGHTS = 3;
+
+/** トレンドキーワードの最大件数 */
+const MAX_TREND_KEYWORDS = 5;
+
 /**
  * カテゴリ化用プロンプトを生成する
  */
@@ -248,7 +318,7 @@ export function parseCategorizationResult(
         return {
           article,
           categoryId: item.categoryId,
-          categoryName: category?.name ?? 'その他',
+          categoryName: category?.name ?? OTHER_CATEGORY_NAME,
           relevanceScore: Math.max(1, Math.min(5, item.relevanceScore)),
           aiSummary: item.aiSummary,
           tags: item.tags ?? [],
@@ -260,6 +330,205 @@ export function parseCategorizationResult(
   }
 }
 
+/**
+ * カテゴリ要約結果をパースする（スキーマ検証付き）
+ */
+export function parseSummaryResult(result: string): SummaryParseResult {
+  const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/);
+  const jsonStr = jsonMatch?.[1] ?? result;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch (error) {
+    return {
+      summary: null,
+      parseError: error instanceof Error ? error.message : 'Unknown parse error',
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { summary: null, parseError: 'Summary response is not a JSON object' };
+  }
+
+  const { categorySummary, highlights, trendKeywords } = parsed as Record<string, unknown>;
+
+  if (typeof categorySummary !== 'string' || categorySummary.trim() === '') {
+    return { summary: null, parseError: 'categorySummary must be a non-empty string' };
+  }
+  if (!isStringArray(highlights)) {
+    return { summary: null, parseError: 'highlights must be an array of strings' };
+  }
+  if (trendKeywords !== undefined && !isStringArray(trendKeywords)) {
+    return { summary: null, parseError: 'trendKeywords must be an array of strings' };
+  }
+
+  return {
+    summary: {
+      categorySummary: categorySummary.trim(),
+      highlights: highlights
+        .map((h) => h.trim())
+        .filter((h) => h !== '')
+        .slice(0, MAX_HIGHLIGHTS),
+      trendKeywords: (trendKeywords ?? [])
+        .map((k) => k.trim())
+        .filter((k) => k !== '')
+        .slice(0, MAX_TREND_KEYWORDS),
+    },
+  };
+}
+
+/**
+ * 文字列配列かどうかを判定する
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * ランキング結果をパースする
+ * articleIdは渡された記事配列のインデックスとして検証し、範囲外・重複・理由なしは除外する
+ */
+export function parseRankingResult(
+  result: string,
+  allCategorized: CategorizedArticle[]
+): RankingParseResult {
+  const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/);
+  const jsonStr = jsonMatch?.[1] ?? result;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch (error) {
+    return {
+      topArticles: [],
+      parseError: error instanceof Error ? error.message : 'Unknown parse error',
+    };
+  }
+
+  const items = (parsed as { topArticles?: unknown } | null)?.topArticles;
+  if (!Array.isArray(items)) {
+    return { topArticles: [], parseError: 'Response does not contain topArticles array' };
+  }
+
+  const seen = new Set<number>();
+  const candidates: Array<{ articleId: number; rank: number; reason: string }> = [];
+
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { articleId, rank, reason } = item as Record<string, unknown>;
+
+    if (
+      typeof articleId !== 'number' ||
+      !Number.isInteger(articleId) ||
+      articleId < 0 ||
+      articleId >= allCategorized.length ||
+      seen.has(articleId)
+    ) {
+      continue;
+    }
+    if (typeof reason !== 'string' || reason.trim() === '') continue;
+
+    seen.add(articleId);
+    candidates.push({
+      articleId,
+      rank: typeof rank === 'number' ? rank : Number.MAX_SAFE_INTEGER,
+      reason: reason.trim(),
+    });
+  }
+
+  // 返却順を保ったままrank順に並べ替え、1から振り直す
+  const topArticles = candidates
+    .map((c, index) => ({ ...c, index }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((c, i) => ({
+      article: allCategorized[c.articleId]!,
+      rank: i + 1,
+      reason: c.reason,
+    }));
+
+  return { topArticles };
+}
+
+/**
+ * トップ記事をカテゴリ間でバランスよく選出する
+ * LLMの選出を順位順に採用しつつ、1カテゴリあたりの上限を超えるものは除外し、
+ * 不足分は関連度順の決定的なフォールバックで補う
+ * @param ranked - LLMが選出したトップ記事（空配列ならフォールバックのみ）
+ * @param allCategorized - 選出対象の全記事
+ * @param limit - 選出件数
+ */
+export function selectTopArticles(
+  ranked: TopArticle[],
+  allCategorized: CategorizedArticle[],
+  limit: number = TOP_ARTICLES_LIMIT
+): TopArticle[] {
+  const categoryCount = new Set(allCategorized.map((ca) => ca.categoryId)).size;
+  const maxPerCategory = categoryCount > 0 ? Math.ceil(limit / categoryCount) : limit;
+
+  const fallback: TopArticle[] = rankByRelevance(allCategorized).map((ca) => ({
+    article: ca,
+    rank: 0,
+    reason: `関連度${ca.relevanceScore}/5の${ca.categoryName}記事（自動選出）`,
+  }));
+
+  const selected: TopArticle[] = [];
+  const perCategory = new Map<string, number>();
+  const pick = (candidates: TopArticle[], enforceCap: boolean): void => {
+    for (const candidate of candidates) {
+      if (selected.length >= limit) return;
+      if (selected.some((s) => s.article === candidate.article)) continue;
+
+      const count = perCategory.get(candidate.article.categoryId) ?? 0;
+      if (enforceCap && count >= maxPerCategory) continue;
+
+      perCategory.set(candidate.article.categoryId, count + 1);
+      selected.push(candidate);
+    }
+  };
+
+  pick(ranked, true);
+  pick(fallback, true);
+  // 上限を守ると件数が足りない場合のみ上限を外して補う
+  pick(ranked, false);
+  pick(fallback, false);
+
+  return selected.map((top, i) => ({ ...top, rank: i + 1 }));
+}
+
+/**
+ * 関連度・鮮度・公開日時の順で記事を並べる（同順位は元の順序を維持）
+ */
+function rankByRelevance(allCategorized: CategorizedArticle[]): CategorizedArticle[] {
+  const freshnessOrder = { high: 0, normal: 1, low: 2 } as const;
+
+  return allCategorized
+    .map((ca, index) => ({ ca, index }))
+    .sort((a, b) => {
+      if (a.ca.relevanceScore !== b.ca.relevanceScore) {
+        return b.ca.relevanceScore - a.ca.relevanceScore;
+      }
+      const freshnessDiff =
+        freshnessOrder[a.ca.article.freshnessPriority] -
+        freshnessOrder[b.ca.article.freshnessPriority];
+      if (freshnessDiff !== 0) return freshnessDiff;
+
+      const timeDiff = toTimestamp(b.ca.article.publishedAt) - toTimestamp(a.ca.article.publishedAt);
+      if (timeDiff !== 0) return timeDiff;
+
+      return a.index - b.index;
+    })
+    .map(({ ca }) => ca);
+}
+
+/**
+ * ISO 8601文字列をタイムスタンプに変換する（不明・不正な場合は0）
+ */
+function toTimestamp(value: string | undefined): number {
+  const time = value ? new Date(value).getTime() : 0;
+  return isNaN(time) ? 0 : time;
+}
+
 /**
  * カテゴリ別にグループ化する
  */
@@ -285,18 +554,26 @@ export function groupByCategory(
 
 /**
  * 記事をMarkdownフォーマットに変換する
+ * @param ca - カテゴリ化済み記事
+ * @param rank - 順位（トップ記事の場合）
+ * @param reason - 選出理由（トップ記事の場合、カテゴリ名とともに出力）
  */
 export function formatArticleMarkdown(
   ca: CategorizedArticle,
-  rank?: number
+  rank?: number,
+  reason?: string
 ): string {
   const stars = '★'.repeat(ca.relevanceScore) + '☆'.repeat(5 - ca.relevanceScore);
   const rankPrefix = rank ? `${rank}. ` : '';
+  const reasonLine = reason ? `**${ca.categoryName}** | ${reason}\n\n` : '';
+  const offDomain = ca.article.offDomainReason
+    ? ` | ⚠️ **Off-domain link:** ${ca.article.offDomainReason}`
+    : '';
 
   return `### ${rankPrefix}[${ca.article.title}](${ca.article.url})
-**Source:** ${ca.article.source} | **Relevance:** ${stars}
+**Source:** ${ca.article.source} | **Relevance:** ${stars}${offDomain}
 
-${ca.aiSummary}
+${reasonLine}${ca.aiSummary}
 
 \`Tags: ${ca.tags.join(', ')}\`
 
@@ -306,14 +583,24 @@ ${ca.aiSummary}
 
 /**
  * カテゴリセクションをMarkdownフォーマットに変換する
+ * 要約がある場合はセクション冒頭に概要とハイライトを出力する
  */
 export function formatCategorySectionMarkdown(
   categoryName: string,
-  articles: CategorizedArticle[]
+  articles: CategorizedArticle[],
+  summary?: CategorySummary
 ): string {
   const count = articles.length;
   let markdown = `## ${categoryName} (${count} articles)\n\n`;
 
+  if (summary) {
+    markdown += `> ${summary.categorySummary}\n\n`;
+    if (summary.highlights.length > 0) {
+      markdown += summary.highlights.map((h) => `- ${h}`).join('\n');
+      markdown += '\n\n';
+    }
+  }
+
   for (const ca of articles) {
     markdown += formatArticleMarkdown(ca);
   }
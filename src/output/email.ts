@@ -0,0 +1,214 @@
+/**
+ * メール出力モジュール
+ * レポートを multipart/alternative（テキスト + HTML）のMIMEメッセージにし、.eml保存またはSMTP送信する
+ */
+
+import { randomBytes } from 'crypto';
+import type { EmailConfig, EmailTransport, OrganizedReport } from '../types/index.js';
+import { escapeHtml, generateHtmlReport } from './html.js';
+import { formatDateJst, replaceReportExtension, saveReport } from './markdown.js';
+import { extractAddress, sendSmtp } from './smtp.js';
+
+/** 件名テンプレート（デフォルト） */
+const DEFAULT_SUBJECT_TEMPLATE = 'Daily Tech Report - {date}';
+
+/** エンコード済みワード1つに入れる最大バイト数（base64で60文字 → 全体で75文字以内） */
+const ENCODED_WORD_MAX_BYTES = 45;
+
+/** 本文のbase64の折り返し幅 */
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * MIMEメッセージの組み立てオプション
+ */
+export interface MimeMessageOptions {
+  from: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html: string;
+  /** Dateヘッダー（デフォルト: 現在時刻） */
+  date?: Date;
+  /** Message-ID（デフォルト: ランダム生成） */
+  messageId?: string;
+}
+
+/**
+ * メール配信オプション
+ */
+export interface EmailDeliveryOptions {
+  config: EmailConfig;
+  /** 整理済みレポート（簡易レポートの場合はなし） */
+  report?: OrganizedReport;
+  /** Markdownレポート（テキストパートに使用） */
+  markdown: string;
+  /** Markdownレポートの保存先（.emlはここから拡張子を変えて保存） */
+  reportPath: string;
+  /** レポート日付 */
+  date: Date;
+  /** レポート掲載記事数（簡易レポート用） */
+  articleCount: number;
+  includeMetadata?: boolean;
+}
+
+/**
+ * メール配信結果
+ */
+export interface EmailDeliveryResult {
+  success: boolean;
+  transport: EmailTransport;
+  /** .emlの保存先（transportがemlの場合） */
+  path?: string;
+  error?: string;
+}
+
+/**
+ * レポートをメールとして配信する
+ * 失敗しても例外は投げず、結果として返す
+ */
+export async function deliverReportEmail(
+  options: EmailDeliveryOptions
+): Promise<EmailDeliveryResult> {
+  const { config, report } = options;
+  const transport = config.transport;
+
+  if (config.to.length === 0) {
+    return { success: false, transport, error: 'email.to must contain at least one recipient' };
+  }
+  if (transport === 'smtp' && !config.smtp) {
+    return { success: false, transport, error: 'email.smtp is required for smtp transport' };
+  }
+
+  const subject = renderSubject(config.subjectTemplate ?? DEFAULT_SUBJECT_TEMPLATE, {
+    date: report?.date ?? formatDateJst(options.date),
+    articles: String(report?.metadata.inReport ?? options.articleCount),
+    categories: String(report?.categories.length ?? 0),
+  });
+  const html = report
+    ? generateHtmlReport(report, { includeMetadata: options.includeMetadata })
+    : `<!DOCTYPE html><html><body><pre>${escapeHtml(options.markdown)}</pre></body></html>`;
+
+  const message = buildMimeMessage({
+    from: config.from,
+    to: config.to,
+    cc: config.cc,
+    subject,
+    text: options.markdown,
+    html,
+  });
+
+  try {
+    if (config.smtp && transport === 'smtp') {
+      await sendSmtp(
+        config.smtp,
+        { from: config.from, recipients: [...config.to, ...(config.cc ?? [])] },
+        message
+      );
+      console.log(`[Email] Sent report to ${config.to.length + (config.cc?.length ?? 0)} recipient(s)`);
+      return { success: true, transport };
+    }
+
+    const emlPath = replaceReportExtension(options.reportPath, '.eml');
+    await saveReport(message, emlPath);
+    console.log(`[Email] Saved report email to: ${emlPath}`);
+    return { success: true, transport, path: emlPath };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.log(`[Email] Delivery failed: ${errorMessage}`);
+    return { success: false, transport, error: errorMessage };
+  }
+}
+
+/**
+ * multipart/alternative のMIMEメッセージを生成する（CRLF改行）
+ * ヘッダーはASCIIのみで構成し、日本語はUTF-8のエンコード済みワードにする
+ */
+export function buildMimeMessage(options: MimeMessageOptions): string {
+  const boundary = `----=_daily-reporter_${randomBytes(12).toString('hex')}`;
+  const messageId =
+    options.messageId ??
+    `<${Date.now()}.${randomBytes(6).toString('hex')}@${extractAddress(options.from).split('@')[1] ?? 'localhost'}>`;
+
+  const headers = [
+    `From: ${formatAddress(options.from)}`,
+    `To: ${options.to.map(formatAddress).join(',\r\n ')}`,
+  ];
+  if (options.cc && options.cc.length > 0) {
+    headers.push(`Cc: ${options.cc.map(formatAddress).join(',\r\n ')}`);
+  }
+  headers.push(
+    `Subject: ${encodeHeaderValue(options.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`
+  );
+
+  const parts = [
+    formatPart('text/plain', options.text),
+    formatPart('text/html', options.html),
+  ].map((part) => `--${boundary}\r\n${part}`);
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+/**
+ * ヘッダー値をRFC 2047のエンコード済みワードにする（ASCIIのみの場合はそのまま）
+ * マルチバイト文字を途中で分割しないよう文字単位で区切る
+ */
+export function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let current = '';
+  for (const char of value) {
+    if (Buffer.byteLength(current + char) > ENCODED_WORD_MAX_BYTES) {
+      words.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) words.push(current);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join('\r\n ');
+}
+
+/**
+ * "表示名 <user@example.com>" の表示名部分をエンコードする
+ */
+export function formatAddress(address: string): string {
+  const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  const name = match?.[1];
+  if (!name) {
+    return address.trim();
+  }
+  const encodedName = encodeHeaderValue(name);
+  return `${encodedName === name ? `"${name}"` : encodedName} <${match[2]}>`;
+}
+
+/**
+ * 件名テンプレートの {key} を置換する（未知のキーはそのまま残す）
+ */
+export function renderSubject(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * UTF-8・base64のMIMEパートを生成する
+ */
+function formatPart(contentType: string, body: string): string {
+  const encoded = Buffer.from(body, 'utf-8').toString('base64');
+  const lines = encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g')) ?? [];
+
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...lines,
+  ].join('\r\n');
+}
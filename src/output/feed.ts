@@ -0,0 +1,339 @@
+/**
+ * フィード出力モジュール
+ * 出力ディレクトリの直近N日分のレポートからAtom/RSS 2.0フィードを再構築する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { FeedConfig, FeedEntryMode, FeedFormat } from '../types/index.js';
+import {
+  formatDateJst,
+  generateReportFilename,
+  replaceReportExtension,
+  saveReport,
+} from './markdown.js';
+import { loadJsonReport, type JsonReport } from './json.js';
+import { isHttpUrl, safeHref } from './html.js';
+
+/** Atomフィードのファイル名 */
+export const ATOM_FEED_FILENAME = 'feed.xml';
+
+/** RSS 2.0フィードのファイル名 */
+export const RSS_FEED_FILENAME = 'rss.xml';
+
+/** フィードに含める日数（デフォルト） */
+const DEFAULT_FEED_DAYS = 14;
+
+/** フィードのタイトル（デフォルト） */
+const DEFAULT_FEED_TITLE = 'Daily Tech Report';
+
+/** エントリIDのタグURIに使うauthority */
+const TAG_AUTHORITY = 'daily-reporter.local';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * フィード元の保存済みレポート
+ * JSONレポートがあればそれを使い、なければMarkdownを本文として使う
+ */
+export interface StoredReport {
+  /** レポート日付（YYYY-MM-DD、JST） */
+  date: string;
+  /** Markdownレポートのファイル名 */
+  filename: string;
+  report?: JsonReport;
+  markdown?: string;
+}
+
+/**
+ * フィードエントリ
+ */
+export interface FeedEntry {
+  /** 同じ日付の再実行でも変わらないID */
+  id: string;
+  title: string;
+  link?: string;
+  /** 更新日時（ISO 8601） */
+  updated: string;
+  summary: string;
+  /** 本文 */
+  content: string;
+  contentType: 'html' | 'text';
+}
+
+/**
+ * フィード全体の情報
+ */
+export interface FeedMeta {
+  title: string;
+  /** フィード自体のID */
+  id: string;
+  link?: string;
+  updated: string;
+}
+
+/**
+ * フィード書き出しオプション
+ */
+export interface WriteFeedsOptions {
+  /** 出力ディレクトリ */
+  outputDir: string;
+  /** レポートのファイル名フォーマット */
+  filenameFormat?: string;
+  /** 基準日（この日から遡ってN日分） */
+  date: Date;
+  config: FeedConfig;
+}
+
+/**
+ * 直近N日分のレポートからフィードを書き出す
+ * @returns 書き出したフィードのパス
+ */
+export async function writeFeeds(options: WriteFeedsOptions): Promise<string[]> {
+  const { outputDir, filenameFormat, date, config } = options;
+  const formats: FeedFormat[] = config.formats ?? ['atom'];
+  const reports = await loadStoredReports(
+    outputDir,
+    date,
+    config.days ?? DEFAULT_FEED_DAYS,
+    filenameFormat
+  );
+  const entries = buildFeedEntries(reports, config.entryMode ?? 'report', config.baseUrl);
+
+  const meta: FeedMeta = {
+    title: config.title ?? DEFAULT_FEED_TITLE,
+    id: `tag:${TAG_AUTHORITY},2024:feed`,
+    link: config.baseUrl,
+    updated: entries[0]?.updated ?? date.toISOString(),
+  };
+
+  const written: string[] = [];
+  if (formats.includes('atom')) {
+    const feedPath = path.join(outputDir, ATOM_FEED_FILENAME);
+    await saveReport(generateAtomFeed(entries, meta), feedPath);
+    written.push(feedPath);
+  }
+  if (formats.includes('rss')) {
+    const feedPath = path.join(outputDir, RSS_FEED_FILENAME);
+    await saveReport(generateRssFeed(entries, meta), feedPath);
+    written.push(feedPath);
+  }
+
+  return written;
+}
+
+/**
+ * 出力ディレクトリから直近N日分の保存済みレポートを読み込む（新しい順）
+ * 不正なJSONレポートはMarkdownがあればそちらで代替する
+ */
+export async function loadStoredReports(
+  outputDir: string,
+  date: Date,
+  days: number,
+  filenameFormat?: string
+): Promise<StoredReport[]> {
+  const reports: StoredReport[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const day = new Date(date.getTime() - i * DAY_MS);
+    const filename = generateReportFilename(day, filenameFormat);
+    const reportPath = path.join(outputDir, filename);
+    const stored: StoredReport = { date: formatDateJst(day), filename };
+
+    const jsonPath = replaceReportExtension(reportPath, '.json');
+    if (fs.existsSync(jsonPath)) {
+      const validation = await loadJsonReport(jsonPath);
+      if (validation.report) {
+        stored.report = validation.report;
+      } else {
+        console.log(`[Feed] Skipping invalid JSON report ${jsonPath}: ${validation.errors[0]}`);
+      }
+    }
+
+    if (!stored.report && fs.existsSync(reportPath)) {
+      stored.markdown = await fs.promises.readFile(reportPath, 'utf-8');
+    }
+
+    if (stored.report || stored.markdown !== undefined) {
+      reports.push(stored);
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * 保存済みレポートからフィードエントリを構築する
+ * @param reports - 保存済みレポート（新しい順）
+ * @param mode - report: 日次レポートごと / article: トップ記事ごと
+ * @param baseUrl - レポートファイルを公開しているURL（リンク生成用）
+ */
+export function buildFeedEntries(
+  reports: StoredReport[],
+  mode: FeedEntryMode,
+  baseUrl?: string
+): FeedEntry[] {
+  return reports.flatMap((stored): FeedEntry[] => {
+    const updated = stored.report?.metadata.generatedAt ?? `${stored.date}T00:00:00+09:00`;
+    const reportLink = baseUrl
+      ? `${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(stored.filename)}`
+      : undefined;
+
+    // トップ記事ごとのエントリはJSONレポートがある日のみ
+    if (mode === 'article' && stored.report) {
+      return (stored.report.topArticles ?? []).map((top) => ({
+        id: `tag:${TAG_AUTHORITY},${stored.date}:article:${hashUrl(top.article.url)}`,
+        title: top.article.title,
+        // http/https以外のURLはフィードリーダーでそのまま開かれないようリンクにしない
+        link: isHttpUrl(top.article.url) ? top.article.url : undefined,
+        updated,
+        summary: top.reason,
+        content: `<p><strong>${escapeXml(top.categoryName)}</strong> | ${escapeXml(top.reason)}</p><p>${escapeXml(top.article.summary)}</p>`,
+        contentType: 'html',
+      }));
+    }
+
+    const id = `tag:${TAG_AUTHORITY},${stored.date}:report`;
+    const title = `${DEFAULT_FEED_TITLE} - ${stored.date}`;
+
+    if (stored.report) {
+      return [
+        {
+          id,
+          title,
+          link: reportLink,
+          updated,
+          summary: `${stored.report.metadata.inReport} articles in ${stored.report.categories.length} categories`,
+          content: formatReportContent(stored.report),
+          contentType: 'html',
+        },
+      ];
+    }
+
+    if (mode === 'article') return [];
+
+    return [
+      {
+        id,
+        title,
+        link: reportLink,
+        updated,
+        summary: title,
+        content: stored.markdown ?? '',
+        contentType: 'text',
+      },
+    ];
+  });
+}
+
+/**
+ * Atomフィードを生成する
+ */
+export function generateAtomFeed(entries: FeedEntry[], meta: FeedMeta): string {
+  let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
+  xml += '<feed xmlns="http://www.w3.org/2005/Atom">\n';
+  xml += `  <title>${escapeXml(meta.title)}</title>\n`;
+  xml += `  <id>${escapeXml(meta.id)}</id>\n`;
+  xml += `  <updated>${escapeXml(meta.updated)}</updated>\n`;
+  if (meta.link) {
+    xml += `  <link href="${escapeXml(meta.link)}"/>\n`;
+  }
+  xml += `  <author><name>${escapeXml(meta.title)}</name></author>\n`;
+
+  for (const entry of entries) {
+    xml += '  <entry>\n';
+    xml += `    <id>${escapeXml(entry.id)}</id>\n`;
+    xml += `    <title>${escapeXml(entry.title)}</title>\n`;
+    xml += `    <updated>${escapeXml(entry.updated)}</updated>\n`;
+    if (entry.link) {
+      xml += `    <link rel="alternate" href="${escapeXml(entry.link)}"/>\n`;
+    }
+    xml += `    <summary>${escapeXml(entry.summary)}</summary>\n`;
+    xml += `    <content type="${entry.contentType}">${escapeXml(entry.content)}</content>\n`;
+    xml += '  </entry>\n';
+  }
+
+  xml += '</feed>\n';
+  return xml;
+}
+
+/**
+ * RSS 2.0フィードを生成する
+ */
+export function generateRssFeed(entries: FeedEntry[], meta: FeedMeta): string {
+  let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
+  xml += '<rss version="2.0">\n';
+  xml += '  <channel>\n';
+  xml += `    <title>${escapeXml(meta.title)}</title>\n`;
+  xml += `    <link>${escapeXml(meta.link ?? '')}</link>\n`;
+  xml += `    <description>${escapeXml(meta.title)}</description>\n`;
+  xml += `    <lastBuildDate>${toRfc822(meta.updated)}</lastBuildDate>\n`;
+
+  for (const entry of entries) {
+    xml += '    <item>\n';
+    xml += `      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>\n`;
+    xml += `      <title>${escapeXml(entry.title)}</title>\n`;
+    if (entry.link) {
+      xml += `      <link>${escapeXml(entry.link)}</link>\n`;
+    }
+    xml += `      <pubDate>${toRfc822(entry.updated)}</pubDate>\n`;
+    xml += `      <description>${escapeXml(entry.content)}</description>\n`;
+    xml += '    </item>\n';
+  }
+
+  xml += '  </channel>\n';
+  xml += '</rss>\n';
+  return xml;
+}
+
+/**
+ * XMLの特殊文字をエスケープする
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * ISO 8601をRSS用のRFC 822形式に変換する
+ */
+function toRfc822(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toUTCString();
+}
+
+/**
+ * URLから短い安定ハッシュを生成する（エントリID用）
+ */
+function hashUrl(url: string): string {
+  return createHash('sha256').update(url).digest('hex').slice(0, 16);
+}
+
+/**
+ * 日次レポートエントリの本文（トップ記事とカテゴリ一覧）を生成する
+ */
+function formatReportContent(report: JsonReport): string {
+  let html = '';
+
+  const topArticles = report.topArticles ?? [];
+  if (topArticles.length > 0) {
+    html += `<h2>Today's Top ${topArticles.length}</h2><ol>`;
+    for (const top of topArticles) {
+      html += `<li><a href="${safeHref(top.article.url)}">${escapeXml(top.article.title)}</a> - ${escapeXml(top.reason)}</li>`;
+    }
+    html += '</ol>';
+  }
+
+  html += '<ul>';
+  for (const category of report.categories) {
+    html += `<li>${escapeXml(category.name)} (${category.articles.length} articles)</li>`;
+  }
+  html += '</ul>';
+
+  return html;
+}
@@ -0,0 +1,341 @@
+/**
+ * gitリポジトリへのレポート公開
+ * 保存済みレポートを設定されたローカルリポジトリにコピーしてコミットし、リモートがあればpushする
+ * チェックアウト中でないブランチへは、作業ツリーやHEADを変更せずにコミットする
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import type { GitPublishConfig } from '../types/index.js';
+import { formatDuration } from './markdown.js';
+
+/** デフォルトのリモート名 */
+const DEFAULT_REMOTE = 'origin';
+
+/** index.lock競合時のデフォルトリトライ回数 */
+const DEFAULT_LOCK_RETRIES = 3;
+
+/** index.lock競合時のデフォルトリトライ間隔（ms） */
+const DEFAULT_LOCK_RETRY_INTERVAL = 1000;
+
+/**
+ * コミットメッセージに使う実行統計
+ */
+export interface PublishStats {
+  /** レポート日付（YYYY-MM-DD） */
+  date: string;
+  collected: number;
+  afterDedup: number;
+  /** レポート掲載記事数（簡易レポートの場合はなし） */
+  inReport?: number;
+  executionTimeMs: number;
+  sourcesSucceeded: number;
+  sourcesTotal: number;
+}
+
+/**
+ * 公開結果
+ */
+export interface GitPublishResult {
+  status: 'committed' | 'unchanged' | 'failed';
+  /** 作成したコミットのハッシュ */
+  commit?: string;
+  pushed: boolean;
+  error?: string;
+}
+
+/**
+ * gitコマンドの実行結果
+ */
+interface GitOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * GitPublisherクラス
+ */
+export class GitPublisher {
+  private config: GitPublishConfig;
+
+  constructor(config: GitPublishConfig) {
+    this.config = config;
+  }
+
+  /**
+   * レポートファイルを公開する
+   * 失敗しても例外は投げず、結果として返す
+   * @param files - 公開するファイル（Markdown・JSONなど）
+   * @param stats - コミットメッセージ用の実行統計
+   */
+  async publish(files: string[], stats: PublishStats): Promise<GitPublishResult> {
+    try {
+      return await this.publishFiles(files, stats);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`[Git Publisher] Failed: ${message}`);
+      return { status: 'failed', pushed: false, error: message };
+    }
+  }
+
+  private async publishFiles(files: string[], stats: PublishStats): Promise<GitPublishResult> {
+    await this.git(['rev-parse', '--git-dir']);
+
+    const current = await this.getCurrentBranch();
+    const branch = this.config.branch ?? current;
+    if (!branch) {
+      throw new Error('HEAD is detached, set a branch to publish to');
+    }
+
+    // チェックアウト中のブランチは作業ツリー経由で、それ以外は作業ツリーに触れずにコミットする
+    const commit =
+      branch === current
+        ? await this.commitInWorkingTree(files, stats)
+        : await this.commitToBranch(branch, files, stats);
+    if (!commit) {
+      console.log('[Git Publisher] Nothing changed, skipping commit');
+      return { status: 'unchanged', pushed: false };
+    }
+    console.log(`[Git Publisher] Committed ${commit.slice(0, 7)} on ${branch}`);
+
+    return { status: 'committed', commit, pushed: await this.push(branch) };
+  }
+
+  /**
+   * チェックアウト中のブランチ名を取得する
+   * @returns ブランチ名（detached HEADの場合はundefined）
+   */
+  private async getCurrentBranch(): Promise<string | undefined> {
+    const output = await this.git(['symbolic-ref', '--quiet', '--short', 'HEAD'], [0, 1]);
+    return output.code === 0 ? output.stdout.trim() : undefined;
+  }
+
+  /**
+   * レポートを作業ツリーにコピーし、対象ファイルのみをコミットする
+   * @returns 作成したコミットのハッシュ（変更が無い場合はnull）
+   */
+  private async commitInWorkingTree(files: string[], stats: PublishStats): Promise<string | null> {
+    const repoPath = path.resolve(this.config.repoPath);
+    const targetDir = path.join(repoPath, this.config.directory ?? '');
+    await fs.promises.mkdir(targetDir, { recursive: true });
+
+    // 既存ファイルの有無で Add / Update を切り替える
+    const relativePaths: string[] = [];
+    let isUpdate = false;
+    for (const file of files) {
+      const destination = path.join(targetDir, path.basename(file));
+      isUpdate ||= fs.existsSync(destination);
+      await fs.promises.copyFile(file, destination);
+      relativePaths.push(path.relative(repoPath, destination));
+    }
+
+    await this.git(['add', '--', ...relativePaths]);
+    const diff = await this.git(['diff', '--cached', '--quiet', '--', ...relativePaths], [0, 1]);
+    if (diff.code === 0) {
+      return null;
+    }
+
+    await this.git([
+      ...this.identityArgs(),
+      'commit',
+      '-m',
+      buildCommitMessage(stats, isUpdate),
+      '--',
+      ...relativePaths,
+    ]);
+    return (await this.git(['rev-parse', 'HEAD'])).stdout.trim();
+  }
+
+  /**
+   * チェックアウトせずにブランチへコミットする（一時インデックスでツリーを作り、refを更新する）
+   * ブランチが無い場合はHEADから作成する
+   * @returns 作成したコミットのハッシュ（変更が無い場合はnull）
+   */
+  private async commitToBranch(
+    branch: string,
+    files: string[],
+    stats: PublishStats
+  ): Promise<string | null> {
+    const ref = `refs/heads/${branch}`;
+    const branchHead = await this.resolveCommit(ref);
+    const parent = branchHead ?? (await this.resolveCommit('HEAD'));
+
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'daily-reporter-index-'));
+    const env = { GIT_INDEX_FILE: path.join(tempDir, 'index') };
+    try {
+      if (parent) {
+        await this.git(['read-tree', parent], [0], env);
+      }
+
+      const repoPath = path.resolve(this.config.repoPath);
+      const targetDir = path.join(repoPath, this.config.directory ?? '');
+      const relativePaths = files.map((file) =>
+        path
+          .relative(repoPath, path.join(targetDir, path.basename(file)))
+          .split(path.sep)
+          .join('/')
+      );
+      const existing = await this.git(['ls-files', '--', ...relativePaths], [0], env);
+      const isUpdate = existing.stdout.trim() !== '';
+
+      for (const [index, file] of files.entries()) {
+        const blob = (
+          await this.git(['hash-object', '-w', '--', path.resolve(file)])
+        ).stdout.trim();
+        await this.git(
+          ['update-index', '--add', '--cacheinfo', `100644,${blob},${relativePaths[index]}`],
+          [0],
+          env
+        );
+      }
+
+      const tree = (await this.git(['write-tree'], [0], env)).stdout.trim();
+      if (parent && tree === (await this.git(['rev-parse', `${parent}^{tree}`])).stdout.trim()) {
+        return null;
+      }
+
+      const commit = (
+        await this.git([
+          ...this.identityArgs(),
+          'commit-tree',
+          tree,
+          ...(parent ? ['-p', parent] : []),
+          '-m',
+          buildCommitMessage(stats, isUpdate),
+        ])
+      ).stdout.trim();
+      // 並行して更新された場合に上書きしないよう、更新前の値を指定する
+      await this.git(['update-ref', ref, commit, branchHead ?? '']);
+      return commit;
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * refをコミットのハッシュに解決する
+   * @returns ハッシュ（存在しない場合はundefined）
+   */
+  private async resolveCommit(ref: string): Promise<string | undefined> {
+    const output = await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], [0, 1]);
+    return output.code === 0 ? output.stdout.trim() : undefined;
+  }
+
+  /**
+   * コミットのauthorを指定するgitオプション
+   */
+  private identityArgs(): string[] {
+    const identity: string[] = [];
+    if (this.config.authorName) identity.push('-c', `user.name=${this.config.authorName}`);
+    if (this.config.authorEmail) identity.push('-c', `user.email=${this.config.authorEmail}`);
+    return identity;
+  }
+
+  /**
+   * リモートが設定されていればpushする
+   */
+  private async push(branch: string): Promise<boolean> {
+    if (this.config.push === false) {
+      return false;
+    }
+
+    const remote = this.config.remote ?? DEFAULT_REMOTE;
+    const remotes = (await this.git(['remote'])).stdout.split('\n').map((r) => r.trim());
+    if (!remotes.includes(remote)) {
+      console.log(`[Git Publisher] No remote "${remote}" configured, skipping push`);
+      return false;
+    }
+
+    await this.git(['push', remote, branch]);
+    console.log(`[Git Publisher] Pushed ${branch} to ${remote}`);
+    return true;
+  }
+
+  /**
+   * gitコマンドを実行する
+   * index.lock等のロック競合は待機してリトライし、許容外の終了コードはエラーにする
+   */
+  private async git(
+    args: string[],
+    allowedCodes: number[] = [0],
+    env: Record<string, string> = {}
+  ): Promise<GitOutput> {
+    const retries = this.config.lockRetries ?? DEFAULT_LOCK_RETRIES;
+    const interval = this.config.lockRetryInterval ?? DEFAULT_LOCK_RETRY_INTERVAL;
+
+    for (let attempt = 0; ; attempt++) {
+      const output = await runGit(this.config.repoPath, args, env);
+      if (allowedCodes.includes(output.code)) {
+        return output;
+      }
+
+      if (isLockContention(output.stderr) && attempt < retries) {
+        console.log(`[Git Publisher] Repository is locked, retrying (${attempt + 1}/${retries})`);
+        await sleep(interval);
+        continue;
+      }
+
+      const command = args.filter((arg) => arg !== '-c' && !arg.startsWith('user.')).join(' ');
+      throw new Error(`git ${command} failed: ${output.stderr.trim() || `exit code ${output.code}`}`);
+    }
+  }
+}
+
+/**
+ * 実行統計からコミットメッセージを生成する
+ */
+export function buildCommitMessage(stats: PublishStats, isUpdate: boolean): string {
+  const lines = [
+    `${isUpdate ? 'Update' : 'Add'} daily report ${stats.date}`,
+    '',
+    `Collected: ${stats.collected}`,
+    `After dedup: ${stats.afterDedup}`,
+  ];
+  if (stats.inReport !== undefined) {
+    lines.push(`In report: ${stats.inReport}`);
+  }
+  lines.push(
+    `Sources: ${stats.sourcesSucceeded}/${stats.sourcesTotal} succeeded`,
+    `Execution time: ${formatDuration(stats.executionTimeMs)}`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * ロック競合によるエラーか
+ */
+function isLockContention(stderr: string): boolean {
+  return /\.lock'?: File exists|Unable to create '.*\.lock'/.test(stderr);
+}
+
+/**
+ * gitを実行し、終了コードと出力を返す（非0終了でも例外にしない）
+ */
+function runGit(cwd: string, args: string[], env: Record<string, string>): Promise<GitOutput> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...env } }, (error, stdout, stderr) => {
+      if (error && typeof error.code !== 'number') {
+        reject(error);
+        return;
+      }
+      resolve({ code: error ? Number(error.code) : 0, stdout, stderr });
+    });
+  });
+}
+
+/**
+ * 指定時間待機する
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * GitPublisherのファクトリ関数
+ */
+export function createGitPublisher(config: GitPublishConfig): GitPublisher {
+  return new GitPublisher(config);
+}
@@ -0,0 +1,273 @@
+/**
+ * HTMLレポート出力モジュール
+ * OrganizedReportからブラウザ・メールクライアント向けの単一HTMLファイルを生成する
+ */
+
+import type { OrganizedArticle, OrganizedReport, ReportMetadata } from '../types/index.js';
+import { formatArticleDiagnostics, formatDuration, formatSkippedSources } from './markdown.js';
+import { buildUsageRows, formatCost } from '../collector/usage.js';
+
+/**
+ * HTMLレポート生成オプション
+ */
+export interface HtmlReportOptions {
+  /** メタデータセクションを出力するか（デフォルト: true） */
+  includeMetadata?: boolean;
+}
+
+/** 関連度スコアの最大値 */
+const MAX_RELEVANCE = 5;
+
+/**
+ * 外部リソースに依存しないインラインCSS（prefers-color-schemeでダークモード対応）
+ */
+const STYLE = `
+:root {
+  --bg: #ffffff; --fg: #1f2328; --muted: #59636e; --border: #d1d9e0;
+  --card: #f6f8fa; --accent: #0969da; --star: #bf8700; --chip: #ddf4ff; --chip-fg: #0550ae;
+  --ok: #1a7f37; --ng: #cf222e;
+}
+@media (prefers-color-scheme: dark) {
+  :root {
+    --bg: #0d1117; --fg: #e6edf3; --muted: #9198a1; --border: #3d444d;
+    --card: #151b23; --accent: #4493f8; --star: #d29922; --chip: #1f3a5f; --chip-fg: #9ecbff;
+    --ok: #3fb950; --ng: #f85149;
+  }
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0; background: var(--bg); color: var(--fg); line-height: 1.6;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "Hiragino Sans", "Noto Sans JP", sans-serif;
+}
+main { max-width: 860px; margin: 0 auto; padding: 24px 16px; }
+h1 { font-size: 1.8em; margin: 0 0 8px; }
+h2 { font-size: 1.35em; border-bottom: 1px solid var(--border); padding-bottom: 4px; margin-top: 32px; }
+h3 { font-size: 1.05em; margin: 0 0 4px; }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.lead { color: var(--muted); margin: 0; }
+.warning { color: var(--ng); margin: 8px 0 0; }
+.count { color: var(--muted); font-weight: normal; font-size: 0.8em; }
+.category-summary { border-left: 4px solid var(--border); margin: 12px 0; padding: 4px 12px; color: var(--muted); }
+.article { background: var(--card); border: 1px solid var(--border); border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+.article p { margin: 6px 0; }
+.meta { color: var(--muted); font-size: 0.9em; }
+.stars { color: var(--star); letter-spacing: 1px; }
+.reason { font-size: 0.95em; }
+.tags { list-style: none; padding: 0; margin: 8px 0 0; }
+.tag { display: inline-block; background: var(--chip); color: var(--chip-fg); border-radius: 999px; padding: 0 10px; margin: 0 6px 4px 0; font-size: 0.8em; }
+details { margin-top: 32px; border: 1px solid var(--border); border-radius: 8px; padding: 8px 16px; }
+summary { cursor: pointer; font-weight: bold; }
+table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 0.9em; }
+th, td { border: 1px solid var(--border); padding: 4px 8px; text-align: left; }
+.ok { color: var(--ok); }
+.ng { color: var(--ng); }
+`;
+
+/**
+ * HTMLレポートを生成する
+ * @param report - 整理済みレポート
+ * @param options - 生成オプション
+ */
+export function generateHtmlReport(
+  report: OrganizedReport,
+  options: HtmlReportOptions = {}
+): string {
+  const { includeMetadata = true } = options;
+  const { metadata, topArticles = [] } = report;
+  const title = `Daily Tech Report - ${report.date}`;
+
+  let body = `<header>\n<h1>${escapeHtml(title)}</h1>\n`;
+  body += `<p class="lead">Total: ${metadata.totalCollected} collected → ${metadata.afterDedup} after dedup → ${metadata.inReport} in report</p>\n`;
+  if (metadata.skippedSources?.length) {
+    body += `<p class="warning">⚠️ ${escapeHtml(formatSkippedSources(metadata.skippedSources))}</p>\n`;
+  }
+  body += '</header>\n';
+
+  if (topArticles.length > 0) {
+    body += `<section class="top">\n<h2>🌟 Today's Top ${topArticles.length}</h2>\n`;
+    for (const top of [...topArticles].sort((a, b) => a.rank - b.rank)) {
+      body += formatArticleHtml(top.article, {
+        rank: top.rank,
+        reason: `${top.categoryName} | ${top.reason}`,
+      });
+    }
+    body += '</section>\n';
+  }
+
+  for (const category of report.categories) {
+    body += '<section class="category">\n';
+    body += `<h2>${escapeHtml(category.name)} <span class="count">(${category.articles.length} articles)</span></h2>\n`;
+    if (category.summary) {
+      body += `<blockquote class="category-summary">${escapeHtml(category.summary)}</blockquote>\n`;
+    }
+    if (category.highlights && category.highlights.length > 0) {
+      body += `<ul class="highlights">\n${category.highlights
+        .map((h) => `<li>${escapeHtml(h)}</li>`)
+        .join('\n')}\n</ul>\n`;
+    }
+    for (const article of category.articles) {
+      body += formatArticleHtml(article);
+    }
+    body += '</section>\n';
+  }
+
+  if (includeMetadata) {
+    body += formatMetadataHtml(report.date, metadata);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="color-scheme" content="light dark">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+${body}</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * HTMLの特殊文字をエスケープする
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * http/httpsの絶対URLか判定する
+ */
+export function isHttpUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * リンク先として安全なURLのみ通す（http/https以外は無効化）
+ * @returns 属性値としてエスケープ済みのURL（無効化した場合は"#"）
+ */
+export function safeHref(url: string): string {
+  return isHttpUrl(url) ? escapeHtml(url) : '#';
+}
+
+/**
+ * 関連度を星で表現する（1-5）
+ */
+function formatStars(score: number): string {
+  const filled = Math.max(0, Math.min(MAX_RELEVANCE, Math.round(score)));
+  return '★'.repeat(filled) + '☆'.repeat(MAX_RELEVANCE - filled);
+}
+
+/**
+ * 記事をHTMLカードに変換する
+ */
+function formatArticleHtml(
+  article: OrganizedArticle,
+  options: { rank?: number; reason?: string } = {}
+): string {
+  const rankPrefix = options.rank ? `${options.rank}. ` : '';
+  const meta = [
+    `<span class="stars" title="Relevance ${article.relevanceScore}/${MAX_RELEVANCE}">${formatStars(article.relevanceScore)}</span>`,
+    escapeHtml(article.source),
+  ];
+  if (article.publishedAt) {
+    meta.push(escapeHtml(article.publishedAt));
+  }
+  if (article.offDomainReason) {
+    meta.push(
+      `<span class="warning" title="${escapeHtml(article.offDomainReason)}">⚠️ Off-domain link</span>`
+    );
+  }
+
+  let html = '<article class="article">\n';
+  html += `<h3>${rankPrefix}<a href="${safeHref(article.url)}">${escapeHtml(article.title)}</a></h3>\n`;
+  html += `<p class="meta">${meta.join(' · ')}</p>\n`;
+  if (options.reason) {
+    html += `<p class="reason"><strong>${escapeHtml(options.reason)}</strong></p>\n`;
+  }
+  if (article.summary) {
+    html += `<p>${escapeHtml(article.summary)}</p>\n`;
+  }
+  if (article.tags.length > 0) {
+    html += `<ul class="tags">${article.tags
+      .map((tag) => `<li class="tag">${escapeHtml(tag)}</li>`)
+      .join('')}</ul>\n`;
+  }
+  html += '</article>\n';
+
+  return html;
+}
+
+/**
+ * メタデータとソース取得状態を折りたたみ可能なテーブルに変換する
+ */
+function formatMetadataHtml(date: string, metadata: ReportMetadata): string {
+  const rows: Array<[string, string | number]> = [
+    ['Date', date],
+    ['Collected', metadata.totalCollected],
+    ['After Dedup', metadata.afterDedup],
+    ['In Report', metadata.inReport],
+    ['Execution Time', formatDuration(metadata.executionTimeMs)],
+    ['Generated At', metadata.generatedAt],
+  ];
+  if (metadata.articleDiagnostics) {
+    rows.push(['Article Issues', formatArticleDiagnostics(metadata.articleDiagnostics)]);
+  }
+  if (metadata.organizerCache) {
+    const { hits, misses } = metadata.organizerCache;
+    rows.push(['Organizer Cache', `${hits} hits / ${misses} misses`]);
+  }
+
+  let html = '<details class="metadata">\n<summary>Metadata</summary>\n';
+  html += '<table>\n<tr><th>Metric</th><th>Value</th></tr>\n';
+  for (const [metric, value] of rows) {
+    html += `<tr><td>${escapeHtml(metric)}</td><td>${escapeHtml(String(value))}</td></tr>\n`;
+  }
+  html += '</table>\n';
+
+  if (metadata.sourcesStatus.length > 0) {
+    html += '<table>\n<tr><th>Source</th><th>Tier</th><th>Status</th><th>Articles</th><th>Error</th></tr>\n';
+    for (const status of metadata.sourcesStatus) {
+      const statusCell = status.success
+        ? '<span class="ok">✓</span>'
+        : '<span class="ng">✗</span>';
+      html += `<tr><td>${escapeHtml(status.sourceId)}</td><td>${status.tier}</td><td>${statusCell}</td><td>${status.articlesCount}</td><td>${escapeHtml(status.error ?? '')}</td></tr>\n`;
+    }
+    html += '</table>\n';
+  }
+
+  if (metadata.usage) {
+    html += '<table>\n<tr><th>Scope</th><th>Calls</th><th>Input Tokens</th><th>Output Tokens</th><th>Turns</th><th>Cost (USD)</th></tr>\n';
+    for (const [scope, stats] of buildUsageRows(metadata.usage)) {
+      html += `<tr><td>${escapeHtml(scope)}</td><td>${stats.invocations}</td><td>${stats.inputTokens}</td><td>${stats.outputTokens}</td><td>${stats.turns}</td><td>${formatCost(stats.costUsd)}</td></tr>\n`;
+    }
+    html += '</table>\n';
+  }
+
+  // 隔離したURLは誤ってたどらないようリンクにせず表示する
+  if (metadata.quarantinedArticles?.length) {
+    html += '<table>\n<tr><th>Quarantined Source</th><th>URL</th><th>Title</th><th>Reason</th></tr>\n';
+    for (const article of metadata.quarantinedArticles) {
+      html += `<tr><td>${escapeHtml(article.sourceId)}</td><td>${escapeHtml(article.url)}</td><td>${escapeHtml(article.title)}</td><td>${escapeHtml(article.reason)}</td></tr>\n`;
+    }
+    html += '</table>\n';
+  }
+
+  html += '</details>\n';
+  return html;
+}
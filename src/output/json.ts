@@ -0,0 +1,359 @@
+/**
+ * JSONレポート出力モジュール
+ * ダッシュボード等の下流ツール向けにOrganizedReportをバージョン付きJSONで出力・検証する
+ */
+
+import * as fs from 'fs';
+import type { OrganizedReport } from '../types/index.js';
+
+/**
+ * JSONレポートのスキーマバージョン
+ * フィールドの削除・意味の変更など互換性のない変更をしたら更新する
+ */
+export const REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * JSONレポート（ファイルに保存される形式）
+ */
+export interface JsonReport extends OrganizedReport {
+  schemaVersion: number;
+}
+
+/**
+ * JSONレポートの検証結果
+ */
+export interface JsonReportValidationResult {
+  valid: boolean;
+  /** 検証エラー（JSONパス付き） */
+  errors: string[];
+  /** 検証に成功した場合のレポート */
+  report: JsonReport | null;
+}
+
+const DATE_CONFIDENCES = ['high', 'medium', 'low', 'unknown'];
+const FRESHNESS_PRIORITIES = ['high', 'normal', 'low'];
+const DATE_SOURCES = ['published_at', 'url_date', 'relative_time', 'first_seen_at'];
+const SOURCE_TIERS = [1, 2, 3];
+
+/**
+ * OrganizedReportをJSONレポート文字列に変換する
+ * 既存のJSONレポートを渡した場合も現在のスキーマバージョンで出力し直す
+ */
+export function generateJsonReport(report: OrganizedReport): string {
+  const jsonReport: JsonReport = {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    date: report.date,
+    topArticles: report.topArticles ?? [],
+    categories: report.categories,
+    metadata: report.metadata,
+  };
+  return `${JSON.stringify(jsonReport, null, 2)}\n`;
+}
+
+/**
+ * JSON文字列をパースして検証する
+ */
+export function parseJsonReport(content: string): JsonReportValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`],
+      report: null,
+    };
+  }
+  return validateJsonReport(data);
+}
+
+/**
+ * JSONレポートファイルを読み込んで検証する
+ */
+export async function loadJsonReport(filePath: string): Promise<JsonReportValidationResult> {
+  const content = await fs.promises.readFile(filePath, 'utf-8');
+  return parseJsonReport(content);
+}
+
+/**
+ * 値がJSONレポートのスキーマを満たすか検証する
+ * @param data - JSON.parse済みの値
+ */
+export function validateJsonReport(data: unknown): JsonReportValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['$: must be an object'], report: null };
+  }
+
+  if (typeof data.schemaVersion !== 'number' || !Number.isInteger(data.schemaVersion)) {
+    errors.push('$.schemaVersion: must be an integer');
+  } else if (data.schemaVersion < 1 || data.schemaVersion > REPORT_SCHEMA_VERSION) {
+    errors.push(`$.schemaVersion: unsupported version ${data.schemaVersion}`);
+  }
+
+  expectString(data, 'date', '$', errors);
+
+  if (data.topArticles !== undefined) {
+    expectArray(data.topArticles, '$.topArticles', errors, (top, path) => {
+      if (!isRecord(top)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      expectInteger(top, 'rank', path, errors);
+      expectString(top, 'reason', path, errors);
+      expectString(top, 'categoryName', path, errors);
+      validateArticle(top.article, `${path}.article`, errors);
+    });
+  }
+
+  expectArray(data.categories, '$.categories', errors, (category, path) => {
+    if (!isRecord(category)) {
+      errors.push(`${path}: must be an object`);
+      return;
+    }
+    expectString(category, 'id', path, errors, true);
+    expectString(category, 'name', path, errors);
+    expectString(category, 'summary', path, errors, true);
+    if (category.highlights !== undefined) {
+      expectStringArray(category.highlights, `${path}.highlights`, errors);
+    }
+    expectArray(category.articles, `${path}.articles`, errors, (article, articlePath) =>
+      validateArticle(article, articlePath, errors)
+    );
+  });
+
+  validateMetadata(data.metadata, '$.metadata', errors);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    report: errors.length === 0 ? (data as unknown as JsonReport) : null,
+  };
+}
+
+/**
+ * 記事を検証する
+ */
+function validateArticle(article: unknown, path: string, errors: string[]): void {
+  if (!isRecord(article)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  expectString(article, 'title', path, errors);
+  expectString(article, 'url', path, errors);
+  expectString(article, 'summary', path, errors);
+  expectString(article, 'source', path, errors);
+  expectInteger(article, 'relevanceScore', path, errors);
+  expectStringArray(article.tags, `${path}.tags`, errors);
+  expectString(article, 'publishedAt', path, errors, true);
+  expectEnum(article, 'dateConfidence', DATE_CONFIDENCES, path, errors);
+  expectEnum(article, 'freshnessPriority', FRESHNESS_PRIORITIES, path, errors);
+  expectEnum(article, 'dateSource', DATE_SOURCES, path, errors);
+  expectString(article, 'offDomainReason', path, errors, true);
+}
+
+/**
+ * メタデータを検証する
+ */
+function validateMetadata(metadata: unknown, path: string, errors: string[]): void {
+  if (!isRecord(metadata)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  expectInteger(metadata, 'totalCollected', path, errors);
+  expectInteger(metadata, 'afterDedup', path, errors);
+  expectInteger(metadata, 'inReport', path, errors);
+  expectInteger(metadata, 'executionTimeMs', path, errors);
+  expectString(metadata, 'generatedAt', path, errors);
+
+  expectArray(metadata.sourcesStatus, `${path}.sourcesStatus`, errors, (status, statusPath) => {
+    if (!isRecord(status)) {
+      errors.push(`${statusPath}: must be an object`);
+      return;
+    }
+    expectString(status, 'sourceId', statusPath, errors);
+    if (!SOURCE_TIERS.includes(status.tier as number)) {
+      errors.push(`${statusPath}.tier: must be one of ${SOURCE_TIERS.join(', ')}`);
+    }
+    if (typeof status.success !== 'boolean') {
+      errors.push(`${statusPath}.success: must be a boolean`);
+    }
+    expectInteger(status, 'articlesCount', statusPath, errors);
+    expectString(status, 'error', statusPath, errors, true);
+  });
+
+  if (metadata.organizerCache !== undefined) {
+    const cachePath = `${path}.organizerCache`;
+    if (!isRecord(metadata.organizerCache)) {
+      errors.push(`${cachePath}: must be an object`);
+    } else {
+      expectInteger(metadata.organizerCache, 'hits', cachePath, errors);
+      expectInteger(metadata.organizerCache, 'misses', cachePath, errors);
+    }
+  }
+
+  if (metadata.usage !== undefined) {
+    validateUsage(metadata.usage, `${path}.usage`, errors);
+  }
+
+  if (metadata.skippedSources !== undefined) {
+    expectArray(metadata.skippedSources, `${path}.skippedSources`, errors, (skipped, skippedPath) => {
+      if (!isRecord(skipped)) {
+        errors.push(`${skippedPath}: must be an object`);
+        return;
+      }
+      expectString(skipped, 'sourceId', skippedPath, errors);
+      if (!SOURCE_TIERS.includes(skipped.tier as number)) {
+        errors.push(`${skippedPath}.tier: must be one of ${SOURCE_TIERS.join(', ')}`);
+      }
+      expectString(skipped, 'reason', skippedPath, errors);
+    });
+  }
+
+  if (metadata.articleDiagnostics !== undefined) {
+    validateArticleDiagnostics(metadata.articleDiagnostics, `${path}.articleDiagnostics`, errors);
+  }
+
+  if (metadata.quarantinedArticles !== undefined) {
+    expectArray(metadata.quarantinedArticles, `${path}.quarantinedArticles`, errors, (article, articlePath) => {
+      if (!isRecord(article)) {
+        errors.push(`${articlePath}: must be an object`);
+        return;
+      }
+      for (const key of ['sourceId', 'url', 'title', 'reason']) {
+        expectString(article, key, articlePath, errors);
+      }
+    });
+  }
+}
+
+/**
+ * 記事の検証結果の集計を検証する
+ */
+function validateArticleDiagnostics(summary: unknown, path: string, errors: string[]): void {
+  if (!isRecord(summary)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  expectInteger(summary, 'total', path, errors);
+  expectInteger(summary, 'rejectedArticles', path, errors);
+  for (const key of ['byIssue', 'byField', 'bySource']) {
+    const counts = summary[key];
+    if (!isRecord(counts)) {
+      errors.push(`${path}.${key}: must be an object`);
+      continue;
+    }
+    for (const name of Object.keys(counts)) {
+      expectInteger(counts, name, `${path}.${key}`, errors);
+    }
+  }
+}
+
+/**
+ * SDK使用量の集計を検証する
+ */
+function validateUsage(usage: unknown, path: string, errors: string[]): void {
+  if (!isRecord(usage)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+
+  validateUsageStats(usage.total, `${path}.total`, errors);
+  for (const key of ['byStage', 'bySource']) {
+    const group = usage[key];
+    if (!isRecord(group)) {
+      errors.push(`${path}.${key}: must be an object`);
+      continue;
+    }
+    for (const [name, stats] of Object.entries(group)) {
+      validateUsageStats(stats, `${path}.${key}.${name}`, errors);
+    }
+  }
+}
+
+function validateUsageStats(stats: unknown, path: string, errors: string[]): void {
+  if (!isRecord(stats)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  for (const key of [
+    'inputTokens',
+    'outputTokens',
+    'cacheReadInputTokens',
+    'cacheCreationInputTokens',
+    'turns',
+    'invocations',
+  ]) {
+    expectInteger(stats, key, path, errors);
+  }
+  if (typeof stats.costUsd !== 'number') {
+    errors.push(`${path}.costUsd: must be a number`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: string[],
+  optional: boolean = false
+): void {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') {
+    errors.push(`${path}.${key}: must be a string`);
+  }
+}
+
+function expectInteger(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: string[]
+): void {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    errors.push(`${path}.${key}: must be an integer`);
+  }
+}
+
+function expectEnum(
+  obj: Record<string, unknown>,
+  key: string,
+  allowed: string[],
+  path: string,
+  errors: string[]
+): void {
+  const value = obj[key];
+  if (value === undefined) return;
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${path}.${key}: must be one of ${allowed.join(', ')}`);
+  }
+}
+
+function expectStringArray(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    errors.push(`${path}: must be an array of strings`);
+  }
+}
+
+function expectArray(
+  value: unknown,
+  path: string,
+  errors: string[],
+  validateItem: (item: unknown, itemPath: string) => void
+): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: must be an array`);
+    return;
+  }
+  value.forEach((item, index) => validateItem(item, `${path}[${index}]`));
+}
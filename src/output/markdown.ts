@@ -0,0 +1,399 @@
+/**
+ * Markdownレポート出力モジュール
+ * 重複排除・カテゴリ化済みの記事から日次レポートを生成・保存する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  FilteredArticle,
+  CollectionResult,
+  DeduplicationResult,
+  SourceConfig,
+  OrganizerCacheStats,
+  UsageSummary,
+  SkippedSource,
+  ArticleDiagnosticsSummary,
+  QuarantinedArticle,
+} from '../types/index.js';
+import {
+  formatArticleMarkdown,
+  formatCategorySectionMarkdown,
+  type CategorizedArticle,
+  type CategorySummary,
+  type TopArticle,
+} from '../organizer/prompts.js';
+import { buildUsageRows, formatCost } from '../collector/usage.js';
+import { summarizeArticleDiagnostics, toQuarantinedArticles } from '../collector/validation.js';
+
+/** デフォルトのファイル名フォーマット */
+export const DEFAULT_FILENAME_FORMAT = 'daily-report-YYYY-MM-DD.md';
+
+/** JSTのUTCオフセット（ms） */
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * 日次レポート生成オプション
+ */
+export interface ReportOptions {
+  /** レポート日付 */
+  date: Date;
+  /** 収集結果 */
+  collectionResult: CollectionResult;
+  /** 重複排除結果 */
+  deduplicationResult: DeduplicationResult;
+  /** カテゴリID → カテゴリ化済み記事 */
+  categorizedArticles: Map<string, CategorizedArticle[]>;
+  /** カテゴリの表示順（含まれないカテゴリは末尾に出力） */
+  categoryOrder: string[];
+  /** トップ記事 */
+  topArticles?: TopArticle[];
+  /** カテゴリID → カテゴリ要約 */
+  categorySummaries?: Map<string, CategorySummary>;
+  /** 実行時間（ms） */
+  executionTimeMs: number;
+  /** 整理結果キャッシュの統計（指定時のみメタデータに出力） */
+  organizerCache?: OrganizerCacheStats;
+  /** SDK使用量の集計（指定時のみコスト表を出力） */
+  usage?: UsageSummary;
+  /** メタデータセクションを出力するか（デフォルト: true） */
+  includeMetadata?: boolean;
+}
+
+/**
+ * カテゴリ化済みの日次レポートを生成する
+ */
+export function generateDailyReport(options: ReportOptions): string {
+  const {
+    date,
+    collectionResult,
+    deduplicationResult,
+    categorizedArticles,
+    categoryOrder,
+    topArticles = [],
+    categorySummaries,
+    executionTimeMs,
+    organizerCache,
+    usage,
+    includeMetadata = true,
+  } = options;
+
+  const dateStr = formatDateJst(date);
+  const orderedCategoryIds = resolveCategoryOrder(categorizedArticles, categoryOrder);
+  const inReport = orderedCategoryIds.reduce(
+    (sum, id) => sum + (categorizedArticles.get(id)?.length ?? 0),
+    0
+  );
+  const sourcesSummary = formatSourcesSummary(collectionResult);
+
+  let markdown = `# Daily Tech Report - ${dateStr}\n\n`;
+  markdown += '> Generated by Claude Code Daily Reporter\n';
+  markdown += `> Total: ${collectionResult.stats.totalArticles} collected → ${deduplicationResult.articles.length} after dedup → ${inReport} in report\n\n`;
+  markdown += `> Sources: ${sourcesSummary}\n`;
+  if (collectionResult.skippedSources?.length) {
+    markdown += `> ⚠️ ${formatSkippedSources(collectionResult.skippedSources)}\n`;
+  }
+  markdown += '---\n\n';
+
+  if (topArticles.length > 0) {
+    markdown += `## 🌟 Today's Top ${topArticles.length}\n\n`;
+    for (const top of [...topArticles].sort((a, b) => a.rank - b.rank)) {
+      markdown += formatArticleMarkdown(top.article, top.rank, top.reason);
+    }
+    markdown += '\n';
+  }
+
+  for (const categoryId of orderedCategoryIds) {
+    const articles = categorizedArticles.get(categoryId) ?? [];
+    const categoryName = articles[0]?.categoryName ?? categoryId;
+    const summary = categorySummaries?.get(categoryId);
+    markdown += `${formatCategorySectionMarkdown(categoryName, articles, summary)}\n`;
+  }
+
+  if (includeMetadata) {
+    const rows: Array<[string, string | number]> = [
+      ['Date', dateStr],
+      ['Collected', collectionResult.stats.totalArticles],
+      ['After URL Dedup', deduplicationResult.stats.afterUrlDedup],
+      ['After History Dedup', deduplicationResult.stats.afterHistoryDedup],
+      ['After Similarity Dedup', deduplicationResult.stats.afterSimilarityDedup],
+      ['In Report', inReport],
+      ['Fresh Articles', deduplicationResult.stats.freshArticles],
+      ['Execution Time', formatDuration(executionTimeMs)],
+      ['Sources', sourcesSummary],
+    ];
+    if (collectionResult.skippedSources?.length) {
+      rows.push(['Skipped (Budget)', collectionResult.skippedSources.map((s) => s.sourceId).join(', ')]);
+    }
+    const articleDiagnostics = summarizeArticleDiagnostics(collectionResult.diagnostics);
+    if (articleDiagnostics) {
+      rows.push(['Article Issues', formatArticleDiagnostics(articleDiagnostics)]);
+    }
+    if (organizerCache) {
+      const { hits, misses } = organizerCache;
+      rows.push(['Organizer Cache', `${hits} hits / ${misses} misses`]);
+    }
+    markdown += '---\n\n';
+    markdown += formatMetadataTable(rows);
+    if (usage) {
+      markdown += `\n${formatUsageTable(usage)}`;
+    }
+    const quarantined = toQuarantinedArticles(collectionResult.quarantinedArticles);
+    if (quarantined) {
+      markdown += `\n${formatQuarantinedArticles(quarantined)}`;
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * カテゴリ化なしの簡易レポートを生成する
+ * @param usage - SDK使用量の集計（指定時のみコスト表を出力）
+ */
+export function generateSimpleReport(
+  articles: FilteredArticle[],
+  collectionResult: CollectionResult,
+  deduplicationResult: DeduplicationResult,
+  date: Date,
+  sources?: SourceConfig[],
+  includeMetadata: boolean = true,
+  usage?: UsageSummary
+): string {
+  const dateStr = formatDateJst(date);
+  const newArticles = articles.filter((a) => a.isNew);
+  const tierStatus = sources ? calculateTierStatus(sources, collectionResult) : null;
+
+  let markdown = `# Daily Tech Report - ${dateStr}\n\n`;
+  markdown += `> Total: ${collectionResult.stats.totalArticles} collected → ${deduplicationResult.articles.length} after dedup\n`;
+  if (tierStatus) {
+    const tierParts = tierStatus.map(
+      (t) => `Tier${t.tier}: ${t.total > 0 ? `${t.success}/${t.total}` : '-'}`
+    );
+    markdown += `> Sources: ${tierParts.join(', ')}\n`;
+  }
+  if (collectionResult.skippedSources?.length) {
+    markdown += `> ⚠️ ${formatSkippedSources(collectionResult.skippedSources)}\n`;
+  }
+  markdown += '\n---\n\n';
+
+  if (newArticles.length > 0) {
+    markdown += `## New Articles (${newArticles.length})\n\n`;
+    for (const article of newArticles) {
+      markdown += formatSimpleArticleMarkdown(article);
+    }
+  }
+
+  if (includeMetadata) {
+    const rows: Array<[string, string | number]> = [
+      ['Collected', collectionResult.stats.totalArticles],
+      ['After Dedup', deduplicationResult.articles.length],
+      ['New Articles', newArticles.length],
+    ];
+    for (const t of tierStatus ?? []) {
+      rows.push([`Tier${t.tier} Status`, `${t.success}/${t.total}`]);
+    }
+    const articleDiagnostics = summarizeArticleDiagnostics(collectionResult.diagnostics);
+    if (articleDiagnostics) {
+      rows.push(['Article Issues', formatArticleDiagnostics(articleDiagnostics)]);
+    }
+    markdown += formatMetadataTable(rows);
+    if (usage) {
+      markdown += `\n${formatUsageTable(usage)}`;
+    }
+    const quarantined = toQuarantinedArticles(collectionResult.quarantinedArticles);
+    if (quarantined) {
+      markdown += `\n${formatQuarantinedArticles(quarantined)}`;
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * レポートファイル名を生成する（日付はJST基準）
+ * @param date - レポート日付
+ * @param format - ファイル名フォーマット（YYYY/MM/DDを置換）
+ */
+export function generateReportFilename(
+  date: Date,
+  format: string = DEFAULT_FILENAME_FORMAT
+): string {
+  const [year = '', month = '', day = ''] = formatDateJst(date).split('-');
+  return format.replace(/YYYY/g, year).replace(/MM/g, month).replace(/DD/g, day);
+}
+
+/**
+ * レポートパスの拡張子を差し替える（Markdown以外の形式を同じ場所に出力するため）
+ * @param filePath - Markdownレポートのパス
+ * @param extension - 新しい拡張子（例: .html）
+ */
+export function replaceReportExtension(filePath: string, extension: string): string {
+  const parsed = path.parse(filePath);
+  return path.join(parsed.dir, `${parsed.name}${extension}`);
+}
+
+/**
+ * レポートをアトミックに保存する
+ * 同一ディレクトリの一時ファイルに書き込んでからrenameするため、
+ * 途中でクラッシュしても書きかけのレポートは残らない
+ */
+export async function saveReport(content: string, filePath: string): Promise<void> {
+  const dir = path.dirname(filePath);
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const tmpPath = path.join(dir, `.${path.basename(filePath)}.${process.pid}.tmp`);
+
+  try {
+    const handle = await fs.promises.open(tmpPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * 日付をJSTのYYYY-MM-DD形式に変換する
+ */
+export function formatDateJst(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().split('T')[0] ?? '';
+}
+
+/**
+ * 実行時間を人間が読みやすい形式に変換する（例: 45s, 4m 32s）
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * ソース取得状態のサマリーを生成する（成功✓ / 部分△ / 失敗✗）
+ */
+function formatSourcesSummary(collectionResult: CollectionResult): string {
+  const { successfulSources, partialSources, failedSources } = collectionResult.stats;
+  return `${successfulSources}✓ / ${partialSources}△ / ${failedSources}✗`;
+}
+
+/**
+ * 予算超過でスキップしたソースの説明を生成する
+ * @example formatSkippedSources(skipped) // 'Skipped for budget (time limit 600s exceeded): techcrunch (Tier 2), twitter (Tier 3)'
+ */
+export function formatSkippedSources(skippedSources: SkippedSource[]): string {
+  const reasons = [...new Set(skippedSources.map((s) => s.reason))].join('; ');
+  const sources = skippedSources.map((s) => `${s.sourceId} (Tier ${s.tier})`).join(', ');
+  return `Skipped for budget (${reasons}): ${sources}`;
+}
+
+/**
+ * 記事の検証結果の集計を1行で説明する
+ * @example formatArticleDiagnostics(summary) // '3 issues, 1 rejected (relative_url: 2, null_literal: 1)'
+ */
+export function formatArticleDiagnostics(summary: ArticleDiagnosticsSummary): string {
+  const issues = Object.entries(summary.byIssue)
+    .map(([issue, count]) => `${issue}: ${count}`)
+    .join(', ');
+  return `${summary.total} issues, ${summary.rejectedArticles} rejected (${issues})`;
+}
+
+/**
+ * カテゴリの表示順を決定する
+ * categoryOrderに含まれるものを先に、残りは挿入順で出力する（空カテゴリは除外）
+ */
+function resolveCategoryOrder(
+  categorizedArticles: Map<string, CategorizedArticle[]>,
+  categoryOrder: string[]
+): string[] {
+  const ordered = [
+    ...categoryOrder.filter((id) => categorizedArticles.has(id)),
+    ...[...categorizedArticles.keys()].filter((id) => !categoryOrder.includes(id)),
+  ];
+
+  return [...new Set(ordered)].filter(
+    (id) => (categorizedArticles.get(id)?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Tier別の成功ソース数を集計する（partialも成功として扱う）
+ */
+function calculateTierStatus(
+  sources: SourceConfig[],
+  collectionResult: CollectionResult
+): Array<{ tier: number; success: number; total: number }> {
+  return [1, 2, 3].map((tier) => {
+    const tierSources = sources.filter((s) => s.enabled && s.tier === tier);
+    const success = tierSources.filter((s) => {
+      const status = collectionResult.sourcesStatus[s.id];
+      return status === 'success' || status === 'partial';
+    }).length;
+    return { tier, success, total: tierSources.length };
+  });
+}
+
+/**
+ * 簡易レポート用に記事をMarkdownフォーマットに変換する
+ */
+function formatSimpleArticleMarkdown(article: FilteredArticle): string {
+  const meta = [`**Source:** ${article.source}`];
+  if (article.publishedAt) {
+    meta.push(`**Published:** ${article.publishedAt}`);
+  }
+  if (article.offDomainReason) {
+    meta.push(`⚠️ **Off-domain link:** ${article.offDomainReason}`);
+  }
+
+  let markdown = `### [${article.title}](${article.url})\n${meta.join(' | ')}\n\n`;
+  if (article.summary) {
+    markdown += `${article.summary}\n\n`;
+  }
+  markdown += '---\n\n';
+
+  return markdown;
+}
+
+/**
+ * 隔離した記事の一覧を生成する
+ */
+function formatQuarantinedArticles(quarantined: QuarantinedArticle[]): string {
+  let markdown = `## Quarantined Links (${quarantined.length})\n\n`;
+  for (const article of quarantined) {
+    markdown += `- **${article.sourceId}**: ${article.url} - ${article.title} (${article.reason})\n`;
+  }
+  return markdown;
+}
+
+/**
+ * SDK使用量のコスト表を生成する
+ */
+function formatUsageTable(usage: UsageSummary): string {
+  let markdown = '## Cost\n\n';
+  markdown += '| Scope | Calls | Input Tokens | Output Tokens | Turns | Cost (USD) |\n';
+  markdown += '|-------|-------|--------------|---------------|-------|------------|\n';
+  for (const [scope, stats] of buildUsageRows(usage)) {
+    markdown += `| ${scope} | ${stats.invocations} | ${stats.inputTokens} | ${stats.outputTokens} | ${stats.turns} | ${formatCost(stats.costUsd)} |\n`;
+  }
+  return markdown;
+}
+
+/**
+ * メタデータテーブルを生成する
+ */
+function formatMetadataTable(rows: Array<[string, string | number]>): string {
+  let markdown = '## Metadata\n\n';
+  markdown += '| Metric | Value |\n';
+  markdown += '|--------|-------|\n';
+  for (const [metric, value] of rows) {
+    markdown += `| ${metric} | ${value} |\n`;
+  }
+  return markdown;
+}
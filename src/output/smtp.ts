@@ -0,0 +1,256 @@
+/**
+ * 最小限のSMTPクライアント
+ * EHLO / STARTTLS / AUTH PLAIN / MAIL / RCPT / DATA のみをサポートする
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { hostname } from 'os';
+import type { SmtpConfig } from '../types/index.js';
+
+/** デフォルトのタイムアウト（ms） */
+const DEFAULT_SMTP_TIMEOUT = 30000;
+
+/**
+ * SMTPの応答（複数行応答は1つにまとめる）
+ */
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * 送信エンベロープ
+ */
+export interface SmtpEnvelope {
+  from: string;
+  recipients: string[];
+}
+
+/**
+ * ソケットから応答を1件ずつ読み出すための接続ラッパー
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private timeout: number;
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter: { resolve: (r: SmtpResponse) => void; reject: (e: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private readonly onData = (chunk: Buffer) => this.receive(chunk.toString('utf-8'));
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onClose = () => this.fail(new Error('SMTP connection closed'));
+  private readonly onTimeout = () => {
+    this.fail(new Error('SMTP timeout'));
+    this.socket.destroy();
+  };
+
+  constructor(socket: net.Socket, timeout: number) {
+    this.socket = socket;
+    this.timeout = timeout;
+    this.attach(socket);
+  }
+
+  /**
+   * 次の応答を待つ
+   */
+  read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) return Promise.resolve(response);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /**
+   * コマンドを送信し、期待するコードの応答を待つ
+   */
+  async command(line: string, expected: number[], label = line): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  /**
+   * 応答を読み、コードが期待値でなければエラーにする
+   */
+  async expect(expected: number[], label: string): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} failed: ${response.code} ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  /**
+   * 生データを書き込む（DATA本文用）
+   */
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  /**
+   * STARTTLS後にソケットをTLSへ差し替える
+   */
+  async upgrade(servername: string): Promise<void> {
+    this.detach(this.socket);
+    const secureSocket = tls.connect({ socket: this.socket, servername });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeout);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.on('timeout', this.onTimeout);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+    socket.off('timeout', this.onTimeout);
+  }
+
+  /**
+   * 受信データを行に分割し、"250-" の継続行を最終行 "250 " までまとめる
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pendingLines.push(line.slice(4));
+
+      if (line.charAt(3) !== '-') {
+        this.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+  }
+
+  private push(response: SmtpResponse): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(response);
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * SMTPでメッセージを送信する
+ * @param config - SMTP接続設定
+ * @param envelope - 送信者と受信者（To/Ccをまとめたもの）
+ * @param data - CRLF改行のMIMEメッセージ
+ */
+export async function sendSmtp(
+  config: SmtpConfig,
+  envelope: SmtpEnvelope,
+  data: string
+): Promise<void> {
+  const port = config.port ?? (config.secure ? 465 : 25);
+  const timeout = config.timeout ?? DEFAULT_SMTP_TIMEOUT;
+  const socket = await connect(config.host, port, config.secure ?? false, timeout);
+  const connection = new SmtpConnection(socket, timeout);
+
+  try {
+    await connection.expect([220], 'greeting');
+    const ehlo = await connection.command(`EHLO ${hostname()}`, [250]);
+
+    if (!config.secure && (config.startTls ?? true) && hasExtension(ehlo, 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host);
+      await connection.command(`EHLO ${hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      const password = config.passwordEnv ? (process.env[config.passwordEnv] ?? '') : '';
+      const credentials = Buffer.from(`\0${config.user}\0${password}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN');
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(envelope.from)}>`, [250]);
+    for (const recipient of envelope.recipients) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    connection.write(`${dotStuff(data)}\r\n.\r\n`);
+    await connection.expect([250], 'DATA');
+    await connection.command('QUIT', [221]);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * "名前 <user@example.com>" 形式からアドレス部分を取り出す
+ */
+export function extractAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match?.[1] ?? address).trim();
+}
+
+/**
+ * 接続を確立する（secureの場合は最初からTLS）
+ */
+function connect(host: string, port: number, secure: boolean, timeout: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onConnect = () => {
+      socket.off('error', onError);
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    };
+    const onError = (error: Error) => reject(error);
+    const onTimeout = () => {
+      socket.destroy();
+      reject(new Error(`SMTP connection to ${host}:${port} timed out`));
+    };
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, onConnect)
+      : net.connect({ host, port }, onConnect);
+    socket.setTimeout(timeout);
+    socket.once('error', onError);
+    socket.once('timeout', onTimeout);
+  });
+}
+
+/**
+ * EHLO応答に拡張が含まれるか
+ */
+function hasExtension(response: SmtpResponse, extension: string): boolean {
+  return response.lines.some((line) => line.toUpperCase().startsWith(extension));
+}
+
+/**
+ * 行頭の "." をエスケープする（RFC 5321 4.5.2）
+ */
+function dotStuff(data: string): string {
+  return data.replace(/\r\n\./g, '\r\n..').replace(/^\./, '..');
+}
@@ -36,6 +36,8 @@ export interface RawArticle {
   rawContent?: string;
   /** 収集時に取得した日付関連メタ情報（html_meta等で使用） */
   dateMetaContent?: string;
+  /** URLがソースの許可ドメイン外の場合の理由（offDomainAction: flagで残した記事・隔離した記事） */
+  offDomainReason?: string;
 }
 
 /** フィルタ済み記事データ（重複排除後） */
@@ -61,17 +63,39 @@ export interface OrganizedArticle {
   relevanceScore: number;
   tags: string[];
   publishedAt?: string;
+  dateConfidence?: DateConfidence;
+  freshnessPriority?: FreshnessPriority;
+  dateSource?: DateSource;
+  /** URLがソースの許可ドメイン外の場合の理由 */
+  offDomainReason?: string;
+}
+
+/** レポートのトップ記事 */
+export interface ReportTopArticle {
+  rank: number;
+  /** 選出理由 */
+  reason: string;
+  categoryName: string;
+  article: OrganizedArticle;
 }
 
 /** カテゴリ別にまとめられた記事群 */
 export interface ArticleCategory {
+  /** カテゴリID（クエリグループID、未分類は other） */
+  id?: string;
   name: string;
+  /** カテゴリ全体の概要（Stage2要約） */
+  summary?: string;
+  /** ハイライト */
+  highlights?: string[];
   articles: OrganizedArticle[];
 }
 
 /** 最終レポート */
 export interface OrganizedReport {
   date: string;
+  /** 今日のトップ記事（順位順） */
+  topArticles?: ReportTopArticle[];
   categories: ArticleCategory[];
   metadata: ReportMetadata;
 }
@@ -84,6 +108,60 @@ export interface ReportMetadata {
   executionTimeMs: number;
   sourcesStatus: SourceStatus[];
   generatedAt: string;
+  /** 整理結果キャッシュのヒット/ミス数 */
+  organizerCache?: OrganizerCacheStats;
+  /** SDK呼び出しのトークン数・コスト */
+  usage?: UsageSummary;
+  /** 予算超過でスキップしたソース */
+  skippedSources?: SkippedSource[];
+  /** 収集記事の検証で見つかった問題の集計 */
+  articleDiagnostics?: ArticleDiagnosticsSummary;
+  /** 許可ドメイン外のURLのため隔離した記事 */
+  quarantinedArticles?: QuarantinedArticle[];
+}
+
+/** 許可ドメイン外のURLのため隔離した記事 */
+export interface QuarantinedArticle {
+  sourceId: string;
+  url: string;
+  title: string;
+  reason: string;
+}
+
+/** 予算超過でスキップしたソース */
+export interface SkippedSource {
+  sourceId: string;
+  tier: SourceTier;
+  /** スキップ理由（超過した予算） */
+  reason: string;
+}
+
+/** 整理結果キャッシュの統計 */
+export interface OrganizerCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** SDK呼び出しのトークン数・コスト */
+export interface UsageStats {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  costUsd: number;
+  /** エージェントのターン数 */
+  turns: number;
+  /** SDK呼び出し回数 */
+  invocations: number;
+}
+
+/** 実行全体のトークン数・コストの集計 */
+export interface UsageSummary {
+  total: UsageStats;
+  /** ステージ別（collect, organize） */
+  byStage: Record<string, UsageStats>;
+  /** ソース別（収集ステージのみ） */
+  bySource: Record<string, UsageStats>;
 }
 
 /** ソースごとの取得状態 */
@@ -115,6 +193,17 @@ export interface HistoryEntry {
   contentHash?: string;
 }
 
+/** 整理結果キャッシュのエントリ（正規化URL + プロンプトバージョン単位） */
+export interface OrganizerCacheEntry {
+  normalizedUrl: string;
+  promptVersion: string;
+  categoryId: string;
+  relevanceScore: number;
+  aiSummary: string;
+  tags: string[];
+  cachedAt: string; // ISO 8601
+}
+
 // ============================================
 // 設定関連
 // ============================================
@@ -133,6 +222,25 @@ export interface SourceConfig {
   dateSelector?: string;
   datePattern?: string;
   maxArticles: number;
+  /** JSONパース失敗時の修復ポリシー（省略時はデフォルト） */
+  jsonRepair?: JsonRepairPolicy;
+  /** 記事URLとして許可する追加ドメイン（urlのホスト・queryのsite:に加える、サブドメインを含む） */
+  allowedDomains?: string[];
+  /** 許可ドメイン外の記事URLの扱い（デフォルト: quarantine） */
+  offDomainAction?: OffDomainAction;
+}
+
+/** 許可ドメイン外の記事URLの扱い（quarantine: 記事から外して隔離、flag: 残して記録） */
+export type OffDomainAction = 'quarantine' | 'flag';
+
+/** JSON修復ポリシー */
+export interface JsonRepairPolicy {
+  /** LLM呼び出し前にローカル修復（末尾カンマ・スマートクォート・途中切れ）を試みる（デフォルト: true） */
+  local?: boolean;
+  /** LLMによる修復の最大試行回数（0で無効、デフォルト: 1） */
+  maxAttempts?: number;
+  /** 修復に使うモデル（省略時は収集と同じモデル） */
+  model?: string;
 }
 
 /** レート制御設定 */
@@ -149,6 +257,36 @@ export interface RateControlConfig {
       maxRetries: number;
     }
   >;
+  /** リトライ間隔の上限（ms、指数バックオフ・Retry-Afterの待機に適用、デフォルト: 60000） */
+  maxRetryInterval?: number;
+  /** この回数連続でタイムアウトしたソースは実行の残りの間呼び出さない（デフォルト: 3） */
+  circuitBreakerThreshold?: number;
+  /** 同一ドメインへの同時実行数上限（デフォルト: 1） */
+  domainConcurrency?: number;
+  /** 同一ドメインへのリクエスト開始間隔（ms、デフォルト: 0） */
+  domainMinIntervalMs?: number;
+  /** ドメイン別の上書き設定（キーはwww.を除いたホスト名） */
+  perDomain?: Record<string, Partial<DomainLimit>>;
+}
+
+/** ドメインごとのレート制限 */
+export interface DomainLimit {
+  maxConcurrency: number;
+  minIntervalMs: number;
+}
+
+/** 実行時のソース上書き（data/source-overrides.json、sources.jsonより優先） */
+export interface SourceOverride {
+  enabled: boolean;
+  /** 上書きの理由 */
+  reason?: string;
+  updatedAt: string; // ISO 8601
+}
+
+/** ソース上書きファイル */
+export interface SourceOverridesFile {
+  version: 1;
+  overrides: Record<string, SourceOverride>;
 }
 
 /** ソース設定全体 */
@@ -211,6 +349,115 @@ export interface QueriesConfig {
   };
 }
 
+/** レポートの出力形式 */
+export type ReportFormat = 'markdown' | 'html' | 'json';
+
+/** フィード形式 */
+export type FeedFormat = 'atom' | 'rss';
+
+/** フィードエントリの単位（日次レポートごと / トップ記事ごと） */
+export type FeedEntryMode = 'report' | 'article';
+
+/** フィード出力設定 */
+export interface FeedConfig {
+  enabled: boolean;
+  /** 出力形式（デフォルト: ['atom']） */
+  formats?: FeedFormat[];
+  /** エントリの単位（デフォルト: report） */
+  entryMode?: FeedEntryMode;
+  /** フィードに含める日数（デフォルト: 14） */
+  days?: number;
+  /** フィードのタイトル */
+  title?: string;
+  /** レポートを公開しているURL（エントリのリンクに使用） */
+  baseUrl?: string;
+}
+
+/** メールの配信方法（.emlファイル出力 / SMTP送信） */
+export type EmailTransport = 'eml' | 'smtp';
+
+/** SMTP接続設定 */
+export interface SmtpConfig {
+  host: string;
+  /** ポート（デフォルト: secureなら465、それ以外は25） */
+  port?: number;
+  /** 接続時からTLSを使う（SMTPS） */
+  secure?: boolean;
+  /** サーバーが対応していればSTARTTLSで暗号化する（デフォルト: true） */
+  startTls?: boolean;
+  /** AUTH PLAINのユーザー名 */
+  user?: string;
+  /** パスワードを格納した環境変数名 */
+  passwordEnv?: string;
+  /** タイムアウト（ms、デフォルト: 30000） */
+  timeout?: number;
+}
+
+/** メール出力設定 */
+export interface EmailConfig {
+  enabled: boolean;
+  transport: EmailTransport;
+  from: string;
+  to: string[];
+  cc?: string[];
+  /** 件名テンプレート（{date} {articles} {categories} を置換、デフォルト: "Daily Tech Report - {date}"） */
+  subjectTemplate?: string;
+  /** transportがsmtpの場合に必須 */
+  smtp?: SmtpConfig;
+}
+
+/** ローカルgitリポジトリへのレポート公開設定 */
+export interface GitPublishConfig {
+  enabled: boolean;
+  /** 公開先のローカルリポジトリ */
+  repoPath: string;
+  /** コミット先ブランチ（デフォルト: 現在のブランチ） */
+  branch?: string;
+  /** リポジトリ内の配置ディレクトリ（デフォルト: ルート） */
+  directory?: string;
+  /** リモート名（デフォルト: origin、未設定のリポジトリではpushしない） */
+  remote?: string;
+  /** pushするか（デフォルト: true） */
+  push?: boolean;
+  /** コミットのauthor（未指定時はリポジトリのgit設定を使用） */
+  authorName?: string;
+  authorEmail?: string;
+  /** index.lock競合時のリトライ回数（デフォルト: 3） */
+  lockRetries?: number;
+  /** index.lock競合時のリトライ間隔（ms、デフォルト: 1000） */
+  lockRetryInterval?: number;
+}
+
+/** 通知チャネルの種類 */
+export type NotificationChannelType = 'slack' | 'discord' | 'webhook';
+
+/** 通知チャネル設定 */
+export interface NotificationChannelConfig {
+  type: NotificationChannelType;
+  /** Incoming Webhook URL / POST先URL */
+  url: string;
+  /** falseの場合は送信しない（デフォルト: true） */
+  enabled?: boolean;
+  /** 最大リトライ回数（デフォルト: 2） */
+  maxRetries?: number;
+  /** リトライ間隔の基準値（ms、リトライごとに倍増、デフォルト: 1000） */
+  retryInterval?: number;
+  /** 1リクエストのタイムアウト（ms、デフォルト: 10000） */
+  timeoutMs?: number;
+  /** 1メッセージの最大文字数（デフォルト: チャネルごとの上限） */
+  maxMessageLength?: number;
+  /** 追加のHTTPヘッダー（webhookのみ） */
+  headers?: Record<string, string>;
+}
+
+/** 通知設定 */
+export interface NotificationsConfig {
+  enabled: boolean;
+  channels: NotificationChannelConfig[];
+  /** レポートを公開しているURL（通知からのリンクに使用） */
+  reportBaseUrl?: string;
+}
+
 /** アプリケーション全体設定 */
 export interface AgentConfig {
   maxTurns: number;
@@ -218,6 +465,18 @@ export interface AgentConfig {
   permissionMode: 'bypassPermissions' | 'acceptEdits' | 'default';
   model: string;
   timeout: number;
+  /** SDK呼び出しの記録・再生（省略時はライブ実行のみ） */
+  cassette?: CassetteConfig;
+}
+
+/** カセットモード（record: ライブ実行して保存, replay: 保存済みの応答のみ返す） */
+export type CassetteMode = 'record' | 'replay';
+
+/** SDK呼び出しの記録・再生設定 */
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** カセットの保存先ディレクトリ */
+  directory: string;
 }
 
 /** アプリケーション全体設定 */
@@ -240,20 +499,59 @@ export interface AppConfig {
     directory: string;
     filenameFormat: string;
     includeMetadata: boolean;
+    /** 出力形式（デフォルト: ['markdown', 'json']、他形式は.mdと同じ場所に拡張子を変えて出力） */
+    formats?: ReportFormat[];
+    /** フィード出力設定 */
+    feed?: FeedConfig;
+    /** メール出力設定 */
+    email?: EmailConfig;
+    /** gitリポジトリへの公開設定 */
+    git?: GitPublishConfig;
   };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     filePattern: string; // e.g., "./logs/YYYY-MM-DD.log"
     runStatusPath: string; // e.g., "./logs/run_status.jsonl"
   };
+  /** 通知設定 */
+  notifications?: NotificationsConfig;
+  /** 実行全体の予算（超過時は下位Tierのソースをスキップ） */
+  budget?: RunBudgetConfig;
+  /** ソースの健全性管理（連続失敗による無効化・試験運用での自動復帰） */
+  sourceHealth?: SourceHealthConfig;
   /** 履歴保持日数（トップレベル） */
   historyRetentionDays?: number;
 }
 
+/** 実行全体の予算（いずれも省略時は無制限） */
+export interface RunBudgetConfig {
+  /** 実行開始からの経過時間の上限（ms） */
+  maxDurationMs?: number;
+  /** SDK呼び出し回数の上限 */
+  maxSdkCalls?: number;
+  /** 推定コストの上限（USD） */
+  maxCostUsd?: number;
+}
+
+/** ソースの健全性管理設定 */
+export interface SourceHealthConfig {
+  /** degradedにする連続失敗回数（デフォルト: 1） */
+  degradedAfter?: number;
+  /** disabledにする連続失敗回数（デフォルト: 3） */
+  disableAfter?: number;
+  /** disabledからprobation（試験運用）で再試行するまでの時間（時間、デフォルト: 24） */
+  probationCooldownHours?: number;
+  /** probationからhealthyに戻す連続成功回数（デフォルト: 1） */
+  recoverAfter?: number;
+}
+
 // ============================================
 // 実行状態関連
 // ============================================
 
+/** 実行ステージ（--from-stageで再開位置を指定） */
+export type RunStage = 'collect' | 'dedup' | 'organize' | 'render';
+
 /** 最終成功実行時刻 */
 export interface LastSuccessState {
   lastSuccessAt: string; // ISO 8601
@@ -306,6 +604,86 @@ export interface CollectionResult {
     totalArticles: number;
     executionTimeMs: number;
   };
+  /** ソース別のSDK使用量 */
+  usage?: Record<string, UsageStats>;
+  /** 予算超過でスキップしたソース */
+  skippedSources?: SkippedSource[];
+  /** ソース別の収集所要時間（ms） */
+  latencyMs?: Record<string, number>;
+  /** 記事ごとの検証結果（問題があったフィールドのみ） */
+  diagnostics?: ArticleDiagnostic[];
+  /** 許可ドメイン外のURLのため隔離した記事 */
+  quarantinedArticles?: RawArticle[];
+}
+
+/** 検証対象の記事フィールド */
+export type ArticleField = 'title' | 'url' | 'summary' | 'publishedAt' | 'dateMetaContent';
+
+/** 記事の検証で見つかった問題の種類 */
+export type ArticleIssueType =
+  | 'missing'
+  | 'null_literal'
+  | 'relative_url'
+  | 'invalid_url'
+  | 'unsupported_scheme'
+  | 'invalid_date'
+  | 'off_domain';
+
+/**
+ * 問題への対処
+ * rejected: 記事を除外、quarantined: 記事を隔離、flagged: 記事は残して記録、fixed: 値を補正、dropped: フィールドを破棄
+ */
+export type ArticleIssueAction = 'rejected' | 'quarantined' | 'flagged' | 'fixed' | 'dropped';
+
+/** 記事ごとの検証結果 */
+export interface ArticleDiagnostic {
+  sourceId: string;
+  /** 記事の識別用（URLまたはタイトル） */
+  article: string;
+  field: ArticleField;
+  issue: ArticleIssueType;
+  action: ArticleIssueAction;
+  /** 問題のあった値 */
+  value?: string;
+  message: string;
+}
+
+/** 記事の検証結果の集計 */
+export interface ArticleDiagnosticsSummary {
+  total: number;
+  /** 除外した記事数（隔離した記事は含まない） */
+  rejectedArticles: number;
+  byIssue: Partial<Record<ArticleIssueType, number>>;
+  byField: Partial<Record<ArticleField, number>>;
+  bySource: Record<string, number>;
+}
+
+/** ソースの健全性（healthy → degraded → disabled → probation → healthy） */
+export type SourceHealthState = 'healthy' | 'degraded' | 'disabled' | 'probation';
+
+/** ソースの健全性の状態 */
+export interface SourceHealthRecord {
+  sourceId: string;
+  state: SourceHealthState;
+  consecutiveFailures: number;
+  /** probation中の連続成功回数 */
+  consecutiveSuccesses: number;
+  lastRunAt?: string; // ISO 8601
+  lastSuccessAt?: string; // ISO 8601
+  /** disabledになった日時（probationまでのクールダウンの起点） */
+  disabledAt?: string; // ISO 8601
+  lastError?: string;
+}
+
+/** ソースの1回の収集結果 */
+export interface SourceRunRecord {
+  sourceId: string;
+  runAt: string; // ISO 8601
+  success: boolean;
+  articleCount: number;
+  latencyMs?: number;
+  errorType?: CollectionError['errorType'];
+  errorMessage?: string;
 }
 
 /** 重複排除結果 */
@@ -0,0 +1,99 @@
+/**
+ * 統合テスト: フェイク実行
+ * FakeExecutorで 収集 → 重複排除 → 整理 → レポート出力 をネットワークなしで通しで実行する
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createFakeExecutor, loadFakeFixtures } from '../../src/collector/fake-executor.js';
+import type { AppConfig, OrganizedReport, SourcesConfig } from '../../src/types/index.js';
+
+const CONFIG_NAMES = ['sources', 'queries', 'tag-synonyms', 'dedup-thresholds', 'default'];
+const exampleConfigDir = path.join(__dirname, '../../config');
+const fixturesPath = path.join(__dirname, 'fixtures/fake-executor.json');
+
+describe('フェイク実行統合テスト', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-run-'));
+    const configDir = path.join(tmpDir, 'config');
+    fs.mkdirSync(configDir);
+    for (const name of CONFIG_NAMES) {
+      fs.copyFileSync(
+        path.join(exampleConfigDir, `${name}.example.json`),
+        path.join(configDir, `${name}.json`)
+      );
+    }
+
+    // フェイクは待ち時間がないため、ドメインごとの間隔だけテスト時間に効かないようにする
+    const sourcesPath = path.join(configDir, 'sources.json');
+    const sources = JSON.parse(fs.readFileSync(sourcesPath, 'utf-8')) as SourcesConfig;
+    sources.rateControl = { ...sources.rateControl, maxConcurrency: 4, domainMinIntervalMs: 0 };
+    fs.writeFileSync(sourcesPath, JSON.stringify(sources));
+
+    // 設定・データ・出力のディレクトリはモジュール読み込み時にcwd基準で決まるため、読み込み直す
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('Markdown・JSONレポートと実行ステータスを書き出す', async () => {
+    const { run } = await import('../../src/index.js');
+    const executor = createFakeExecutor(loadFakeFixtures(fixturesPath));
+
+    const result = await run({ executor, date: new Date('2025-01-15T03:00:00Z') });
+
+    const reportPath = path.join(tmpDir, 'output/daily-reports/2025-01-15.md');
+    expect(result.success).toBe(true);
+    expect(result.reportPath).toBe(reportPath);
+    expect(result.stats.collected).toBeGreaterThan(0);
+
+    expect(fs.readFileSync(reportPath, 'utf-8')).toContain('Building effective agents');
+    const jsonReport = JSON.parse(
+      fs.readFileSync(path.join(tmpDir, 'output/daily-reports/2025-01-15.json'), 'utf-8')
+    ) as OrganizedReport;
+    expect(jsonReport.date).toBe('2025-01-15');
+    expect(jsonReport.metadata.totalCollected).toBe(result.stats.collected);
+
+    expect(fs.existsSync(path.join(tmpDir, 'data/runs/2025-01-15/status.json'))).toBe(true);
+    expect(fs.existsSync(path.join(tmpDir, 'data/last_success.json'))).toBe(true);
+  });
+
+  it('整理中に例外が起きても履歴DBを閉じる', async () => {
+    const { run } = await import('../../src/index.js');
+    const { Deduplicator } = await import('../../src/deduplicator/index.js');
+    const close = vi.spyOn(Deduplicator.prototype, 'close');
+    const executor = createFakeExecutor(loadFakeFixtures(fixturesPath));
+    vi.spyOn(executor, 'prompt').mockRejectedValue(new Error('organizer crashed'));
+
+    await expect(run({ executor, date: new Date('2025-01-15T03:00:00Z') })).rejects.toThrow(
+      'organizer crashed'
+    );
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it('予算を使い切ったら以降のSDK呼び出しを行わずにレポートを書き出す', async () => {
+    const defaultPath = path.join(tmpDir, 'config/default.json');
+    const appConfig = JSON.parse(fs.readFileSync(defaultPath, 'utf-8')) as AppConfig;
+    fs.writeFileSync(defaultPath, JSON.stringify({ ...appConfig, budget: { maxSdkCalls: 3 } }));
+
+    const { run } = await import('../../src/index.js');
+    const executor = createFakeExecutor(loadFakeFixtures(fixturesPath));
+
+    const result = await run({ executor, date: new Date('2025-01-15T03:00:00Z') });
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toContainEqual(
+      expect.stringContaining('Skipped for budget (SDK call limit 3 reached)')
+    );
+    expect(executor.getCallCount('twitter')).toBe(0);
+    expect(fs.existsSync(path.join(tmpDir, 'output/daily-reports/2025-01-15.md'))).toBe(true);
+  });
+});
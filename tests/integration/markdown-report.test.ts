@@ -11,6 +11,7 @@ import {
   type ReportOptions,
 } from '../../src/output/markdown.js';
 import type { CategorizedArticle } from '../../src/organizer/prompts.js';
+import type { FilteredArticle } from '../../src/types/index.js';
 import {
   FIXTURE_FILTERED_ARTICLES,
   FIXTURE_COLLECTION_RESULT,
@@ -207,10 +208,47 @@ describe('Markdownレポート出力 統合テスト', () => {
       const report = generateDailyReport(options);
 
       expect(report).toMatchSnapshot();
-      expect(report).toContain("Today's Highlights");
+      expect(report).toContain("Today's Top 1");
       expect(report).toContain('今日最も重要なAI関連ニュース');
     });
 
+    it('トップ記事をランク順に理由付きで並べる', () => {
+      const categorizedArticles = new Map<string, CategorizedArticle[]>();
+      const toCategorized = (article: FilteredArticle): CategorizedArticle => ({
+        categoryId: 'llm',
+        categoryName: 'LLM/エージェント',
+        article,
+        relevanceScore: 4,
+        tags: [],
+        aiSummary: article.title,
+      });
+      const first = toCategorized(FIXTURE_FILTERED_ARTICLES[0]!);
+      const second = toCategorized(FIXTURE_FILTERED_ARTICLES[1]!);
+      categorizedArticles.set('llm', [first, second]);
+
+      const report = generateDailyReport({
+        date: FIXED_DATE,
+        collectionResult: FIXTURE_COLLECTION_RESULT,
+        deduplicationResult: FIXTURE_DEDUP_RESULT,
+        categorizedArticles,
+        categoryOrder: ['llm'],
+        topArticles: [
+          { article: second, rank: 2, reason: '2番目の理由' },
+          { article: first, rank: 1, reason: '1番目の理由' },
+        ],
+        executionTimeMs: 3000,
+      });
+
+      expect(report).toContain("## 🌟 Today's Top 2");
+      expect(report).not.toContain("Today's Highlights");
+      const rank1 = report.indexOf(`### 1. [${first.article.title}]`);
+      const rank2 = report.indexOf(`### 2. [${second.article.title}]`);
+      expect(rank1).toBeGreaterThan(-1);
+      expect(rank2).toBeGreaterThan(rank1);
+      expect(report).toContain('**LLM/エージェント** | 1番目の理由');
+      expect(report).toContain('**LLM/エージェント** | 2番目の理由');
+    });
+
     it('未分類記事を正しく処理する', () => {
       const categorizedArticles = new Map<string, CategorizedArticle[]>();
 
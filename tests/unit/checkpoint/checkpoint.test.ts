@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  createCheckpointStore,
+  isRunStage,
+  shouldRunStage,
+  type CheckpointStore,
+  type OrganizeCheckpoint,
+} from '@/checkpoint/index';
+
+describe('CheckpointStore', () => {
+  let runDir: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    runDir = join(mkdtempSync(join(tmpdir(), 'daily-reporter-runs-')), '2024-01-15');
+    store = createCheckpointStore(runDir);
+  });
+
+  it('saves and loads the collection checkpoint', () => {
+    store.saveCollection({
+      collectionResult: { articles: [], errors: [], sourceResults: [] } as never,
+      lastSuccessAt: '2024-01-14T00:00:00.000Z',
+    });
+
+    const checkpoint = store.loadCollection();
+    expect(checkpoint?.stage).toBe('collect');
+    expect(checkpoint?.data.lastSuccessAt).toBe('2024-01-14T00:00:00.000Z');
+    expect(Number.isNaN(Date.parse(checkpoint!.savedAt))).toBe(false);
+    expect(existsSync(join(runDir, 'collection.json.tmp'))).toBe(false);
+  });
+
+  it('restores Maps in the organize checkpoint', () => {
+    const data: OrganizeCheckpoint = {
+      organized: { categorizedArticles: new Map([['llm', []]]) } as never,
+      categoryOrder: ['llm'],
+      categorySummaries: new Map([['llm', { summary: '要約' }]]) as never,
+      topArticles: [],
+      llmFailed: false,
+    };
+    store.saveOrganize(data);
+
+    const loaded = store.loadOrganize()!.data;
+    expect(loaded.organized.categorizedArticles).toBeInstanceOf(Map);
+    expect(loaded.categorySummaries?.get('llm')).toEqual({ summary: '要約' });
+    expect(loaded.categoryOrder).toEqual(['llm']);
+  });
+
+  it('returns null for missing or malformed checkpoints', () => {
+    expect(store.loadDedup()).toBeNull();
+
+    store.saveDedup({ articles: [] } as never);
+    writeFileSync(join(runDir, 'organize.json'), '{not json');
+    writeFileSync(join(runDir, 'collection.json'), JSON.stringify({ stage: 'dedup', data: {} }));
+
+    expect(store.loadDedup()).not.toBeNull();
+    expect(store.loadOrganize()).toBeNull();
+    expect(store.loadCollection()).toBeNull();
+  });
+});
+
+describe('run status', () => {
+  it('writes status.json with usage next to the checkpoints', () => {
+    const runDir = join(mkdtempSync(join(tmpdir(), 'daily-reporter-runs-')), '2024-01-15');
+    const store = createCheckpointStore(runDir);
+    const usage = {
+      inputTokens: 10,
+      outputTokens: 5,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      costUsd: 0.001,
+      turns: 1,
+      invocations: 1,
+    };
+
+    expect(store.loadStatus()).toBeNull();
+    store.saveStatus({
+      date: '2024-01-15',
+      startedAt: '2024-01-15T00:00:00.000Z',
+      finishedAt: '2024-01-15T00:05:00.000Z',
+      success: true,
+      stats: { collected: 10, afterDedup: 5, freshArticles: 4, inReport: 4, executionTimeMs: 300000 },
+      usage: { total: usage, byStage: { collect: usage }, bySource: { hackernews: usage } },
+      errors: [],
+    });
+
+    expect(existsSync(join(runDir, 'status.json'))).toBe(true);
+    expect(store.loadStatus()?.usage.bySource.hackernews).toEqual(usage);
+  });
+});
+
+describe('shouldRunStage', () => {
+  it('runs the resumed stage and everything after it', () => {
+    expect(shouldRunStage('collect', 'dedup')).toBe(false);
+    expect(shouldRunStage('dedup', 'dedup')).toBe(true);
+    expect(shouldRunStage('render', 'dedup')).toBe(true);
+    expect(shouldRunStage('organize', 'render')).toBe(false);
+  });
+});
+
+describe('isRunStage', () => {
+  it('accepts known stage names only', () => {
+    expect(isRunStage('organize')).toBe(true);
+    expect(isRunStage('publish')).toBe(false);
+    expect(isRunStage(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: vi.fn() }));
+
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { createCollector, createRunBudget, type Executor, type ExecutorOptions } from '@/collector/index';
+import type { SourceConfig, SourcesConfig, SourceTier, UsageStats } from '@/types/index';
+
+function source(id: string, tier: SourceTier): SourceConfig {
+  return {
+    id,
+    name: id,
+    tier,
+    enabled: true,
+    collectMethod: 'WebFetch',
+    url: `https://example.com/${id}`,
+    dateMethod: 'html_meta',
+    maxArticles: 10,
+  };
+}
+
+function sourcesConfig(sources: SourceConfig[]): SourcesConfig {
+  return {
+    sources,
+    rateControl: {
+      maxConcurrency: 2,
+      defaultTimeout: 30000,
+      defaultRetryInterval: 10,
+      defaultMaxRetries: 0,
+      perSource: {},
+    },
+  };
+}
+
+function usage(costUsd: number): UsageStats {
+  return {
+    inputTokens: 100,
+    outputTokens: 10,
+    cacheReadInputTokens: 0,
+    cacheCreationInputTokens: 0,
+    costUsd,
+    turns: 1,
+    invocations: 1,
+  };
+}
+
+/**
+ * 呼び出しごとに1記事を返すExecutor（tier3Pendingの場合、Tier 3はabortまで応答しない）
+ */
+function createStubExecutor(options: { costUsd?: number; tier3Pending?: boolean } = {}): Executor {
+  const respond = (_target: string, _prompt: string, src: SourceConfig, executorOptions: ExecutorOptions) => {
+    if (src.tier === 3 && options.tier3Pending) {
+      return new Promise<Awaited<ReturnType<Executor['webFetch']>>>((resolve) => {
+        executorOptions.signal?.addEventListener('abort', () =>
+          resolve({
+            success: false,
+            content: '',
+            error: {
+              sourceId: src.id,
+              errorType: 'timeout',
+              message: 'Claude Code process aborted by user',
+              timestamp: new Date().toISOString(),
+              retryCount: 0,
+            },
+          })
+        );
+      });
+    }
+    executorOptions.budget?.record(usage(options.costUsd ?? 0.01));
+    return Promise.resolve({
+      success: true,
+      content: JSON.stringify([{ title: src.id, url: `https://example.com/${src.id}/1` }]),
+      usage: usage(options.costUsd ?? 0.01),
+    });
+  };
+  return { webFetch: respond, webSearch: respond, prompt: vi.fn() };
+}
+
+describe('RunBudget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is exhausted by SDK calls or cost and aborts its signal', () => {
+    const calls = createRunBudget({ maxSdkCalls: 2 });
+    calls.record(usage(0.01));
+    expect(calls.isExhausted()).toBe(false);
+    calls.record();
+    expect(calls.isExhausted()).toBe(true);
+    expect(calls.getExhaustedReason()).toBe('SDK call limit 2 reached');
+    expect(calls.getSignal().aborted).toBe(true);
+
+    const cost = createRunBudget({ maxCostUsd: 0.5 });
+    cost.record(usage(0.6));
+    expect(cost.getExhaustedReason()).toBe('cost limit $0.5000 reached');
+    expect(cost.getStats()).toMatchObject({ sdkCalls: 1, costUsd: 0.6 });
+  });
+
+  it('aborts on the wall-clock deadline measured from the run start', () => {
+    vi.useFakeTimers();
+    const budget = createRunBudget({ maxDurationMs: 600000 }, Date.now() - 599000);
+
+    expect(budget.isExhausted()).toBe(false);
+    vi.advanceTimersByTime(1000);
+
+    expect(budget.getSignal().aborted).toBe(true);
+    expect(budget.getExhaustedReason()).toBe('time limit 600s exceeded');
+  });
+});
+
+describe('Collector with a run budget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stops scheduling Tier 2/3 sources once the budget is exhausted', async () => {
+    const budget = createRunBudget({ maxSdkCalls: 2 });
+    const collector = createCollector({
+      sourcesConfig: sourcesConfig([
+        source('tier1_a', 1),
+        source('tier1_b', 1),
+        source('tier1_c', 1),
+        source('tier2', 2),
+        source('tier3', 3),
+      ]),
+      queries: [],
+      executor: createStubExecutor(),
+      budget,
+    });
+
+    const result = await collector.collectAll();
+
+    // Tier 1は予算超過後も収集する
+    expect(Object.keys(result.sourcesStatus).sort()).toEqual(['tier1_a', 'tier1_b', 'tier1_c']);
+    expect(result.skippedSources).toEqual([
+      { sourceId: 'tier2', tier: 2, reason: 'SDK call limit 2 reached' },
+      { sourceId: 'tier3', tier: 3, reason: 'SDK call limit 2 reached' },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('cancels in-flight Tier 3 work at the deadline and reports it as skipped', async () => {
+    // 実時間だとTier 3の開始前に期限が来ることがあるため、偽のタイマーで期限を進める
+    vi.useFakeTimers();
+    const budget = createRunBudget({ maxDurationMs: 50 });
+    const executor = createStubExecutor({ tier3Pending: true });
+    const webFetch = vi.spyOn(executor, 'webFetch');
+    const collector = createCollector({
+      sourcesConfig: sourcesConfig([source('tier1', 1), source('tier3', 3)]),
+      queries: [],
+      executor,
+      budget,
+    });
+
+    const pending = collector.collectAll();
+    await vi.advanceTimersByTimeAsync(50);
+    const result = await pending;
+
+    // Tier 3は開始済みで、期限のabortで中断された
+    expect(webFetch).toHaveBeenCalledTimes(2);
+
+    expect(result.sourcesStatus).toEqual({ tier1: 'success' });
+    expect(result.articles.map((a) => a.source)).toEqual(['tier1']);
+    expect(result.skippedSources).toEqual([
+      { sourceId: 'tier3', tier: 3, reason: 'time limit 0s exceeded' },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('counts every retry of a source against maxSdkCalls', async () => {
+    let calls = 0;
+    vi.mocked(query).mockImplementation(() => {
+      if (calls++ < 2) {
+        throw new Error('Network error: fetch failed');
+      }
+      return [
+        { type: 'result', subtype: 'success', result: '[{"title":"A","url":"https://example.com/a"}]', total_cost_usd: 0.01 },
+      ] as unknown as ReturnType<typeof query>;
+    });
+    const budget = createRunBudget({ maxSdkCalls: 3 });
+    // 同じドメインのため、Tier 2はTier 1の完了後に開始される
+    const collector = createCollector({
+      sourcesConfig: sourcesConfig([source('tier1', 1), source('tier2', 2)]),
+      queries: [],
+      budget,
+    });
+
+    const result = await collector.collectAll();
+
+    // Tier 1のリトライ2回を含めて3回呼び出し、予算を使い切った
+    expect(query).toHaveBeenCalledTimes(3);
+    expect(budget.getStats()).toMatchObject({ sdkCalls: 3, costUsd: 0.01 });
+    expect(result.sourcesStatus).toEqual({ tier1: 'success' });
+    expect(result.skippedSources).toEqual([
+      { sourceId: 'tier2', tier: 2, reason: 'SDK call limit 3 reached' },
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: vi.fn() }));
+
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { executePrompt, executeWebFetch, type ExecutorOptions } from '@/collector/sdk-executor';
+import { computeCassetteHash, type CassetteEntry } from '@/collector/cassette';
+import type { SourceConfig } from '@/types/index';
+
+const rateControl: ExecutorOptions['rateControl'] = {
+  maxConcurrency: 1,
+  defaultTimeout: 30000,
+  defaultRetryInterval: 10,
+  defaultMaxRetries: 1,
+  perSource: {},
+};
+
+const source = { id: 'hacker_news', tier: 1 } as SourceConfig;
+
+function mockResponse(result: string): void {
+  vi.mocked(query).mockImplementation(
+    () =>
+      [
+        {
+          type: 'result',
+          subtype: 'success',
+          result,
+          num_turns: 2,
+          total_cost_usd: 0.015,
+          usage: {
+            input_tokens: 1000,
+            output_tokens: 200,
+            cache_read_input_tokens: 50,
+            cache_creation_input_tokens: 0,
+          },
+        },
+      ] as unknown as ReturnType<typeof query>
+  );
+}
+
+describe('SDK executor cassettes', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    vi.mocked(query).mockReset();
+    directory = mkdtempSync(join(tmpdir(), 'daily-reporter-cassettes-'));
+  });
+
+  it('records prompt/response pairs with source, tools and hash', async () => {
+    mockResponse('[{"title":"A"}]');
+
+    const result = await executeWebFetch('https://news.ycombinator.com/', 'Extract articles', source, {
+      rateControl,
+      cassette: { mode: 'record', directory },
+    });
+
+    expect(result).toEqual({
+      success: true,
+      content: '[{"title":"A"}]',
+      usage: {
+        inputTokens: 1000,
+        outputTokens: 200,
+        cacheReadInputTokens: 50,
+        cacheCreationInputTokens: 0,
+        costUsd: 0.015,
+        turns: 2,
+        invocations: 1,
+      },
+    });
+    const files = readdirSync(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^hacker_news-[0-9a-f]{16}\.json$/);
+
+    const entry = JSON.parse(readFileSync(join(directory, files[0]!), 'utf-8')) as CassetteEntry;
+    expect(entry.sourceId).toBe('hacker_news');
+    expect(entry.tools).toEqual(['WebFetch']);
+    expect(entry.hash).toBe(computeCassetteHash(entry.prompt, ['WebFetch']));
+    expect(entry.prompt).toContain('URL: https://news.ycombinator.com/');
+    expect(entry.response).toBe('[{"title":"A"}]');
+  });
+
+  it('replays recorded responses without calling the SDK', async () => {
+    mockResponse('categorized');
+    await executePrompt('Categorize these', 'organizer', {
+      rateControl,
+      cassette: { mode: 'record', directory },
+    });
+    vi.mocked(query).mockReset();
+
+    const result = await executePrompt('Categorize these', 'organizer', {
+      rateControl,
+      cassette: { mode: 'replay', directory },
+    });
+
+    expect(result).toEqual({ success: true, content: 'categorized' });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('fails without retrying when no cassette matches in replay mode', async () => {
+    const result = await executeWebFetch('https://example.com/', 'Extract articles', source, {
+      rateControl,
+      cassette: { mode: 'replay', directory },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toMatch(/^No cassette recorded for hacker_news \([0-9a-f]{16}\)/);
+    expect(result.error?.retryCount).toBe(0);
+    expect(query).not.toHaveBeenCalled();
+  });
+});
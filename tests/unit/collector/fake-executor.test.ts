@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+
+import { createRunBudget } from '@/collector/budget';
+import { createCollector } from '@/collector/index';
+import { createFakeExecutor, loadFakeFixtures } from '@/collector/fake-executor';
+import { loadSourcesConfig } from '@/config/loader';
+import type { SourcesConfig } from '@/types/index';
+
+const fixturesPath = join(__dirname, '../../integration/fixtures/fake-executor.json');
+
+function loadExampleSources(): SourcesConfig {
+  const config = loadSourcesConfig(join(__dirname, '../../../config/sources.example.json'));
+  return { ...config, rateControl: { ...config.rateControl, maxConcurrency: 4 } };
+}
+
+describe('FakeExecutor', () => {
+  it('collects every example source offline with realistic failures', async () => {
+    const executor = createFakeExecutor(loadFakeFixtures(fixturesPath));
+    const collector = createCollector({ sourcesConfig: loadExampleSources(), queries: [], executor });
+
+    const result = await collector.collectAll();
+
+    expect(result.sourcesStatus).toMatchObject({
+      claude_blog: 'success',
+      anthropic_blog: 'success',
+      hackernews: 'success',
+      zenn: 'success',
+      qiita: 'success',
+      techcrunch: 'partial',
+      hatena_dev: 'partial',
+      twitter: 'partial',
+    });
+    expect(result.articles.map((a) => a.url)).toContain(
+      'https://www.anthropic.com/engineering/building-effective-agents'
+    );
+    // 壊れた出力はJSON修復プロンプトで再取得される
+    expect(executor.getCallCount('anthropic_blog')).toBe(2);
+    // 途中で切れたJSONはLLMを呼ばずにローカルで修復される
+    expect(executor.getCallCount('qiita')).toBe(1);
+    expect(result.articles.map((a) => a.url)).toContain('https://qiita.com/example/items/1');
+
+    const errorsBySource = new Map(result.errors.map((e) => [e.sourceId, e]));
+    expect(errorsBySource.get('techcrunch')).toMatchObject({ errorType: 'timeout', retryCount: 1 });
+    expect(errorsBySource.get('arxiv')?.errorType).toBe('rate_limit');
+    expect(errorsBySource.get('hatena_dev')?.errorType).toBe('parse');
+    expect(executor.getCallCount('hatena_dev')).toBe(2);
+    expect(errorsBySource.get('twitter')).toMatchObject({
+      message: 'Claude Code process aborted by user',
+      retryCount: 0,
+    });
+  });
+
+  it('steps through sequential responses and repeats the last one', async () => {
+    const executor = createFakeExecutor({
+      organizer: [{ error: 'timeout' }, { content: '{"categorized": []}' }],
+    });
+    const options = { rateControl: loadExampleSources().rateControl };
+
+    const first = await executor.prompt('p', 'organizer', options);
+    const second = await executor.prompt('p', 'organizer', options);
+    const third = await executor.prompt('p', 'organizer', options);
+
+    expect(first.error).toMatchObject({ errorType: 'timeout', retryCount: 1 });
+    expect(second).toEqual({ success: true, content: '{"categorized": []}' });
+    expect(third).toEqual(second);
+  });
+
+  it('fails calls without a fixture', async () => {
+    const executor = createFakeExecutor({});
+    const result = await executor.prompt('p', 'digest', { rateControl: loadExampleSources().rateControl });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('No fake response for digest');
+  });
+
+  it('does not answer or charge the budget once the signal is aborted', async () => {
+    const executor = createFakeExecutor({
+      organizer: [{ content: 'first' }, { content: 'second' }],
+    });
+    const budget = createRunBudget({ maxSdkCalls: 1 });
+    const options = {
+      rateControl: loadExampleSources().rateControl,
+      budget,
+      signal: budget.getSignal(),
+    };
+
+    const first = await executor.prompt('p', 'organizer', options);
+    const second = await executor.prompt('p', 'organizer', options);
+
+    expect(first).toEqual({ success: true, content: 'first' });
+    expect(second.error).toMatchObject({
+      message: 'Operation aborted before start',
+      retryCount: 0,
+    });
+    expect(executor.getCallCount('organizer')).toBe(1);
+    expect(budget.getStats().sdkCalls).toBe(1);
+  });
+});
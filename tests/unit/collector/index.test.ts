@@ -3,10 +3,12 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 vi.mock('@/collector/sdk-executor', () => ({
   executeWebFetch: vi.fn(),
   executeWebSearch: vi.fn(),
+  executePrompt: vi.fn(),
 }));
 
+import { createCircuitBreaker } from '@/collector/circuit-breaker';
 import { createCollector } from '@/collector/index';
-import { executeWebFetch } from '@/collector/sdk-executor';
+import { executePrompt, executeWebFetch } from '@/collector/sdk-executor';
 import type { GeneratedQuery, SourceConfig, SourcesConfig } from '@/types/index';
 
 const queries: GeneratedQuery[] = [
@@ -44,6 +46,7 @@ function buildSourcesConfig(sources: SourceConfig[]): SourcesConfig {
 
 describe('Collector', () => {
   const mockedExecuteWebFetch = vi.mocked(executeWebFetch);
+  const mockedExecutePrompt = vi.mocked(executePrompt);
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -89,7 +92,7 @@ describe('Collector', () => {
       content: 'The extraction completed. Here are major topics without JSON.',
     });
 
-    mockedExecuteWebFetch.mockResolvedValueOnce({
+    mockedExecutePrompt.mockResolvedValueOnce({
       success: true,
       content: '{"articles":[{"title":"Anthropic update","url":"https://www.anthropic.com/news/a"}]}',
     });
@@ -101,14 +104,16 @@ describe('Collector', () => {
 
     const result = await collector.collectFromSource(source);
 
-    expect(mockedExecuteWebFetch).toHaveBeenCalledTimes(2);
-    expect(mockedExecuteWebFetch.mock.calls[1]?.[1]).toContain('JSON');
+    expect(mockedExecuteWebFetch).toHaveBeenCalledTimes(1);
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(1);
+    expect(mockedExecutePrompt.mock.calls[0]?.[0]).toContain('JSON');
+    expect(mockedExecutePrompt.mock.calls[0]?.[1]).toBe('anthropic_blog');
     expect(result.error).toBeUndefined();
     expect(result.articles).toHaveLength(1);
     expect(result.articles[0]?.source).toBe('anthropic_blog');
   });
 
-  it('does not retry strict JSON repair for non-anthropic sources', async () => {
+  it('retries strict JSON repair for other sources too', async () => {
     const source: SourceConfig = {
       id: 'cursor_blog',
       name: 'Cursor Blog',
@@ -125,6 +130,11 @@ describe('Collector', () => {
       content: 'Not in JSON format',
     });
 
+    mockedExecutePrompt.mockResolvedValueOnce({
+      success: true,
+      content: 'Still not in JSON format',
+    });
+
     const collector = createCollector({
       sourcesConfig: buildSourcesConfig([source]),
       queries,
@@ -132,7 +142,93 @@ describe('Collector', () => {
 
     const result = await collector.collectFromSource(source);
 
-    expect(mockedExecuteWebFetch).toHaveBeenCalledTimes(1);
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(1);
     expect(result.error?.errorType).toBe('parse');
+    expect(result.error?.message).toContain('JSON repair failed');
+  });
+
+  it('repairs trailing commas locally without calling the LLM', async () => {
+    const source: SourceConfig = {
+      id: 'zenn',
+      name: 'Zenn',
+      tier: 2,
+      enabled: true,
+      collectMethod: 'WebFetch',
+      url: 'https://zenn.dev/',
+      dateMethod: 'html_meta',
+      maxArticles: 5,
+    };
+
+    mockedExecuteWebFetch.mockResolvedValueOnce({
+      success: true,
+      content: '```json\n{"articles":[{"title":"Zenn post","url":"https://zenn.dev/a",},]}\n```',
+    });
+
+    const collector = createCollector({
+      sourcesConfig: buildSourcesConfig([source]),
+      queries,
+    });
+
+    const result = await collector.collectFromSource(source);
+
+    expect(mockedExecutePrompt).not.toHaveBeenCalled();
+    expect(result.error).toBeUndefined();
+    expect(result.articles.map((a) => a.url)).toEqual(['https://zenn.dev/a']);
+  });
+
+  it('shares the circuit breaker so a rerun collector does not call an open-circuit source', async () => {
+    const source: SourceConfig = {
+      id: 'zenn',
+      name: 'Zenn',
+      tier: 2,
+      enabled: true,
+      collectMethod: 'WebFetch',
+      url: 'https://zenn.dev/',
+      dateMethod: 'html_meta',
+      maxArticles: 5,
+    };
+    let sdkCalls = 0;
+
+    // 実際のexecutorと同様に、回路が開いていればSDKを呼ばずに失敗する
+    mockedExecuteWebFetch.mockImplementation((_url, _prompt, target, options) => {
+      if (options.circuitBreaker?.isOpen(target.id)) {
+        return Promise.resolve({
+          success: false,
+          content: '',
+          error: {
+            sourceId: target.id,
+            errorType: 'timeout',
+            message: `Circuit open for ${target.id}`,
+            timestamp: new Date().toISOString(),
+            retryCount: 0,
+          },
+        });
+      }
+      sdkCalls++;
+      options.circuitBreaker?.recordTimeout(target.id);
+      return Promise.resolve({
+        success: false,
+        content: '',
+        error: {
+          sourceId: target.id,
+          errorType: 'timeout',
+          message: 'request timeout',
+          timestamp: new Date().toISOString(),
+          retryCount: 0,
+        },
+      });
+    });
+
+    const sourcesConfig = buildSourcesConfig([source]);
+    const circuitBreaker = createCircuitBreaker(1);
+    const first = createCollector({ sourcesConfig, queries, circuitBreaker });
+    await first.collectAll();
+
+    const rerun = createCollector({ sourcesConfig, queries, circuitBreaker });
+    const result = await rerun.collectAll();
+
+    expect(sdkCalls).toBe(1);
+    expect(mockedExecuteWebFetch.mock.calls[1]?.[3].circuitBreaker).toBe(circuitBreaker);
+    expect(result.errors[0]?.message).toBe('Circuit open for zenn');
   });
 });
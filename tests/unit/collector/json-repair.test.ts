@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  createCollector,
+  parseWithLocalRepair,
+  repairJsonText,
+  resolveJsonRepairPolicy,
+  type Executor,
+} from '@/collector/index';
+import type { SourceConfig, SourcesConfig } from '@/types/index';
+
+describe('repairJsonText', () => {
+  it('removes trailing commas before closing brackets', () => {
+    expect(repairJsonText('{"articles": [{"title": "A", "url": "https://a.example/1",},]}')).toBe(
+      '{"articles": [{"title": "A", "url": "https://a.example/1"}]}'
+    );
+  });
+
+  it('replaces smart quotes used as delimiters but keeps them inside strings', () => {
+    const repaired = repairJsonText('{“title”: “A “quoted” title”, "note": "he said “hi”"}');
+    expect(JSON.parse(repaired ?? '')).toEqual({ title: 'A “quoted” title', note: 'he said “hi”' });
+  });
+
+  it('cuts truncated output back to the last complete value and closes it', () => {
+    const repaired = repairJsonText(
+      '{"articles": [{"title": "A", "url": "https://a.example/1"}, {"title": "B", "url": "https://a.exa'
+    );
+    expect(JSON.parse(repaired ?? '')).toEqual({
+      articles: [{ title: 'A', url: 'https://a.example/1' }, { title: 'B' }],
+    });
+  });
+
+  it('escapes raw newlines in strings and ignores text after the closing bracket', () => {
+    expect(repairJsonText('{"summary": "line1\nline2"}\n以上です。')).toBe(
+      '{"summary": "line1\\nline2"}'
+    );
+  });
+
+  it('returns null when nothing can be recovered', () => {
+    expect(repairJsonText('{"articles": [}')).toBeNull();
+    expect(repairJsonText('{"articles": [{"title": "A')).toBeNull();
+  });
+});
+
+describe('parseWithLocalRepair', () => {
+  it('repairs an unterminated fenced block in a prose response', () => {
+    const raw =
+      '記事は以下です。\n```json\n{"articles": [{"title": "A", "url": "https://a.example/1"},';
+    expect(parseWithLocalRepair(raw, 'zenn')?.articles.map((a) => a.url)).toEqual([
+      'https://a.example/1',
+    ]);
+  });
+
+  it('returns null for responses without JSON', () => {
+    expect(parseWithLocalRepair('記事が見つかりませんでした。', 'zenn')).toBeNull();
+  });
+});
+
+describe('resolveJsonRepairPolicy', () => {
+  it('enables local repair and one LLM attempt by default', () => {
+    expect(resolveJsonRepairPolicy()).toEqual({ local: true, maxAttempts: 1, model: undefined });
+    expect(resolveJsonRepairPolicy({ maxAttempts: -1, model: 'haiku' })).toEqual({
+      local: true,
+      maxAttempts: 0,
+      model: 'haiku',
+    });
+  });
+});
+
+describe('Collector JSON repair policy', () => {
+  const source = (jsonRepair?: SourceConfig['jsonRepair']): SourceConfig => ({
+    id: 'arxiv',
+    name: 'arXiv',
+    tier: 2,
+    enabled: true,
+    collectMethod: 'WebSearch',
+    query: 'site:arxiv.org',
+    dateMethod: 'search_result',
+    maxArticles: 10,
+    jsonRepair,
+  });
+
+  const sourcesConfig = (src: SourceConfig): SourcesConfig => ({
+    sources: [src],
+    rateControl: {
+      maxConcurrency: 1,
+      defaultTimeout: 30000,
+      defaultRetryInterval: 10,
+      defaultMaxRetries: 0,
+      perSource: {},
+    },
+  });
+
+  /**
+   * 収集では壊れた出力を返し、修復プロンプトにはrepairResponsesを順に返すExecutor
+   */
+  function createRepairExecutor(
+    repairResponses: string[]
+  ): Executor & { models: (string | undefined)[] } {
+    const models: (string | undefined)[] = [];
+    return {
+      models,
+      webFetch: () => Promise.resolve({ success: true, content: 'no json here' }),
+      webSearch: () => Promise.resolve({ success: true, content: 'no json here' }),
+      prompt: (_prompt, _label, options) => {
+        models.push(options.model);
+        return Promise.resolve({
+          success: true,
+          content: repairResponses[models.length - 1] ?? 'still no json',
+        });
+      },
+    };
+  }
+
+  it('retries LLM repair up to maxAttempts with the configured model', async () => {
+    const executor = createRepairExecutor([
+      'still no json',
+      '{"articles": [{"title": "A", "url": "https://arxiv.org/abs/1"}]}',
+    ]);
+    const src = source({ maxAttempts: 2, model: 'claude-haiku' });
+    const collector = createCollector({ sourcesConfig: sourcesConfig(src), queries: [], executor });
+
+    const result = await collector.collectFromSource(src);
+
+    expect(executor.models).toEqual(['claude-haiku', 'claude-haiku']);
+    expect(result.articles.map((a) => a.url)).toEqual(['https://arxiv.org/abs/1']);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('skips LLM repair when maxAttempts is 0', async () => {
+    const executor = createRepairExecutor([]);
+    const src = source({ maxAttempts: 0 });
+    const collector = createCollector({ sourcesConfig: sourcesConfig(src), queries: [], executor });
+
+    const result = await collector.collectFromSource(src);
+
+    expect(executor.models).toEqual([]);
+    expect(result.error?.errorType).toBe('parse');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+
+import { createWorkerPool, getDomainLimit, getSourceDomain } from '@/collector/scheduler';
+import type { RateControlConfig, SourceConfig } from '@/types/index';
+
+const rateControl: RateControlConfig = {
+  maxConcurrency: 2,
+  defaultTimeout: 30000,
+  defaultRetryInterval: 10,
+  defaultMaxRetries: 0,
+  perSource: {},
+  domainConcurrency: 2,
+  domainMinIntervalMs: 1000,
+  perDomain: { 'qiita.com': { minIntervalMs: 5000 } },
+};
+
+interface Deferred {
+  promise: Promise<string>;
+  resolve: (value: string) => void;
+}
+
+function deferred(): Deferred {
+  let resolve: (value: string) => void = () => undefined;
+  const promise = new Promise<string>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const tick = (): Promise<void> => new Promise((r) => setTimeout(r, 0));
+
+describe('getSourceDomain', () => {
+  it('uses the WebFetch host without www and ignores WebSearch sources', () => {
+    const base = { id: 's', name: 's', tier: 1, enabled: true, dateMethod: 'html_meta', maxArticles: 5 } as const;
+    const fetch: SourceConfig = { ...base, collectMethod: 'WebFetch', url: 'https://WWW.Anthropic.com/news' };
+    const search: SourceConfig = { ...base, collectMethod: 'WebSearch', query: 'claude' };
+
+    expect(getSourceDomain(fetch)).toBe('anthropic.com');
+    expect(getSourceDomain(search)).toBeNull();
+  });
+});
+
+describe('getDomainLimit', () => {
+  it('prefers per-domain overrides over the defaults', () => {
+    expect(getDomainLimit('qiita.com', rateControl)).toEqual({ maxConcurrency: 2, minIntervalMs: 5000 });
+    expect(getDomainLimit('zenn.dev', rateControl)).toEqual({ maxConcurrency: 2, minIntervalMs: 1000 });
+    expect(getDomainLimit('zenn.dev', { ...rateControl, domainConcurrency: undefined, domainMinIntervalMs: undefined }))
+      .toEqual({ maxConcurrency: 1, minIntervalMs: 0 });
+  });
+});
+
+describe('WorkerPool', () => {
+  it('starts the next task as soon as any worker is free', async () => {
+    const tasks: Record<string, Deferred> = { slow: deferred(), a: deferred(), b: deferred() };
+    const started: string[] = [];
+    const pool = createWorkerPool({ concurrency: 2, getDomainLimit: () => ({ maxConcurrency: 1, minIntervalMs: 0 }) });
+
+    const run = pool.run(['slow', 'a', 'b'], () => null, (id) => {
+      started.push(id);
+      return tasks[id]?.promise ?? Promise.reject(new Error(id));
+    });
+
+    await tick();
+    expect(started).toEqual(['slow', 'a']);
+    tasks.a?.resolve('a');
+    await tick();
+    // slowの完了を待たずにbが始まる
+    expect(started).toEqual(['slow', 'a', 'b']);
+
+    tasks.b?.resolve('b');
+    tasks.slow?.resolve('slow');
+    expect((await run).map((r) => r.status === 'fulfilled' && r.value)).toEqual(['slow', 'a', 'b']);
+  });
+
+  it('caps concurrency per domain and lets other domains go ahead in queue order', async () => {
+    const tasks: Record<string, Deferred> = { a1: deferred(), a2: deferred(), b1: deferred() };
+    const started: string[] = [];
+    const pool = createWorkerPool({ concurrency: 3, getDomainLimit: () => ({ maxConcurrency: 1, minIntervalMs: 0 }) });
+
+    const run = pool.run(['a1', 'a2', 'b1'], (id) => id.charAt(0), (id) => {
+      started.push(id);
+      return tasks[id]?.promise ?? Promise.reject(new Error(id));
+    });
+
+    await tick();
+    expect(started).toEqual(['a1', 'b1']);
+    tasks.a1?.resolve('a1');
+    await tick();
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+
+    tasks.a2?.resolve('a2');
+    tasks.b1?.resolve('b1');
+    await run;
+  });
+
+  it('spaces task starts on the same domain', async () => {
+    const startedAt: number[] = [];
+    const pool = createWorkerPool({ concurrency: 2, getDomainLimit: () => ({ maxConcurrency: 2, minIntervalMs: 40 }) });
+
+    await pool.run([1, 2], () => 'example.com', () => {
+      startedAt.push(Date.now());
+      return Promise.resolve();
+    });
+
+    expect((startedAt[1] ?? 0) - (startedAt[0] ?? 0)).toBeGreaterThanOrEqual(35);
+  });
+
+  it('returns results in input order and captures failures', async () => {
+    const pool = createWorkerPool({ concurrency: 2, getDomainLimit: () => ({ maxConcurrency: 1, minIntervalMs: 0 }) });
+
+    const results = await pool.run([1, 2, 3], () => null, (n) => {
+      if (n === 2) throw new Error('boom');
+      return Promise.resolve(n * 10);
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 10 });
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('boom') });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 30 });
+    expect(await pool.run([], () => null, () => Promise.resolve())).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({ query: vi.fn() }));
+
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import {
+  executeWebFetch,
+  getBackoffDelay,
+  getRetryAfterMs,
+  type ExecutorOptions,
+} from '@/collector/sdk-executor';
+import { createCircuitBreaker } from '@/collector/circuit-breaker';
+import { createRunBudget } from '@/collector/budget';
+import type { SourceConfig } from '@/types/index';
+
+const rateControl: ExecutorOptions['rateControl'] = {
+  maxConcurrency: 1,
+  defaultTimeout: 30000,
+  defaultRetryInterval: 1,
+  defaultMaxRetries: 3,
+  perSource: {},
+};
+
+const source = { id: 'hacker_news', tier: 1 } as SourceConfig;
+const url = 'https://news.ycombinator.com/';
+
+/**
+ * 呼び出しごとに順に失敗させ、最後に成功する応答を返す
+ */
+function mockFailures(...errors: Error[]): void {
+  let calls = 0;
+  vi.mocked(query).mockImplementation(() => {
+    const error = errors[calls++];
+    if (error) {
+      throw error;
+    }
+    return [{ type: 'result', subtype: 'success', result: '[]' }] as unknown as ReturnType<typeof query>;
+  });
+}
+
+describe('getBackoffDelay', () => {
+  it('doubles per attempt with jitter in the upper half and caps at the maximum', () => {
+    expect(getBackoffDelay(0, 1000, 60000, () => 0)).toBe(500);
+    expect(getBackoffDelay(2, 1000, 60000, () => 0)).toBe(2000);
+    expect(getBackoffDelay(2, 1000, 60000, () => 0.999)).toBe(3998);
+    expect(getBackoffDelay(10, 1000, 60000, () => 0)).toBe(30000);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads Retry-After from headers or the error message', () => {
+    expect(getRetryAfterMs(Object.assign(new Error('429'), { headers: { 'retry-after': '12' } }))).toBe(12000);
+    expect(getRetryAfterMs(new Error('Rate limited, retry after 30 seconds'))).toBe(30000);
+    expect(getRetryAfterMs(new Error('429 Too Many Requests (retry-after: 1.5)'))).toBe(1500);
+    expect(getRetryAfterMs(new Error('Overloaded, please try again in 2 minutes'))).toBe(120000);
+    expect(getRetryAfterMs(new Error('retry after 250ms'))).toBe(250);
+    expect(getRetryAfterMs(new Error('Network error'))).toBeNull();
+  });
+});
+
+describe('executeWithRetry', () => {
+  beforeEach(() => {
+    vi.mocked(query).mockReset();
+  });
+
+  it('does not retry parse errors', async () => {
+    mockFailures(new Error('Failed to parse JSON output'));
+
+    const result = await executeWebFetch(url, 'Extract', source, { rateControl });
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(result.error).toMatchObject({ errorType: 'parse', retryCount: 0 });
+  });
+
+  it('waits for Retry-After before retrying rate limits', async () => {
+    mockFailures(new Error('429 rate limit exceeded, retry after 50ms'));
+
+    const startedAt = Date.now();
+    const result = await executeWebFetch(url, 'Extract', source, { rateControl });
+
+    expect(result.success).toBe(true);
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+
+  it('gives up when Retry-After exceeds the maximum retry interval', async () => {
+    mockFailures(new Error('429 rate limit exceeded, retry after 120 seconds'));
+
+    const result = await executeWebFetch(url, 'Extract', source, { rateControl });
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(result.error).toMatchObject({ errorType: 'rate_limit', retryCount: 0 });
+  });
+
+  it('records every attempt in the budget and keeps the usage of failed attempts', async () => {
+    let calls = 0;
+    vi.mocked(query).mockImplementation(() => {
+      calls++;
+      return (function* () {
+        yield { type: 'result', subtype: calls === 1 ? 'error_during_execution' : 'success', result: '[]', total_cost_usd: 0.02, num_turns: 1 };
+        if (calls === 1) {
+          throw new Error('Network error: connection reset');
+        }
+      })() as unknown as ReturnType<typeof query>;
+    });
+    const budget = createRunBudget({ maxSdkCalls: 10 });
+
+    const result = await executeWebFetch(url, 'Extract', source, { rateControl, budget });
+
+    expect(result.success).toBe(true);
+    expect(budget.getStats()).toMatchObject({ sdkCalls: 2, costUsd: 0.04 });
+    expect(result.usage).toMatchObject({ costUsd: 0.04, invocations: 2, turns: 2 });
+  });
+
+  it('opens the circuit after consecutive timeouts and skips the source afterwards', async () => {
+    const timeout = (): Error => new Error('Claude Code process aborted by user');
+    mockFailures(timeout(), timeout(), timeout(), timeout());
+    const circuitBreaker = createCircuitBreaker(2);
+
+    const first = await executeWebFetch(url, 'Extract', source, { rateControl, circuitBreaker });
+    const second = await executeWebFetch(url, 'Extract', source, { rateControl, circuitBreaker });
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(first.error).toMatchObject({ errorType: 'timeout', retryCount: 1 });
+    expect(second.error).toMatchObject({
+      errorType: 'timeout',
+      message: 'Circuit open for hacker_news: 2 consecutive timeouts',
+      retryCount: 0,
+    });
+    expect(circuitBreaker.getOpenSources()).toEqual(['hacker_news']);
+  });
+
+  it('resets the timeout count on success', async () => {
+    const circuitBreaker = createCircuitBreaker(2);
+    mockFailures(new Error('Request timeout'));
+
+    const result = await executeWebFetch(url, 'Extract', source, { rateControl, circuitBreaker });
+
+    expect(result.success).toBe(true);
+    expect(circuitBreaker.recordTimeout('hacker_news')).toBe(false);
+  });
+});
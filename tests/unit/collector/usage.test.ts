@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  addUsage,
+  buildUsageRows,
+  buildUsageSummary,
+  createEmptyUsage,
+  formatCost,
+} from '@/collector/usage';
+import type { UsageStats } from '@/types/index';
+
+function usage(costUsd: number, inputTokens: number = 100): UsageStats {
+  return { ...createEmptyUsage(), inputTokens, outputTokens: 10, costUsd, turns: 1, invocations: 1 };
+}
+
+describe('buildUsageSummary', () => {
+  it('aggregates per source into the collect stage and the run total', () => {
+    const summary = buildUsageSummary(
+      { hackernews: usage(0.01), zenn: usage(0.02, 300) },
+      usage(0.05, 1000)
+    );
+
+    expect(summary.byStage.collect).toMatchObject({ inputTokens: 400, costUsd: 0.03, invocations: 2 });
+    expect(summary.byStage.organize?.inputTokens).toBe(1000);
+    expect(summary.total).toMatchObject({ inputTokens: 1400, outputTokens: 30, turns: 3, invocations: 3 });
+    expect(summary.total.costUsd).toBeCloseTo(0.08);
+  });
+
+  it('omits the organize stage for simple reports', () => {
+    expect(Object.keys(buildUsageSummary({}).byStage)).toEqual(['collect']);
+  });
+});
+
+describe('buildUsageRows', () => {
+  it('lists stages, sources by cost, then the total', () => {
+    const summary = buildUsageSummary({ cheap: usage(0.01), costly: usage(0.1) });
+    expect(buildUsageRows(summary).map(([scope]) => scope)).toEqual([
+      'Stage: collect',
+      'Source: costly',
+      'Source: cheap',
+      'Total',
+    ]);
+  });
+});
+
+describe('addUsage', () => {
+  it('ignores missing usage', () => {
+    const base = usage(0.01);
+    expect(addUsage(base, undefined)).toBe(base);
+  });
+});
+
+describe('formatCost', () => {
+  it('formats USD with four decimals', () => {
+    expect(formatCost(0.01234)).toBe('$0.0123');
+  });
+});
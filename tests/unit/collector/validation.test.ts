@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  createCollector,
+  getAllowedDomains,
+  isAllowedDomain,
+  isValidIsoDate,
+  summarizeArticleDiagnostics,
+  validateArticle,
+  validateArticles,
+  type Executor,
+} from '@/collector/index';
+import type { RawArticle, SourceConfig, SourcesConfig } from '@/types/index';
+
+const source: SourceConfig = {
+  id: 'zenn',
+  name: 'Zenn',
+  tier: 2,
+  enabled: true,
+  collectMethod: 'WebFetch',
+  url: 'https://zenn.dev/topics/ai',
+  dateMethod: 'html_meta',
+  maxArticles: 10,
+};
+
+function article(overrides: Partial<RawArticle>): RawArticle {
+  return { title: 'Article', url: 'https://zenn.dev/a/articles/1', source: 'zenn', ...overrides };
+}
+
+describe('isValidIsoDate', () => {
+  it('accepts ISO 8601 dates and date-times only', () => {
+    expect(isValidIsoDate('2024-02-14')).toBe(true);
+    expect(isValidIsoDate('2024-02-14T09:30:00.000Z')).toBe(true);
+    expect(isValidIsoDate('2024-02-14T09:30+09:00')).toBe(true);
+    expect(isValidIsoDate('2024-13-01')).toBe(false);
+    expect(isValidIsoDate('2024-02-14 09:30')).toBe(false);
+    expect(isValidIsoDate('Feb 14, 2024')).toBe(false);
+    expect(isValidIsoDate('3 hours ago')).toBe(false);
+  });
+});
+
+describe('validateArticle', () => {
+  it('keeps valid articles unchanged', () => {
+    const input = article({ publishedAt: '2024-02-14T09:30:00Z', summary: '概要' });
+    expect(validateArticle(input, source)).toEqual({ article: input, diagnostics: [] });
+  });
+
+  it('resolves relative URLs against the source URL', () => {
+    const result = validateArticle(article({ url: '/a/articles/2' }), source);
+
+    expect(result.article?.url).toBe('https://zenn.dev/a/articles/2');
+    expect(result.diagnostics).toEqual([
+      {
+        sourceId: 'zenn',
+        article: '/a/articles/2',
+        field: 'url',
+        issue: 'relative_url',
+        action: 'fixed',
+        value: '/a/articles/2',
+        message: 'Resolved against https://zenn.dev/topics/ai',
+      },
+    ]);
+  });
+
+  it('rejects relative URLs when the source has no URL to resolve against', () => {
+    const searchSource = { ...source, collectMethod: 'WebSearch' as const, url: undefined };
+    const result = validateArticle(article({ url: 'articles/2' }), searchSource);
+
+    expect(result.article).toBeNull();
+    expect(result.diagnostics[0]).toMatchObject({
+      field: 'url',
+      issue: 'relative_url',
+      action: 'rejected',
+    });
+  });
+
+  it('rejects unsupported schemes and literal null values', () => {
+    expect(
+      validateArticle(article({ url: 'javascript:alert(1)' }), source).diagnostics[0]
+    ).toMatchObject({
+      issue: 'unsupported_scheme',
+      action: 'rejected',
+    });
+
+    const result = validateArticle(article({ title: 'null', url: 'undefined' }), source);
+    expect(result.article).toBeNull();
+    expect(result.diagnostics.map((d) => [d.field, d.issue])).toEqual([
+      ['title', 'null_literal'],
+      ['url', 'null_literal'],
+    ]);
+  });
+
+  it('drops literal null optional fields and non-ISO dates', () => {
+    const result = validateArticle(
+      article({ summary: 'null', publishedAt: '3 hours ago' }),
+      source
+    );
+
+    expect(result.article).toMatchObject({
+      summary: undefined,
+      publishedAt: undefined,
+      dateMetaContent: '3 hours ago',
+    });
+    expect(result.diagnostics.map((d) => [d.field, d.issue, d.action])).toEqual([
+      ['summary', 'null_literal', 'dropped'],
+      ['publishedAt', 'invalid_date', 'dropped'],
+    ]);
+  });
+});
+
+describe('getAllowedDomains', () => {
+  it('derives domains from the fetch URL, site: queries and allowedDomains', () => {
+    expect(getAllowedDomains({ ...source, url: 'https://www.anthropic.com/news' })).toEqual([
+      'anthropic.com',
+    ]);
+    expect(
+      getAllowedDomains({
+        ...source,
+        collectMethod: 'WebSearch',
+        url: undefined,
+        query: 'site:openai.com/news OR site:www.techcrunch.com ("LLM")',
+        allowedDomains: ['https://GitHub.com/', 'openai.com'],
+      })
+    ).toEqual(['openai.com', 'techcrunch.com', 'github.com']);
+    expect(getAllowedDomains({ ...source, collectMethod: 'WebSearch', url: undefined })).toEqual(
+      []
+    );
+  });
+});
+
+describe('isAllowedDomain', () => {
+  it('accepts the domain and its subdomains only', () => {
+    expect(isAllowedDomain('https://www.zenn.dev/a', ['zenn.dev'])).toBe(true);
+    expect(isAllowedDomain('https://static.zenn.dev/a', ['zenn.dev'])).toBe(true);
+    expect(isAllowedDomain('https://notzenn.dev/a', ['zenn.dev'])).toBe(false);
+    expect(isAllowedDomain('https://zenn.dev.example.com/a', ['zenn.dev'])).toBe(false);
+  });
+});
+
+describe('off-domain URLs', () => {
+  it('quarantines articles outside the allowed domains by default', () => {
+    const result = validateArticle(
+      article({ url: 'https://zen-blog.example.com/articles/1' }),
+      source
+    );
+
+    expect(result.article).toBeNull();
+    expect(result.quarantined?.url).toBe('https://zen-blog.example.com/articles/1');
+    expect(result.quarantined?.offDomainReason).toBe(
+      'Host zen-blog.example.com is outside the allowed domains (zenn.dev)'
+    );
+    expect(result.diagnostics).toEqual([
+      {
+        sourceId: 'zenn',
+        article: 'https://zen-blog.example.com/articles/1',
+        field: 'url',
+        issue: 'off_domain',
+        action: 'quarantined',
+        value: 'https://zen-blog.example.com/articles/1',
+        message: 'Host zen-blog.example.com is outside the allowed domains (zenn.dev)',
+      },
+    ]);
+  });
+
+  it('keeps flagged articles and accepts explicitly allowed domains', () => {
+    const hn: SourceConfig = {
+      ...source,
+      id: 'hackernews',
+      url: 'https://news.ycombinator.com/',
+      allowedDomains: ['github.com'],
+      offDomainAction: 'flag',
+    };
+    const result = validateArticles(
+      [
+        article({ url: 'https://news.ycombinator.com/item?id=1' }),
+        article({ url: 'https://github.com/example/agent' }),
+        article({ url: 'https://blog.example.com/post' }),
+      ],
+      hn
+    );
+
+    expect(result.articles).toHaveLength(3);
+    expect(result.quarantined).toEqual([]);
+    expect(result.diagnostics.map((d) => [d.article, d.issue, d.action])).toEqual([
+      ['https://blog.example.com/post', 'off_domain', 'flagged'],
+    ]);
+  });
+
+  it('rejects scheme-less URLs that do not parse instead of throwing', () => {
+    const result = validateArticle(article({ url: 'www.foo bar.com/x' }), source);
+
+    expect(result.article).toBeNull();
+    expect(result.quarantined).toBeUndefined();
+    expect(result.diagnostics.map((d) => [d.field, d.issue, d.action])).toEqual([
+      ['url', 'invalid_url', 'rejected'],
+    ]);
+  });
+
+  it('checks the domain of scheme-less www. URLs after adding https://', () => {
+    const result = validateArticle(article({ url: 'www.example.com/x' }), source);
+
+    expect(result.quarantined?.url).toBe('https://www.example.com/x');
+    expect(result.diagnostics.map((d) => [d.issue, d.action])).toEqual([
+      ['relative_url', 'fixed'],
+      ['off_domain', 'quarantined'],
+    ]);
+  });
+
+  it('skips the domain check when no domain can be derived', () => {
+    const twitter = {
+      ...source,
+      id: 'twitter',
+      collectMethod: 'WebSearch' as const,
+      url: undefined,
+    };
+    expect(
+      validateArticle(article({ url: 'https://x.com/a/status/1' }), twitter).diagnostics
+    ).toEqual([]);
+  });
+});
+
+describe('summarizeArticleDiagnostics', () => {
+  it('counts issues by type, field and source and the rejected articles', () => {
+    const { diagnostics } = validateArticles(
+      [
+        article({ url: '/a/articles/2' }),
+        article({ title: '', url: 'null' }),
+        article({ publishedAt: 'null' }),
+      ],
+      source
+    );
+
+    expect(summarizeArticleDiagnostics(diagnostics)).toEqual({
+      total: 4,
+      rejectedArticles: 1,
+      byIssue: { relative_url: 1, missing: 1, null_literal: 2 },
+      byField: { url: 2, title: 1, publishedAt: 1 },
+      bySource: { zenn: 4 },
+    });
+    expect(summarizeArticleDiagnostics([])).toBeUndefined();
+  });
+});
+
+describe('Collector validation', () => {
+  it('removes invalid articles, quarantines off-domain ones and records diagnostics', async () => {
+    const content = JSON.stringify({
+      articles: [
+        { title: 'Relative', url: '/a/articles/2' },
+        { title: 'No URL' },
+        { title: 'Valid', url: 'https://zenn.dev/a/articles/3', publishedAt: 'null' },
+        { title: 'Invented', url: 'https://zenn-news.example.com/3' },
+      ],
+    });
+    const executor: Executor = {
+      webFetch: () => Promise.resolve({ success: true, content }),
+      webSearch: () => Promise.resolve({ success: true, content }),
+      prompt: () => Promise.resolve({ success: true, content }),
+    };
+    const sourcesConfig: SourcesConfig = {
+      sources: [source],
+      rateControl: {
+        maxConcurrency: 1,
+        defaultTimeout: 30000,
+        defaultRetryInterval: 10,
+        defaultMaxRetries: 0,
+        perSource: {},
+      },
+    };
+
+    const result = await createCollector({ sourcesConfig, queries: [], executor }).collectAll();
+
+    expect(result.sourcesStatus['zenn']).toBe('success');
+    expect(result.articles.map((a) => a.url)).toEqual([
+      'https://zenn.dev/a/articles/2',
+      'https://zenn.dev/a/articles/3',
+    ]);
+    expect(result.diagnostics?.map((d) => [d.article, d.issue, d.action])).toEqual([
+      ['/a/articles/2', 'relative_url', 'fixed'],
+      ['No URL', 'missing', 'rejected'],
+      ['https://zenn.dev/a/articles/3', 'null_literal', 'dropped'],
+      ['https://zenn-news.example.com/3', 'off_domain', 'quarantined'],
+    ]);
+    expect(result.quarantinedArticles?.map((a) => a.title)).toEqual(['Invented']);
+  });
+});
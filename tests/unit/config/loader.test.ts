@@ -1,15 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
-import { disableSources } from '@/config/loader';
-import type { SourcesConfig } from '@/types/index';
+import {
+  disableSources,
+  enableSources,
+  loadSourcesConfig,
+  resetSourceOverrides,
+} from '@/config/loader';
+import type { SourceOverridesFile, SourcesConfig } from '@/types/index';
 
 describe('disableSources', () => {
-  it('disables matching enabled sources and persists to file', () => {
+  it('disables matching enabled sources in the overrides file without touching sources.json', () => {
     const tmpDir = mkdtempSync(join(tmpdir(), 'daily-reporter-'));
     const configPath = join(tmpDir, 'sources.json');
+    const overridesPath = join(tmpDir, 'data', 'source-overrides.json');
 
     const fixture: SourcesConfig = {
       sources: [
@@ -43,14 +49,55 @@ describe('disableSources', () => {
       },
     };
 
-    writeFileSync(configPath, JSON.stringify(fixture, null, 2), 'utf-8');
+    // 手書きの整形を保つことを確認するため、意図的に独自のインデントで書く
+    const original = JSON.stringify(fixture, null, 4);
+    writeFileSync(configPath, original, 'utf-8');
 
-    const disabled = disableSources(['hackernews', 'unknown_source'], configPath);
+    const disabled = disableSources(['hackernews', 'unknown_source'], 'flaky', { configPath, overridesPath });
     expect(disabled).toEqual(['hackernews']);
 
-    const updated = JSON.parse(readFileSync(configPath, 'utf-8')) as SourcesConfig;
+    expect(readFileSync(configPath, 'utf-8')).toBe(original);
+    const overrides = JSON.parse(readFileSync(overridesPath, 'utf-8')) as SourceOverridesFile;
+    expect(overrides.overrides.hackernews).toMatchObject({ enabled: false, reason: 'flaky' });
+
+    const updated = loadSourcesConfig(configPath, overridesPath);
     expect(updated.sources.find((s) => s.id === 'hackernews')?.enabled).toBe(false);
     expect(updated.sources.find((s) => s.id === 'openai_news')?.enabled).toBe(true);
+    // パスを指定した読み込みでは上書きをマージしない
+    expect(loadSourcesConfig(configPath).sources.every((s) => s.enabled)).toBe(true);
+
+    expect(enableSources(['hackernews'], undefined, { configPath, overridesPath })).toEqual(['hackernews']);
+    expect(loadSourcesConfig(configPath, overridesPath).sources.every((s) => s.enabled)).toBe(true);
+    // sources.jsonと同じ状態に戻した上書きは残さない
+    expect(JSON.parse(readFileSync(overridesPath, 'utf-8'))).toEqual({ version: 1, overrides: {} });
+  });
+
+  it('can enable a source disabled in sources.json and reset it back', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'daily-reporter-'));
+    const configPath = join(tmpDir, 'sources.json');
+    const overridesPath = join(tmpDir, 'source-overrides.json');
+    const fixture = {
+      sources: [{ id: 'hackernews', name: 'HackerNews', tier: 1, enabled: false }],
+      rateControl: {},
+    };
+    writeFileSync(configPath, JSON.stringify(fixture), 'utf-8');
+
+    expect(enableSources(['hackernews'], 'back online', { configPath, overridesPath })).toEqual(['hackernews']);
+    expect(loadSourcesConfig(configPath, overridesPath).sources[0]?.enabled).toBe(true);
+
+    expect(resetSourceOverrides(undefined, overridesPath)).toEqual(['hackernews']);
+    expect(loadSourcesConfig(configPath, overridesPath).sources[0]?.enabled).toBe(false);
+    expect(resetSourceOverrides(['hackernews'], overridesPath)).toEqual([]);
+  });
+
+  it('ignores a malformed overrides file', () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'daily-reporter-'));
+    const configPath = join(tmpDir, 'sources.json');
+    const overridesPath = join(tmpDir, 'source-overrides.json');
+    writeFileSync(configPath, JSON.stringify({ sources: [{ id: 'a', enabled: true }], rateControl: {} }), 'utf-8');
+    writeFileSync(overridesPath, '{ not json', 'utf-8');
+
+    expect(loadSourcesConfig(configPath, overridesPath).sources[0]?.enabled).toBe(true);
   });
 
   it('does not rewrite when nothing is disabled', () => {
@@ -80,8 +127,10 @@ describe('disableSources', () => {
     };
 
     writeFileSync(configPath, JSON.stringify(fixture, null, 2), 'utf-8');
+    const overridesPath = join(tmpDir, 'source-overrides.json');
 
-    const disabled = disableSources(['hackernews'], configPath);
+    const disabled = disableSources(['hackernews'], undefined, { configPath, overridesPath });
     expect(disabled).toEqual([]);
+    expect(existsSync(overridesPath)).toBe(false);
   });
 });
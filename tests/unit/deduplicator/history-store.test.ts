@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { HistoryStore, createHistoryStore } from '@/deduplicator/history-store';
-import type { HistoryEntry } from '@/types/index';
+import type { HistoryEntry, OrganizerCacheEntry } from '@/types/index';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -173,6 +173,20 @@ describe('HistoryStore', () => {
       expect(existing.has('https://example.com/3')).toBe(false);
     });
 
+    it('seenBeforeを指定するとそれ以降に初出のURLを除外する', () => {
+      store.bulkUpsert([
+        createTestEntry({ normalizedUrl: 'https://example.com/old', firstSeenAt: '2024-01-10T00:00:00.000Z' }),
+        createTestEntry({ normalizedUrl: 'https://example.com/new', firstSeenAt: '2024-01-15T00:00:00.000Z' }),
+      ]);
+
+      const existing = store.findExistingUrls(
+        ['https://example.com/old', 'https://example.com/new'],
+        '2024-01-14T00:00:00.000Z'
+      );
+
+      expect([...existing]).toEqual(['https://example.com/old']);
+    });
+
     it('空配列を渡すと空のセットを返す', () => {
       const existing = store.findExistingUrls([]);
       expect(existing.size).toBe(0);
@@ -274,6 +288,57 @@ describe('HistoryStore', () => {
     });
   });
 
+  describe('organizerCache', () => {
+    const createCacheEntry = (overrides: Partial<OrganizerCacheEntry> = {}): OrganizerCacheEntry => ({
+      normalizedUrl: 'https://example.com/article',
+      promptVersion: 'v1',
+      categoryId: 'llm',
+      relevanceScore: 4,
+      aiSummary: '概要',
+      tags: ['LLM', 'Claude'],
+      cachedAt: '2024-01-15T10:00:00.000Z',
+      ...overrides,
+    });
+
+    it('プロンプトバージョン単位で保存・検索できる', () => {
+      store.saveOrganizerCache([
+        createCacheEntry(),
+        createCacheEntry({ normalizedUrl: 'https://example.com/other', promptVersion: 'v0' }),
+      ]);
+
+      const found = store.findOrganizerCache(
+        ['https://example.com/article', 'https://example.com/other'],
+        'v1'
+      );
+      expect(found.size).toBe(1);
+      expect(found.get('https://example.com/article')).toEqual(createCacheEntry());
+      expect(store.findOrganizerCache([], 'v1').size).toBe(0);
+    });
+
+    it('同じURL・バージョンは上書きされる', () => {
+      store.saveOrganizerCache([createCacheEntry()]);
+      store.saveOrganizerCache([createCacheEntry({ categoryId: 'tools_mcp' })]);
+
+      const found = store.findOrganizerCache(['https://example.com/article'], 'v1');
+      expect(found.get('https://example.com/article')?.categoryId).toBe('tools_mcp');
+    });
+
+    it('cleanupで古いキャッシュも削除される', () => {
+      store.saveOrganizerCache([
+        createCacheEntry({ cachedAt: '2024-01-10T00:00:00.000Z' }),
+        createCacheEntry({ normalizedUrl: 'https://example.com/new' }),
+      ]);
+
+      store.cleanup('2024-01-15T00:00:00.000Z');
+
+      const found = store.findOrganizerCache(
+        ['https://example.com/article', 'https://example.com/new'],
+        'v1'
+      );
+      expect([...found.keys()]).toEqual(['https://example.com/new']);
+    });
+  });
+
   describe('getStats', () => {
     it('空のデータベースの統計を取得できる', () => {
       const stats = store.getStats();
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+vi.mock('@/collector/sdk-executor', () => ({
+  executePrompt: vi.fn(),
+}));
+
+import { executePrompt } from '@/collector/sdk-executor';
+import {
+  createDigestBuilder,
+  formatDigestMarkdown,
+  generateDigestFilename,
+  parseDigestIntro,
+  type Digest,
+} from '@/digest/index';
+import { createHistoryStore, type HistoryStore } from '@/deduplicator/history-store';
+import { createTagNormalizer } from '@/query-generator/tag-normalizer';
+import { generateJsonReport } from '@/output/json';
+import type { HistoryEntry, OrganizedArticle, OrganizedReport } from '@/types/index';
+
+const mockedExecutePrompt = vi.mocked(executePrompt);
+
+const tagNormalizer = createTagNormalizer({
+  LLM: ['Claude', 'GPT'],
+  MCP: ['Model Context Protocol'],
+});
+
+function historyEntry(url: string, title: string, firstSeenAt: string, source = 'hn') {
+  const entry: Omit<HistoryEntry, 'id'> = {
+    url,
+    normalizedUrl: url,
+    title,
+    firstSeenAt,
+    lastSeenAt: firstSeenAt,
+    dateConfidence: 'high',
+    source,
+  };
+  return entry;
+}
+
+function article(url: string, title: string, tags: string[]): OrganizedArticle {
+  return { title, url, summary: '概要', source: 'hn', relevanceScore: 4, tags };
+}
+
+function buildReport(date: string, articles: OrganizedArticle[], topUrl?: string): OrganizedReport {
+  const top = articles.find((a) => a.url === topUrl);
+  return {
+    date,
+    topArticles: top ? [{ rank: 1, reason: '注目', categoryName: 'LLM', article: top }] : [],
+    categories: [{ id: 'llm', name: 'LLM', articles }],
+    metadata: {
+      totalCollected: articles.length,
+      afterDedup: articles.length,
+      inReport: articles.length,
+      executionTimeMs: 1000,
+      sourcesStatus: [],
+      generatedAt: `${date}T01:00:00.000Z`,
+    },
+  };
+}
+
+const endDate = new Date('2024-01-15T03:00:00Z');
+
+const rateControl = {
+  maxConcurrency: 1,
+  defaultTimeout: 1000,
+  defaultRetryInterval: 0,
+  defaultMaxRetries: 0,
+  perSource: {},
+};
+
+describe('DigestBuilder', () => {
+  let store: HistoryStore;
+  let outputDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = createHistoryStore({ path: ':memory:', retentionDays: 90 });
+    outputDir = mkdtempSync(join(tmpdir(), 'daily-reporter-digest-'));
+
+    store.bulkUpsert([
+      historyEntry('https://example.com/a', 'Claude update', '2024-01-14T00:00:00.000Z'),
+      historyEntry('https://example.com/b', 'GPT release', '2024-01-12T00:00:00.000Z', 'reddit'),
+      historyEntry('https://example.com/c', 'Model Context Protocol', '2024-01-10T00:00:00.000Z'),
+      // 前期間
+      historyEntry('https://example.com/old', 'MCP server', '2024-01-05T00:00:00.000Z'),
+      // 期間外（前々期間）
+      historyEntry('https://example.com/older', 'Claude', '2023-12-20T00:00:00.000Z'),
+    ]);
+
+    const a = article('https://example.com/a', 'Claude update', ['LLM']);
+    const b = article('https://example.com/b', 'GPT release', ['LLM', 'OSS']);
+    writeFileSync(
+      join(outputDir, 'daily-report-2024-01-15.json'),
+      generateJsonReport(buildReport('2024-01-15', [a, b], a.url))
+    );
+    writeFileSync(
+      join(outputDir, 'daily-report-2024-01-14.json'),
+      generateJsonReport(buildReport('2024-01-14', [a], a.url))
+    );
+    writeFileSync(
+      join(outputDir, 'daily-report-2024-01-13.json'),
+      generateJsonReport(buildReport('2024-01-13', [b]))
+    );
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('aggregates stories, categories, rising tags and sources without the SDK', async () => {
+    const builder = createDigestBuilder({ historyStore: store, tagNormalizer, outputDir });
+    const digest = await builder.build('week', endDate);
+
+    expect(mockedExecutePrompt).not.toHaveBeenCalled();
+    expect(digest.startDate).toBe('2024-01-09');
+    expect(digest.endDate).toBe('2024-01-15');
+    expect(digest.reportCount).toBe(3);
+    expect(digest.totalArticles).toBe(3);
+
+    expect(digest.topStories.map((s) => [s.url, s.appearances, s.topRanked])).toEqual([
+      ['https://example.com/a', 2, 2],
+      ['https://example.com/b', 2, 0],
+    ]);
+    expect(digest.categories).toEqual([{ name: 'LLM', articleCount: 2, topTags: ['LLM', 'OSS'] }]);
+    expect(digest.risingTags).toEqual([{ tag: 'LLM', count: 2, previousCount: 0 }]);
+    expect(digest.sourceContributions.map((s) => [s.source, s.articles])).toEqual([
+      ['hn', 2],
+      ['reddit', 1],
+    ]);
+  });
+
+  it('generates an intro through the SDK when requested', async () => {
+    mockedExecutePrompt.mockResolvedValue({
+      success: true,
+      content: '```json\n{"intro": "今週はLLMの話題が中心でした。"}\n```',
+    });
+
+    const builder = createDigestBuilder({
+      historyStore: store,
+      tagNormalizer,
+      outputDir,
+      rateControl,
+    });
+    const digest = await builder.build('week', endDate);
+
+    expect(await builder.generateIntro(digest)).toBe('今週はLLMの話題が中心でした。');
+    expect(mockedExecutePrompt).toHaveBeenCalledWith(
+      expect.stringContaining('"totalArticles": 3'),
+      'digest',
+      expect.any(Object)
+    );
+  });
+
+  it('returns null when intro generation fails', async () => {
+    mockedExecutePrompt.mockResolvedValue({
+      success: false,
+      content: '',
+      error: {
+        sourceId: 'digest',
+        errorType: 'timeout',
+        message: 'timeout',
+        timestamp: '2024-01-15T00:00:00.000Z',
+        retryCount: 0,
+      },
+    });
+
+    const builder = createDigestBuilder({
+      historyStore: store,
+      tagNormalizer,
+      outputDir,
+      rateControl,
+    });
+
+    expect(await builder.generateIntro(await builder.build('month', endDate))).toBeNull();
+  });
+});
+
+describe('parseDigestIntro', () => {
+  it('rejects responses without a non-empty intro', () => {
+    expect(parseDigestIntro('{"intro": "  本文  "}').intro).toBe('本文');
+    expect(parseDigestIntro('{"intro": ""}').parseError).toBe('intro must be a non-empty string');
+    expect(parseDigestIntro('not json').intro).toBeNull();
+  });
+});
+
+describe('formatDigestMarkdown', () => {
+  const digest: Digest = {
+    period: 'month',
+    startDate: '2023-12-17',
+    endDate: '2024-01-15',
+    reportCount: 0,
+    totalArticles: 0,
+    categories: [],
+    topStories: [],
+    risingTags: [],
+    sourceContributions: [],
+    intro: '導入文',
+  };
+
+  it('renders an empty period with the intro', () => {
+    const markdown = formatDigestMarkdown(digest);
+
+    expect(markdown).toContain('# Monthly Digest - 2023-12-17 〜 2024-01-15');
+    expect(markdown).toContain('導入文');
+    expect(markdown).toContain('_No stored reports in this period._');
+    expect(markdown).not.toContain('## 📈 Rising Tags');
+  });
+
+  it('names digest files by period and end date', () => {
+    expect(generateDigestFilename('week', endDate)).toBe('digest-week-2024-01-15.md');
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import {
+  applyHealthTransition,
+  buildSourceRunRecords,
+  createSourceHealthStore,
+  describeSourceStates,
+  excludeSources,
+  type SourceHealthStore,
+} from '@/health/index';
+import type { CollectionResult, SourceConfig, SourceRunRecord, SourcesConfig } from '@/types/index';
+
+function run(sourceId: string, success: boolean, runAt: string): SourceRunRecord {
+  return {
+    sourceId,
+    runAt,
+    success,
+    articleCount: success ? 3 : 0,
+    latencyMs: 1200,
+    errorType: success ? undefined : 'timeout',
+    errorMessage: success ? undefined : 'Request timeout',
+  };
+}
+
+describe('applyHealthTransition', () => {
+  it('degrades on the first failure and disables after consecutive failures', () => {
+    const first = applyHealthTransition(null, run('hn', false, '2024-02-01T00:00:00.000Z'));
+    const second = applyHealthTransition(first, run('hn', false, '2024-02-02T00:00:00.000Z'));
+    const third = applyHealthTransition(second, run('hn', false, '2024-02-03T00:00:00.000Z'));
+
+    expect(first).toMatchObject({ state: 'degraded', consecutiveFailures: 1, lastError: 'Request timeout' });
+    expect(second.state).toBe('degraded');
+    expect(third).toMatchObject({ state: 'disabled', consecutiveFailures: 3, disabledAt: '2024-02-03T00:00:00.000Z' });
+  });
+
+  it('returns to healthy on success and goes back to disabled on a probation failure', () => {
+    const degraded = applyHealthTransition(null, run('hn', false, '2024-02-01T00:00:00.000Z'));
+    expect(applyHealthTransition(degraded, run('hn', true, '2024-02-02T00:00:00.000Z'))).toMatchObject({
+      state: 'healthy',
+      consecutiveFailures: 0,
+      lastSuccessAt: '2024-02-02T00:00:00.000Z',
+    });
+
+    const probation = { ...degraded, state: 'probation' as const, consecutiveFailures: 3 };
+    expect(applyHealthTransition(probation, run('hn', false, '2024-02-05T00:00:00.000Z'))).toMatchObject({
+      state: 'disabled',
+      disabledAt: '2024-02-05T00:00:00.000Z',
+    });
+  });
+
+  it('needs recoverAfter consecutive successes to leave probation', () => {
+    const config = { degradedAfter: 1, disableAfter: 3, probationCooldownHours: 24, recoverAfter: 2 };
+    const probation = applyHealthTransition(
+      { sourceId: 'hn', state: 'probation', consecutiveFailures: 3, consecutiveSuccesses: 0 },
+      run('hn', true, '2024-02-05T00:00:00.000Z'),
+      config
+    );
+    expect(probation).toMatchObject({ state: 'probation', consecutiveSuccesses: 1 });
+    expect(applyHealthTransition(probation, run('hn', true, '2024-02-06T00:00:00.000Z'), config).state).toBe('healthy');
+  });
+});
+
+describe('buildSourceRunRecords', () => {
+  it('builds one record per collected source with article count, latency and error', () => {
+    const result = {
+      articles: [
+        { url: 'https://a.example/1', title: 'A', source: 'ok' },
+        { url: 'https://a.example/2', title: 'B', source: 'ok' },
+      ],
+      errors: [
+        { sourceId: 'ng', errorType: 'network', message: 'ECONNRESET', timestamp: '', retryCount: 1 },
+      ],
+      sourcesStatus: { ok: 'success', ng: 'partial' },
+      latencyMs: { ok: 800, ng: 3000 },
+    } as unknown as CollectionResult;
+
+    expect(buildSourceRunRecords(result, '2024-02-01T00:00:00.000Z')).toEqual([
+      { sourceId: 'ok', runAt: '2024-02-01T00:00:00.000Z', success: true, articleCount: 2, latencyMs: 800, errorType: undefined, errorMessage: undefined },
+      { sourceId: 'ng', runAt: '2024-02-01T00:00:00.000Z', success: false, articleCount: 0, latencyMs: 3000, errorType: 'network', errorMessage: 'ECONNRESET' },
+    ]);
+  });
+});
+
+describe('excludeSources', () => {
+  it('disables the given sources without touching the others', () => {
+    const config = {
+      sources: [
+        { id: 'a', enabled: true },
+        { id: 'b', enabled: true },
+      ],
+      rateControl: {},
+    } as unknown as SourcesConfig;
+
+    const result = excludeSources(config, ['b']);
+
+    expect(result.sources.map((s) => s.enabled)).toEqual([true, false]);
+    expect(config.sources[1]?.enabled).toBe(true);
+  });
+});
+
+describe('describeSourceStates', () => {
+  it('explains the effective state from sources.json, overrides and health', () => {
+    const source = (id: string, enabled = true): SourceConfig =>
+      ({ id, tier: 2, enabled }) as SourceConfig;
+    const states = describeSourceStates(
+      [source('plain'), source('off', false), source('manual'), source('forced', false), source('cooling'), source('due'), source('weak')],
+      {
+        manual: { enabled: false, reason: 'layout changed', updatedAt: '2024-02-01T00:00:00.000Z' },
+        forced: { enabled: true, updatedAt: '2024-02-01T00:00:00.000Z' },
+      },
+      [
+        { sourceId: 'cooling', state: 'disabled', consecutiveFailures: 3, consecutiveSuccesses: 0, disabledAt: '2024-02-02T00:00:00.000Z', lastError: 'Request timeout' },
+        { sourceId: 'due', state: 'disabled', consecutiveFailures: 3, consecutiveSuccesses: 0, disabledAt: '2024-01-01T00:00:00.000Z' },
+        { sourceId: 'weak', state: 'degraded', consecutiveFailures: 1, consecutiveSuccesses: 0 },
+      ],
+      { probationCooldownHours: 24 },
+      new Date('2024-02-02T12:00:00.000Z')
+    );
+
+    expect(states.map((s) => [s.sourceId, s.enabled, s.reason])).toEqual([
+      ['plain', true, 'enabled in sources.json'],
+      ['off', false, 'disabled in sources.json'],
+      ['manual', false, 'disabled by override: layout changed (2024-02-01T00:00:00.000Z)'],
+      ['forced', true, 'enabled by override (2024-02-01T00:00:00.000Z)'],
+      ['cooling', false, 'health: disabled (3 consecutive failures: Request timeout), probation after 2024-02-03T00:00:00.000Z'],
+      ['due', true, 'health: disabled (3 consecutive failures), retried in probation on the next run'],
+      ['weak', true, 'health: degraded (1 consecutive failures)'],
+    ]);
+  });
+});
+
+describe('SourceHealthStore', () => {
+  let store: SourceHealthStore;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-health-test-'));
+    store = createSourceHealthStore({ path: path.join(tmpDir, 'db', 'history.db') });
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records every run and keeps the latest state per source', () => {
+    store.recordRun([run('hn', true, '2024-02-01T00:00:00.000Z'), run('zenn', false, '2024-02-01T00:00:00.000Z')]);
+    store.recordRun([run('hn', false, '2024-02-02T00:00:00.000Z')]);
+
+    expect(store.getAll().map((r) => [r.sourceId, r.state])).toEqual([
+      ['hn', 'degraded'],
+      ['zenn', 'degraded'],
+    ]);
+    expect(store.getRecentRuns('hn')).toEqual([
+      run('hn', false, '2024-02-02T00:00:00.000Z'),
+      { ...run('hn', true, '2024-02-01T00:00:00.000Z'), errorType: undefined, errorMessage: undefined },
+    ]);
+  });
+
+  it('excludes disabled sources until the cooldown, then retries them in probation and re-enables on success', () => {
+    store.disable(['hn'], 'aborted repeatedly', new Date('2024-02-01T00:00:00.000Z'));
+
+    expect(store.planRun(['hn', 'zenn'], new Date('2024-02-01T12:00:00.000Z'))).toEqual({
+      excluded: ['hn'],
+      probation: [],
+    });
+    expect(store.planRun(['hn', 'zenn'], new Date('2024-02-02T00:00:00.000Z'))).toEqual({
+      excluded: [],
+      probation: ['hn'],
+    });
+    expect(store.get('hn')?.state).toBe('probation');
+
+    store.recordRun([run('hn', true, '2024-02-02T00:05:00.000Z')]);
+    expect(store.get('hn')).toMatchObject({ state: 'healthy', consecutiveFailures: 0, disabledAt: undefined });
+  });
+
+  it('restarts the cooldown when a probation run fails', () => {
+    store.disable(['hn'], 'aborted repeatedly', new Date('2024-02-01T00:00:00.000Z'));
+    store.planRun(['hn'], new Date('2024-02-02T00:00:00.000Z'));
+    store.recordRun([run('hn', false, '2024-02-02T00:05:00.000Z')]);
+
+    expect(store.get('hn')).toMatchObject({ state: 'disabled', disabledAt: '2024-02-02T00:05:00.000Z' });
+    expect(store.planRun(['hn'], new Date('2024-02-02T12:00:00.000Z')).excluded).toEqual(['hn']);
+  });
+
+  it('keeps sources with repeated partial runs that return articles enabled', () => {
+    const partial = {
+      articles: [{ url: 'https://a.example/1', title: 'A', source: 'hn' }],
+      errors: [{ sourceId: 'hn', errorType: 'parse', message: 'Skipped 2 articles', timestamp: '', retryCount: 0 }],
+      sourcesStatus: { hn: 'partial' },
+    } as unknown as CollectionResult;
+
+    for (const day of ['01', '02', '03', '04']) {
+      store.recordRun(buildSourceRunRecords(partial, `2024-02-${day}T00:00:00.000Z`));
+    }
+
+    expect(store.get('hn')).toMatchObject({ state: 'healthy', consecutiveFailures: 0 });
+    expect(store.planRun(['hn'], new Date('2024-02-04T12:00:00.000Z')).excluded).toEqual([]);
+  });
+
+  it('disables sources whose partial runs keep failing without articles', () => {
+    const empty = {
+      articles: [],
+      errors: [{ sourceId: 'hn', errorType: 'timeout', message: 'Request timeout', timestamp: '', retryCount: 3 }],
+      sourcesStatus: { hn: 'partial' },
+    } as unknown as CollectionResult;
+
+    for (const day of ['01', '02', '03']) {
+      store.recordRun(buildSourceRunRecords(empty, `2024-02-${day}T00:00:00.000Z`));
+    }
+
+    expect(store.get('hn')).toMatchObject({ state: 'disabled', consecutiveFailures: 3 });
+  });
+
+  it('resets health state but keeps the run history', () => {
+    store.recordRun([run('hn', false, '2024-02-01T00:00:00.000Z')]);
+
+    expect(store.reset(['hn', 'zenn'])).toEqual(['hn']);
+    expect(store.get('hn')).toBeNull();
+    expect(store.getRecentRuns('hn')).toHaveLength(1);
+  });
+});
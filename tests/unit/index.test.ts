@@ -1,5 +1,14 @@
-import { describe, it, expect } from 'vitest';
-import { findAbortHeavySourceIds } from '@/index';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/config/loader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/config/loader')>()),
+  validateConfigFiles: vi.fn(() => ({ valid: true, missing: [] })),
+  loadSourcesConfig: vi.fn(() => ({ sources: [{ id: 'qiita' }, { id: 'zenn' }] })),
+  disableSources: vi.fn(() => []),
+}));
+
+import { findAbortHeavySourceIds, getPositionalArgs, runSourcesCommand } from '@/index';
+import { disableSources } from '@/config/loader';
 import type { CollectionError } from '@/types/index';
 
 describe('findAbortHeavySourceIds', () => {
@@ -38,3 +47,36 @@ describe('findAbortHeavySourceIds', () => {
     expect(findAbortHeavySourceIds(errors)).toEqual(['hackernews']);
   });
 });
+
+describe('getPositionalArgs', () => {
+  it('drops flags and the values of options that take one', () => {
+    expect(
+      getPositionalArgs([
+        'sources',
+        'disable',
+        '--date',
+        '2024-01-01',
+        'qiita',
+        '--reason',
+        'layout changed',
+        '-v',
+        'zenn',
+        '--dry-run',
+      ])
+    ).toEqual(['sources', 'disable', 'qiita', 'zenn']);
+  });
+});
+
+describe('runSourcesCommand', () => {
+  it('rejects source ids missing from sources.json without writing overrides', () => {
+    const result = runSourcesCommand({ action: 'disable', sourceIds: ['qiita', '2024-01-01'] });
+
+    expect(result).toEqual({
+      success: false,
+      changed: [],
+      sources: [],
+      errors: ['Unknown sources: 2024-01-01'],
+    });
+    expect(vi.mocked(disableSources)).not.toHaveBeenCalled();
+  });
+});
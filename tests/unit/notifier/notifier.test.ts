@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import {
+  createNotifier,
+  buildNotificationMessage,
+  splitLines,
+  SlackChannel,
+  DiscordChannel,
+  WebhookChannel,
+  type NotificationMessage,
+} from '@/notifier/index';
+import type { OrganizedReport } from '@/types/index';
+
+interface ReceivedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Webhook受信用のローカルHTTPサーバー
+ * statusesに指定したステータスを順に返し、尽きたら200を返す（hangPathsのパスには応答しない）
+ */
+function startServer(statuses: Record<string, number[]> = {}, hangPaths: string[] = []) {
+  const received: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let data = '';
+    req.on('data', (chunk: Buffer) => (data += chunk.toString()));
+    req.on('end', () => {
+      const path = req.url ?? '/';
+      received.push({ path, headers: req.headers, body: JSON.parse(data) as Record<string, unknown> });
+      if (hangPaths.includes(path)) return;
+      res.statusCode = statuses[path]?.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  return new Promise<{ server: Server; received: ReceivedRequest[]; url: string }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, received, url: `http://127.0.0.1:${port}` });
+    });
+  });
+}
+
+const report: OrganizedReport = {
+  date: '2024-01-15',
+  topArticles: Array.from({ length: 3 }, (_, i) => ({
+    rank: i + 1,
+    reason: `理由 <${i + 1}>`,
+    categoryName: 'LLM',
+    article: {
+      title: `Article ${i + 1} & more`,
+      url: `https://example.com/${i + 1}`,
+      summary: '概要',
+      source: 'hn',
+      relevanceScore: 5,
+      tags: [],
+    },
+  })),
+  categories: [{ id: 'llm', name: 'LLM', articles: [] }],
+  metadata: {
+    totalCollected: 10,
+    afterDedup: 5,
+    inReport: 3,
+    executionTimeMs: 1000,
+    sourcesStatus: [],
+    generatedAt: '2024-01-15T01:00:00.000Z',
+  },
+};
+
+const message: NotificationMessage = buildNotificationMessage({
+  date: '2024-01-15',
+  report,
+  articleCount: 3,
+  reportFilename: '2024-01-15.md',
+  reportBaseUrl: 'https://reports.example.com/',
+});
+
+describe('buildNotificationMessage', () => {
+  it('summarizes the report with a link to the published file', () => {
+    expect(message.title).toBe('Daily Tech Report - 2024-01-15');
+    expect(message.summary).toBe('3 articles in 1 categories');
+    expect(message.topArticles[0]).toEqual({
+      rank: 1,
+      title: 'Article 1 & more',
+      url: 'https://example.com/1',
+      reason: '理由 <1>',
+      categoryName: 'LLM',
+    });
+    expect(message.reportUrl).toBe('https://reports.example.com/2024-01-15.md');
+  });
+
+  it('falls back to the article count for simple reports', () => {
+    const simple = buildNotificationMessage({ date: '2024-01-15', articleCount: 7 });
+    expect(simple.summary).toBe('7 articles');
+    expect(simple.topArticles).toEqual([]);
+  });
+});
+
+describe('splitLines', () => {
+  it('keeps chunks within the limit and truncates overlong lines', () => {
+    const chunks = splitLines(['aaaa', 'bbbb', 'cccccccccccc'], 10);
+    expect(chunks).toEqual(['aaaa\nbbbb', 'ccccccccc…']);
+    expect(chunks.every((chunk) => chunk.length <= 10)).toBe(true);
+  });
+});
+
+describe('channel payloads', () => {
+  const base = { url: 'http://127.0.0.1:1' };
+
+  it('renders Slack Block Kit with escaped mrkdwn', () => {
+    const [payload] = new SlackChannel({ ...base, type: 'slack' }).buildPayloads(message) as Array<{
+      text: string;
+      blocks: Array<{ type: string; text?: { text: string } }>;
+    }>;
+
+    expect(payload?.text).toBe('Daily Tech Report - 2024-01-15');
+    expect(payload?.blocks[0]?.type).toBe('header');
+    expect(payload?.blocks[2]?.text?.text).toContain(
+      '1. <https://example.com/1|Article 1 &amp; more> — 理由 &lt;1&gt;'
+    );
+  });
+
+  it('splits Discord embeds at maxMessageLength', () => {
+    const payloads = new DiscordChannel({
+      ...base,
+      type: 'discord',
+      maxMessageLength: 80,
+    }).buildPayloads(message) as Array<{ embeds: Array<{ title: string; description: string }> }>;
+
+    expect(payloads.length).toBeGreaterThan(1);
+    expect(payloads.every((p) => p.embeds[0]!.description.length <= 80)).toBe(true);
+    expect(payloads[0]?.embeds[0]?.title).toBe(`Daily Tech Report - 2024-01-15 (1/${payloads.length})`);
+  });
+
+  it('splits generic webhook payloads by top articles', () => {
+    const payloads = new WebhookChannel({
+      ...base,
+      type: 'webhook',
+      maxMessageLength: 400,
+    }).buildPayloads(message) as Array<{ topArticles: unknown[]; part: number; totalParts: number }>;
+
+    expect(payloads.length).toBeGreaterThan(1);
+    expect(payloads.every((p) => JSON.stringify(p).length <= 400)).toBe(true);
+    expect(payloads.map((p) => p.part)).toEqual(payloads.map((_, i) => i + 1));
+    expect(payloads.every((p) => p.totalParts === payloads.length)).toBe(true);
+    expect(payloads.flatMap((p) => p.topArticles)).toEqual(message.topArticles);
+  });
+});
+
+describe('Notifier', () => {
+  let server: Server;
+  let received: ReceivedRequest[];
+  let url: string;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('delivery', () => {
+    beforeEach(async () => {
+      ({ server, received, url } = await startServer(
+        { '/retry': [503, 429], '/bad': [400] },
+        ['/hang']
+      ));
+    });
+
+    it('delivers to every enabled channel', async () => {
+      const notifier = createNotifier({
+        enabled: true,
+        channels: [
+          { type: 'slack', url: `${url}/slack` },
+          { type: 'discord', url: `${url}/discord`, enabled: false },
+          { type: 'webhook', url: `${url}/hook`, headers: { Authorization: 'Bearer token' } },
+        ],
+      });
+
+      const results = await notifier.notify(message);
+
+      expect(results).toEqual([
+        { type: 'slack', success: true, messagesSent: 1 },
+        { type: 'webhook', success: true, messagesSent: 1 },
+      ]);
+      expect(received.map((r) => r.path)).toEqual(['/slack', '/hook']);
+      expect(received[1]?.headers.authorization).toBe('Bearer token');
+      expect(received[1]?.body.reportUrl).toBe('https://reports.example.com/2024-01-15.md');
+    });
+
+    it('retries 429 and 5xx responses with backoff', async () => {
+      const notifier = createNotifier({
+        enabled: true,
+        channels: [{ type: 'webhook', url: `${url}/retry`, maxRetries: 2, retryInterval: 1 }],
+      });
+
+      const [result] = await notifier.notify(message);
+
+      expect(result?.success).toBe(true);
+      expect(received).toHaveLength(3);
+    });
+
+    it('does not retry other client errors and reports the failure', async () => {
+      const notifier = createNotifier({
+        enabled: true,
+        channels: [
+          { type: 'discord', url: `${url}/bad`, maxRetries: 2, retryInterval: 1 },
+          { type: 'webhook', url: `${url}/hook` },
+        ],
+      });
+
+      const results = await notifier.notify(message);
+
+      expect(results[0]).toEqual({
+        type: 'discord',
+        success: false,
+        messagesSent: 0,
+        error: 'discord responded with HTTP 400',
+      });
+      expect(results[1]?.success).toBe(true);
+      expect(received.map((r) => r.path)).toEqual(['/bad', '/hook']);
+    });
+
+    it('times out a hanging channel and continues with the others', async () => {
+      const notifier = createNotifier({
+        enabled: true,
+        channels: [
+          { type: 'slack', url: `${url}/hang`, maxRetries: 1, retryInterval: 1, timeoutMs: 50 },
+          { type: 'webhook', url: `${url}/hook` },
+        ],
+      });
+
+      const results = await notifier.notify(message);
+
+      expect(results[0]).toEqual({
+        type: 'slack',
+        success: false,
+        messagesSent: 0,
+        error: 'slack request timed out after 50ms',
+      });
+      expect(results[1]?.success).toBe(true);
+      expect(received.map((r) => r.path)).toEqual(['/hang', '/hang', '/hook']);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHeuristicCategorizer,
+  measureAgreement,
+  toRelevanceScore,
+} from '@/organizer/heuristic';
+import type { CategorizedArticle } from '@/organizer/prompts';
+import { createTitleAnalyzer } from '@/query-generator/title-analyzer';
+import { createTagNormalizer } from '@/query-generator/tag-normalizer';
+import type { FilteredArticle, QueryGroup, TagSynonyms } from '@/types/index';
+
+const synonyms: TagSynonyms = {
+  LLM: ['Claude', 'GPT', 'Agent'],
+  MCP: ['Model Context Protocol'],
+};
+
+const queryGroups: QueryGroup[] = [
+  { id: 'llm', name: 'LLM/エージェント', keywords: ['Claude', 'GPT', 'LLM'], weight: 1.5 },
+  { id: 'tools_mcp', name: 'ツール/MCP', keywords: ['MCP', 'Claude Code'], weight: 1.4 },
+];
+
+function buildArticle(index: number, title: string, summary?: string): FilteredArticle {
+  return {
+    url: `https://example.com/articles/${index}`,
+    normalizedUrl: `https://example.com/articles/${index}`,
+    title,
+    summary,
+    source: 'example',
+    isNew: true,
+    dateConfidence: 'high',
+    freshnessPriority: 'high',
+  };
+}
+
+function createCategorizer() {
+  const tagNormalizer = createTagNormalizer(synonyms);
+  return createHeuristicCategorizer(
+    createTitleAnalyzer(tagNormalizer, queryGroups),
+    tagNormalizer,
+    queryGroups
+  );
+}
+
+describe('HeuristicCategorizer', () => {
+  it('assigns the matching query group with relevance score and tags', () => {
+    const [result] = createCategorizer().categorize([
+      buildArticle(0, 'Claude 4 released', 'GPT comparison'),
+    ]);
+
+    expect(result?.categoryId).toBe('llm');
+    expect(result?.categoryName).toBe('LLM/エージェント');
+    expect(result?.relevanceScore).toBeGreaterThanOrEqual(2);
+    expect(result?.relevanceScore).toBeLessThanOrEqual(5);
+    expect(result?.tags).toContain('LLM');
+    expect(result?.aiSummary).toBe('GPT comparison');
+  });
+
+  it('prefers the group with the highest weight when several match', () => {
+    const [result] = createCategorizer().categorize([buildArticle(0, 'MCP server for Claude')]);
+    expect(result?.categoryId).toBe('llm');
+  });
+
+  it('falls back to the summary and then to "other"', () => {
+    const results = createCategorizer().categorize([
+      buildArticle(0, 'Weekly update', 'New MCP servers'),
+      buildArticle(1, 'Unrelated news'),
+    ]);
+
+    expect(results.map((r) => r.categoryId)).toEqual(['tools_mcp', 'other']);
+    expect(results[1]?.categoryName).toBe('その他');
+    expect(results[1]?.relevanceScore).toBe(1);
+  });
+
+  it('is deterministic', () => {
+    const articles = [buildArticle(0, 'Claude 4 released'), buildArticle(1, 'MCP news')];
+    expect(createCategorizer().categorize(articles)).toEqual(
+      createCategorizer().categorize(articles)
+    );
+  });
+});
+
+describe('toRelevanceScore', () => {
+  it('maps 0-1 relevance to a 1-5 score', () => {
+    expect(toRelevanceScore(0)).toBe(1);
+    expect(toRelevanceScore(0.5)).toBe(3);
+    expect(toRelevanceScore(1)).toBe(5);
+    expect(toRelevanceScore(2)).toBe(5);
+  });
+});
+
+describe('measureAgreement', () => {
+  it('compares categories by normalized URL', () => {
+    const categorizer = createCategorizer();
+    const heuristic = categorizer.categorize([
+      buildArticle(0, 'Claude 4 released'),
+      buildArticle(1, 'MCP news'),
+    ]);
+    const llm: CategorizedArticle[] = heuristic.map((ca, i) => ({
+      ...ca,
+      categoryId: i === 0 ? 'llm' : 'other',
+    }));
+
+    expect(measureAgreement(llm, heuristic)).toEqual({
+      compared: 2,
+      agreed: 1,
+      agreementRate: 0.5,
+    });
+    expect(measureAgreement([], heuristic).agreementRate).toBeNull();
+  });
+});
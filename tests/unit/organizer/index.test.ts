@@ -0,0 +1,403 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/collector/sdk-executor', () => ({
+  executePrompt: vi.fn(),
+}));
+
+import {
+  createOrganizer,
+  createHeuristicCategorizer,
+  buildOrganizedReport,
+} from '@/organizer/index';
+import { createTitleAnalyzer } from '@/query-generator/title-analyzer';
+import { createTagNormalizer } from '@/query-generator/tag-normalizer';
+import { createHistoryStore } from '@/deduplicator/history-store';
+import { executePrompt } from '@/collector/sdk-executor';
+import { createRunBudget } from '@/collector/budget';
+import type {
+  CollectionResult,
+  FilteredArticle,
+  QueryGroup,
+  RateControlConfig,
+  SourceConfig,
+} from '@/types/index';
+
+const queryGroups: QueryGroup[] = [
+  { id: 'llm', name: 'LLM/エージェント', keywords: ['LLM', 'Claude'], weight: 1.5 },
+  { id: 'tools_mcp', name: 'ツール/MCP', keywords: ['MCP'], weight: 1.4 },
+];
+
+const rateControl: RateControlConfig = {
+  maxConcurrency: 1,
+  defaultTimeout: 30000,
+  defaultRetryInterval: 100,
+  defaultMaxRetries: 1,
+  perSource: {},
+};
+
+function buildArticle(index: number): FilteredArticle {
+  return {
+    url: `https://example.com/articles/${index}`,
+    normalizedUrl: `https://example.com/articles/${index}`,
+    title: `Article ${index}`,
+    summary: `Summary ${index}`,
+    source: 'example',
+    isNew: true,
+    dateConfidence: 'high',
+    freshnessPriority: 'high',
+  };
+}
+
+function buildResponse(
+  items: Array<{ articleId: number; categoryId: string; relevanceScore?: number }>
+): string {
+  return `\`\`\`json
+${JSON.stringify({
+  categorized: items.map((item) => ({
+    articleId: item.articleId,
+    categoryId: item.categoryId,
+    relevanceScore: item.relevanceScore ?? 4,
+    aiSummary: `AI summary ${item.articleId}`,
+    tags: ['LLM'],
+  })),
+})}
+\`\`\``;
+}
+
+describe('Organizer', () => {
+  const mockedExecutePrompt = vi.mocked(executePrompt);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('categorizes articles and passes maxTurnsOrganizer to the SDK', async () => {
+    const articles = [buildArticle(0), buildArticle(1)];
+    mockedExecutePrompt.mockResolvedValueOnce({
+      success: true,
+      content: buildResponse([
+        { articleId: 0, categoryId: 'llm', relevanceScore: 5 },
+        { articleId: 1, categoryId: 'tools_mcp' },
+      ]),
+    });
+
+    const organizer = createOrganizer({
+      queryGroups,
+      rateControl,
+      agentConfig: {
+        maxTurns: 30,
+        maxTurnsOrganizer: 7,
+        permissionMode: 'bypassPermissions',
+        model: 'test-model',
+        timeout: 1000,
+      },
+    });
+
+    const result = await organizer.organize(articles);
+
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(1);
+    expect(mockedExecutePrompt.mock.calls[0]?.[2].maxTurns).toBe(7);
+    expect(result.stats.categorizedArticles).toBe(2);
+    expect(result.categorizedArticles.get('llm')?.[0]?.aiSummary).toBe('AI summary 0');
+    expect(result.categorizedArticles.get('tools_mcp')).toHaveLength(1);
+  });
+
+  it('passes the run budget to its SDK calls', async () => {
+    mockedExecutePrompt.mockResolvedValueOnce({
+      success: true,
+      content: buildResponse([{ articleId: 0, categoryId: 'llm' }]),
+    });
+    const budget = createRunBudget({ maxSdkCalls: 10 });
+
+    await createOrganizer({ queryGroups, rateControl, budget }).organize([buildArticle(0)]);
+
+    expect(mockedExecutePrompt.mock.calls[0]?.[2].budget).toBe(budget);
+  });
+
+  it('splits large article sets into batches and merges the results', async () => {
+    const articles = Array.from({ length: 5 }, (_, i) => buildArticle(i));
+    mockedExecutePrompt
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([
+          { articleId: 0, categoryId: 'llm' },
+          { articleId: 1, categoryId: 'llm' },
+        ]),
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([
+          { articleId: 0, categoryId: 'tools_mcp' },
+          { articleId: 1, categoryId: 'tools_mcp' },
+        ]),
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([{ articleId: 0, categoryId: 'llm' }]),
+      });
+
+    const organizer = createOrganizer({ queryGroups, rateControl, batchSize: 2 });
+    const result = await organizer.organize(articles);
+
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(3);
+    expect(result.stats.categorizedArticles).toBe(5);
+    // バッチ内のarticleIdは各バッチの先頭からのインデックス
+    const toolsUrls = result.categorizedArticles.get('tools_mcp')?.map((ca) => ca.article.url);
+    expect(toolsUrls).toEqual(['https://example.com/articles/2', 'https://example.com/articles/3']);
+    expect(result.categorizedArticles.get('llm')).toHaveLength(3);
+  });
+
+  it('splits batches by prompt length', () => {
+    const articles = Array.from({ length: 4 }, (_, i) => ({
+      ...buildArticle(i),
+      summary: 'x'.repeat(2000),
+    }));
+
+    const organizer = createOrganizer({ queryGroups, rateControl, maxPromptChars: 5000 });
+    const batches = organizer.splitIntoBatches(articles);
+
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.flat()).toHaveLength(4);
+  });
+
+  it('keeps articles of failed batches under "other"', async () => {
+    const articles = [buildArticle(0), buildArticle(1)];
+    mockedExecutePrompt.mockResolvedValueOnce({
+      success: false,
+      content: '',
+      error: {
+        sourceId: 'organizer',
+        errorType: 'timeout',
+        message: 'timeout',
+        timestamp: new Date().toISOString(),
+        retryCount: 1,
+      },
+    });
+
+    const organizer = createOrganizer({ queryGroups, rateControl });
+    const result = await organizer.organize(articles);
+
+    expect(result.stats.categorizedArticles).toBe(0);
+    expect(result.stats.uncategorizedArticles).toBe(2);
+    expect(result.categorizedArticles.get('other')?.[0]?.aiSummary).toBe('Summary 0');
+  });
+
+  it('categorizes articles of failed batches with the heuristic fallback', async () => {
+    const articles = [
+      { ...buildArticle(0), title: 'Claude 4 released' },
+      { ...buildArticle(1), title: 'New MCP server' },
+      buildArticle(2),
+    ];
+    mockedExecutePrompt
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([
+          { articleId: 0, categoryId: 'llm' },
+          { articleId: 1, categoryId: 'llm' },
+        ]),
+      })
+      .mockResolvedValueOnce({ success: true, content: 'no json' });
+
+    const tagNormalizer = createTagNormalizer({ LLM: ['Claude'] });
+    const organizer = createOrganizer({
+      queryGroups,
+      rateControl,
+      batchSize: 2,
+      fallbackCategorizer: createHeuristicCategorizer(
+        createTitleAnalyzer(tagNormalizer, queryGroups),
+        tagNormalizer,
+        queryGroups
+      ),
+    });
+    const result = await organizer.organize(articles);
+
+    expect(result.stats.categorizedArticles).toBe(2);
+    expect(result.stats.heuristicArticles).toBe(1);
+    expect(result.stats.uncategorizedArticles).toBe(0);
+    expect(result.stats.heuristicAgreementRate).toBe(0.5);
+    expect(result.categorizedArticles.get('other')?.[0]?.article.title).toBe('Article 2');
+  });
+
+  it('reuses cached categorizations and only sends uncached articles', async () => {
+    const cacheStore = createHistoryStore({ path: ':memory:', retentionDays: 90 });
+    mockedExecutePrompt
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([{ articleId: 0, categoryId: 'llm', relevanceScore: 5 }]),
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([{ articleId: 0, categoryId: 'tools_mcp' }]),
+      });
+
+    const organizer = createOrganizer({ queryGroups, rateControl, cacheStore });
+    const first = await organizer.organize([buildArticle(0)]);
+    expect(first.stats.cacheHits).toBe(0);
+    expect(first.stats.cacheMisses).toBe(1);
+
+    const second = await organizer.organize([buildArticle(0), buildArticle(1)]);
+
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(2);
+    expect(mockedExecutePrompt.mock.calls[1]?.[0]).toContain('Article 1');
+    expect(mockedExecutePrompt.mock.calls[1]?.[0]).not.toContain('Article 0');
+    expect(second.stats.cacheHits).toBe(1);
+    expect(second.stats.cacheMisses).toBe(1);
+    expect(second.categorizedArticles.get('llm')?.[0]?.aiSummary).toBe('AI summary 0');
+    expect(second.categorizedArticles.get('tools_mcp')).toHaveLength(1);
+
+    // カテゴリ定義が変わるとキャッシュは使われない
+    const changed = createOrganizer({
+      queryGroups: [...queryGroups, { id: 'research', name: '研究', keywords: [], weight: 1 }],
+      rateControl,
+      cacheStore,
+    });
+    mockedExecutePrompt.mockResolvedValueOnce({ success: true, content: 'no json' });
+    const third = await changed.organize([buildArticle(0)]);
+    expect(third.stats.cacheHits).toBe(0);
+
+    cacheStore.close();
+  });
+
+  it('maps unknown category ids to "other"', async () => {
+    mockedExecutePrompt.mockResolvedValueOnce({
+      success: true,
+      content: buildResponse([{ articleId: 0, categoryId: 'unknown_group' }]),
+    });
+
+    const organizer = createOrganizer({ queryGroups, rateControl });
+    const result = await organizer.organize([buildArticle(0)]);
+
+    expect(result.categorizedArticles.get('other')?.[0]?.categoryName).toBe('その他');
+    expect(organizer.getCategoryOrder()).toEqual(['llm', 'tools_mcp', 'other']);
+  });
+});
+
+describe('Organizer.summarizeCategories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarizes each category and skips invalid responses', async () => {
+    const mockedExecutePrompt = vi.mocked(executePrompt);
+    mockedExecutePrompt
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([
+          { articleId: 0, categoryId: 'llm' },
+          { articleId: 1, categoryId: 'tools_mcp' },
+        ]),
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        content: JSON.stringify({
+          categorySummary: 'LLMの概要',
+          highlights: ['ハイライト'],
+          trendKeywords: ['LLM'],
+        }),
+      })
+      .mockResolvedValueOnce({ success: true, content: 'no json' });
+
+    const organizer = createOrganizer({ queryGroups, rateControl });
+    const organized = await organizer.organize([buildArticle(0), buildArticle(1)]);
+    const summaries = await organizer.summarizeCategories(organized.categorizedArticles);
+
+    expect(mockedExecutePrompt).toHaveBeenCalledTimes(3);
+    expect(mockedExecutePrompt.mock.calls[1]?.[0]).toContain('LLM/エージェント');
+    expect(summaries.get('llm')?.categorySummary).toBe('LLMの概要');
+    expect(summaries.has('tools_mcp')).toBe(false);
+  });
+});
+
+describe('Organizer.rankArticles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uses validated LLM ranking and falls back when it fails', async () => {
+    const mockedExecutePrompt = vi.mocked(executePrompt);
+    mockedExecutePrompt
+      .mockResolvedValueOnce({
+        success: true,
+        content: buildResponse([
+          { articleId: 0, categoryId: 'llm', relevanceScore: 3 },
+          { articleId: 1, categoryId: 'tools_mcp', relevanceScore: 5 },
+        ]),
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        content: JSON.stringify({
+          topArticles: [
+            { articleId: 1, rank: 1, reason: '注目の発表' },
+            { articleId: 9, rank: 2, reason: '存在しない記事' },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({ success: true, content: 'ranking unavailable' });
+
+    const organizer = createOrganizer({ queryGroups, rateControl });
+    const organized = await organizer.organize([buildArticle(0), buildArticle(1)]);
+
+    const ranked = await organizer.rankArticles(organized.categorizedArticles);
+    expect(ranked).toHaveLength(2);
+    expect(ranked[0]?.reason).toBe('注目の発表');
+
+    const fallback = await organizer.rankArticles(organized.categorizedArticles);
+    expect(fallback.map((t) => t.article.article.title)).toEqual(['Article 1', 'Article 0']);
+  });
+});
+
+describe('buildOrganizedReport', () => {
+  it('converts organized result into OrganizedReport with source status', async () => {
+    vi.mocked(executePrompt).mockResolvedValueOnce({
+      success: true,
+      content: buildResponse([{ articleId: 0, categoryId: 'llm', relevanceScore: 5 }]),
+    });
+    const organizer = createOrganizer({ queryGroups, rateControl });
+    const organized = await organizer.organize([buildArticle(0)]);
+
+    const sources: SourceConfig[] = [
+      {
+        id: 'example',
+        name: 'Example',
+        tier: 1,
+        enabled: true,
+        collectMethod: 'WebFetch',
+        url: 'https://example.com/',
+        dateMethod: 'html_meta',
+        maxArticles: 10,
+      },
+    ];
+    const collectionResult: CollectionResult = {
+      articles: [buildArticle(0)],
+      errors: [],
+      sourcesStatus: { example: 'success' },
+      stats: {
+        totalSources: 1,
+        successfulSources: 1,
+        partialSources: 0,
+        failedSources: 0,
+        totalArticles: 1,
+        executionTimeMs: 100,
+      },
+    };
+
+    const report = buildOrganizedReport(organized, {
+      date: '2024-01-15',
+      collectionResult,
+      afterDedup: 1,
+      executionTimeMs: 1000,
+      sources,
+      categoryOrder: organizer.getCategoryOrder(),
+    });
+
+    expect(report.categories).toHaveLength(1);
+    expect(report.categories[0]?.id).toBe('llm');
+    expect(report.categories[0]?.name).toBe('LLM/エージェント');
+    expect(report.categories[0]?.articles[0]?.dateConfidence).toBe('high');
+    expect(report.categories[0]?.articles[0]?.freshnessPriority).toBe('high');
+    expect(report.categories[0]?.articles[0]?.summary).toBe('AI summary 0');
+    expect(report.metadata.sourcesStatus).toEqual([
+      { sourceId: 'example', tier: 1, success: true, articlesCount: 1, error: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSummaryResult,
+  parseRankingResult,
+  selectTopArticles,
+  formatCategorySectionMarkdown,
+  type CategorizedArticle,
+} from '@/organizer/prompts';
+
+const categorized: CategorizedArticle = {
+  categoryId: 'llm',
+  categoryName: 'LLM/エージェント',
+  article: {
+    url: 'https://example.com/a',
+    normalizedUrl: 'https://example.com/a',
+    title: 'Article A',
+    source: 'example',
+    isNew: true,
+    dateConfidence: 'high',
+    freshnessPriority: 'high',
+  },
+  relevanceScore: 4,
+  aiSummary: '記事Aの概要',
+  tags: ['LLM'],
+};
+
+describe('parseSummaryResult', () => {
+  it('parses a fenced summary response', () => {
+    const response = `\`\`\`json
+{
+  "categorySummary": "本日のLLM関連ではClaudeの発表が目立ちました。",
+  "highlights": ["Claudeの新機能", "エージェントの動向"],
+  "trendKeywords": ["Claude", "Agent"]
+}
+\`\`\``;
+
+    const result = parseSummaryResult(response);
+    expect(result.parseError).toBeUndefined();
+    expect(result.summary?.categorySummary).toBe('本日のLLM関連ではClaudeの発表が目立ちました。');
+    expect(result.summary?.highlights).toEqual(['Claudeの新機能', 'エージェントの動向']);
+    expect(result.summary?.trendKeywords).toEqual(['Claude', 'Agent']);
+  });
+
+  it('limits highlights to three items', () => {
+    const response = JSON.stringify({
+      categorySummary: 'summary',
+      highlights: ['a', 'b', 'c', 'd'],
+    });
+
+    const result = parseSummaryResult(response);
+    expect(result.summary?.highlights).toEqual(['a', 'b', 'c']);
+    expect(result.summary?.trendKeywords).toEqual([]);
+  });
+
+  it('rejects responses that do not match the schema', () => {
+    expect(parseSummaryResult('not json').summary).toBeNull();
+    expect(parseSummaryResult('{"categorySummary": ""}').parseError).toContain('categorySummary');
+    expect(
+      parseSummaryResult('{"categorySummary": "ok", "highlights": "a"}').parseError
+    ).toContain('highlights');
+    expect(
+      parseSummaryResult('{"categorySummary": "ok", "highlights": [], "trendKeywords": [1]}')
+        .parseError
+    ).toContain('trendKeywords');
+  });
+});
+
+function buildCategorized(
+  index: number,
+  categoryId: string,
+  relevanceScore: number
+): CategorizedArticle {
+  return {
+    ...categorized,
+    categoryId,
+    categoryName: categoryId,
+    relevanceScore,
+    article: {
+      ...categorized.article,
+      url: `https://example.com/${index}`,
+      normalizedUrl: `https://example.com/${index}`,
+      title: `Article ${index}`,
+    },
+  };
+}
+
+describe('parseRankingResult', () => {
+  const all = [buildCategorized(0, 'llm', 5), buildCategorized(1, 'dev', 4)];
+
+  it('parses ranked articles and renumbers ranks', () => {
+    const response = `\`\`\`json
+{"topArticles": [
+  {"articleId": 1, "rank": 2, "reason": "開発者向けの重要な更新"},
+  {"articleId": 0, "rank": 1, "reason": "業界への影響が大きい"}
+]}
+\`\`\``;
+
+    const result = parseRankingResult(response, all);
+    expect(result.parseError).toBeUndefined();
+    expect(result.topArticles.map((t) => [t.rank, t.article.article.title, t.reason])).toEqual([
+      [1, 'Article 0', '業界への影響が大きい'],
+      [2, 'Article 1', '開発者向けの重要な更新'],
+    ]);
+  });
+
+  it('drops out-of-range, duplicate and reasonless article ids', () => {
+    const response = JSON.stringify({
+      topArticles: [
+        { articleId: 5, rank: 1, reason: 'out of range' },
+        { articleId: 0, rank: 2, reason: 'ok' },
+        { articleId: 0, rank: 3, reason: 'duplicate' },
+        { articleId: 1, rank: 4 },
+        { articleId: '1', rank: 5, reason: 'string id' },
+      ],
+    });
+
+    const result = parseRankingResult(response, all);
+    expect(result.topArticles).toHaveLength(1);
+    expect(result.topArticles[0]?.reason).toBe('ok');
+  });
+
+  it('returns parseError for invalid responses', () => {
+    expect(parseRankingResult('no json', all).parseError).toBeTruthy();
+    expect(parseRankingResult('{"foo": []}', all).parseError).toContain('topArticles');
+  });
+});
+
+describe('selectTopArticles', () => {
+  it('caps articles per category and fills from other categories', () => {
+    const all = [
+      buildCategorized(0, 'llm', 5),
+      buildCategorized(1, 'llm', 5),
+      buildCategorized(2, 'llm', 5),
+      buildCategorized(3, 'llm', 4),
+      buildCategorized(4, 'dev', 3),
+      buildCategorized(5, 'research', 2),
+    ];
+    const ranked = [0, 1, 2, 3].map((i) => ({ article: all[i]!, rank: i + 1, reason: `r${i}` }));
+
+    const top = selectTopArticles(ranked, all, 5);
+
+    // 3カテゴリ → 1カテゴリ最大2件
+    expect(top.map((t) => t.article.article.title)).toEqual([
+      'Article 0',
+      'Article 1',
+      'Article 4',
+      'Article 5',
+      'Article 2',
+    ]);
+    expect(top.map((t) => t.rank)).toEqual([1, 2, 3, 4, 5]);
+    expect(top[0]?.reason).toBe('r0');
+    expect(top[2]?.reason).toContain('自動選出');
+    expect(top[4]?.reason).toBe('r2');
+  });
+
+  it('falls back to deterministic relevance order when nothing was ranked', () => {
+    const all = [
+      buildCategorized(0, 'llm', 2),
+      buildCategorized(1, 'dev', 5),
+      buildCategorized(2, 'llm', 4),
+    ];
+
+    const first = selectTopArticles([], all, 2);
+    const second = selectTopArticles([], all, 2);
+
+    expect(first.map((t) => t.article.article.title)).toEqual(['Article 1', 'Article 2']);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('formatCategorySectionMarkdown', () => {
+  it('renders summary and highlights at the top of the section', () => {
+    const markdown = formatCategorySectionMarkdown('LLM/エージェント', [categorized], {
+      categorySummary: 'カテゴリ概要',
+      highlights: ['ハイライト1', 'ハイライト2'],
+      trendKeywords: [],
+    });
+
+    expect(markdown).toContain(
+      '## LLM/エージェント (1 articles)\n\n> カテゴリ概要\n\n- ハイライト1\n- ハイライト2\n\n### [Article A]'
+    );
+  });
+
+  it('renders the section without summary as before', () => {
+    const markdown = formatCategorySectionMarkdown('LLM/エージェント', [categorized]);
+    expect(markdown.startsWith('## LLM/エージェント (1 articles)\n\n### [Article A]')).toBe(true);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  buildMimeMessage,
+  deliverReportEmail,
+  encodeHeaderValue,
+  formatAddress,
+  renderSubject,
+} from '@/output/email';
+import type { EmailConfig, OrganizedReport } from '@/types/index';
+
+const report: OrganizedReport = {
+  date: '2024-01-15',
+  topArticles: [],
+  categories: [{ id: 'llm', name: 'LLM/エージェント', articles: [] }],
+  metadata: {
+    totalCollected: 10,
+    afterDedup: 5,
+    inReport: 4,
+    executionTimeMs: 1000,
+    sourcesStatus: [],
+    generatedAt: '2024-01-15T01:00:00.000Z',
+  },
+};
+
+/**
+ * MIMEメッセージからパートの本文をデコードする
+ */
+function decodePart(message: string, contentType: string): string {
+  const [, body] = message.split(`Content-Type: ${contentType}; charset=UTF-8\r\n`);
+  const encoded = body?.split('\r\n\r\n')[1]?.split('\r\n--')[0] ?? '';
+  return Buffer.from(encoded.replace(/\r\n/g, ''), 'base64').toString('utf-8');
+}
+
+/**
+ * SMTPセッションを記録するローカルSMTPサーバー
+ */
+function startSmtpSink(options: { rejectRecipient?: boolean } = {}) {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let inData = false;
+    let data = '';
+    socket.write('220 localhost ESMTP sink\r\n');
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf-8');
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            socket.write('250 OK queued\r\n');
+          } else {
+            data += `${line.startsWith('..') ? line.slice(1) : line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0]?.toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authenticated\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipient) {
+          socket.write('550 No such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          data = '';
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ server: Server; port: number; commands: string[]; messages: string[] }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () => {
+        resolve({ server, port: (server.address() as AddressInfo).port, commands, messages });
+      });
+    }
+  );
+}
+
+describe('encodeHeaderValue', () => {
+  it('keeps ASCII and encodes Japanese as UTF-8 encoded words', () => {
+    expect(encodeHeaderValue('Daily Tech Report')).toBe('Daily Tech Report');
+
+    const subject = '日次テックレポート 2024-01-15 『LLM/エージェント』の話題まとめ';
+    const encoded = encodeHeaderValue(subject);
+    const words = encoded.split('\r\n ');
+
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.every((word) => /^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/.test(word))).toBe(true);
+    expect(words.every((word) => word.length <= 75)).toBe(true);
+    expect(
+      words.map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf-8')).join('')
+    ).toBe(subject);
+  });
+
+  it('encodes display names in addresses', () => {
+    expect(formatAddress('レポート <report@example.com>')).toBe(
+      `${encodeHeaderValue('レポート')} <report@example.com>`
+    );
+    expect(formatAddress('Reporter <report@example.com>')).toBe('"Reporter" <report@example.com>');
+    expect(formatAddress('report@example.com')).toBe('report@example.com');
+  });
+});
+
+describe('renderSubject', () => {
+  it('replaces known placeholders only', () => {
+    expect(renderSubject('{date} ({articles}件) {unknown}', { date: '2024-01-15', articles: '4' })).toBe(
+      '2024-01-15 (4件) {unknown}'
+    );
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('builds a multipart/alternative message with ASCII-only headers', () => {
+    const message = buildMimeMessage({
+      from: 'Reporter <report@example.com>',
+      to: ['a@example.com', 'b@example.com'],
+      cc: ['c@example.com'],
+      subject: '日次レポート',
+      text: '# テキスト',
+      html: '<h1>HTML</h1>',
+      date: new Date('2024-01-15T01:00:00Z'),
+      messageId: '<id@example.com>',
+    });
+    const [headers] = message.split('\r\n\r\n');
+
+    expect(headers).toMatch(/^[\x20-\x7e\r\n]*$/);
+    expect(headers).toContain('To: a@example.com,\r\n b@example.com');
+    expect(headers).toContain('Cc: c@example.com');
+    expect(headers).toContain('Date: Mon, 15 Jan 2024 01:00:00 +0000');
+    expect(headers).toMatch(/Content-Type: multipart\/alternative; boundary="[^"]+"/);
+    expect(message.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(decodePart(message, 'text/plain')).toBe('# テキスト');
+    expect(decodePart(message, 'text/html')).toBe('<h1>HTML</h1>');
+  });
+});
+
+describe('deliverReportEmail', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  const baseConfig: EmailConfig = {
+    enabled: true,
+    transport: 'eml',
+    from: 'report@example.com',
+    to: ['team@example.com'],
+    subjectTemplate: '【Daily】{date} - {articles} articles',
+  };
+
+  it('writes an .eml next to the markdown report', async () => {
+    const reportPath = join(mkdtempSync(join(tmpdir(), 'daily-reporter-email-')), '2024-01-15.md');
+
+    const result = await deliverReportEmail({
+      config: baseConfig,
+      report,
+      markdown: '# Report',
+      reportPath,
+      date: new Date('2024-01-15T01:00:00Z'),
+      articleCount: 4,
+    });
+
+    expect(result).toEqual({ success: true, transport: 'eml', path: reportPath.replace(/\.md$/, '.eml') });
+    const eml = readFileSync(result.path!, 'utf-8');
+    expect(eml).toContain(`Subject: ${encodeHeaderValue('【Daily】2024-01-15 - 4 articles')}`);
+    expect(decodePart(eml, 'text/html')).toContain('LLM/エージェント');
+  });
+
+  it('sends over SMTP to all recipients', async () => {
+    const sink = await startSmtpSink();
+    server = sink.server;
+    process.env.TEST_SMTP_PASSWORD = 'secret';
+
+    const result = await deliverReportEmail({
+      config: {
+        ...baseConfig,
+        transport: 'smtp',
+        cc: ['Lead <lead@example.com>'],
+        smtp: { host: '127.0.0.1', port: sink.port, user: 'bot', passwordEnv: 'TEST_SMTP_PASSWORD' },
+      },
+      report,
+      markdown: '# Report\n.\n',
+      reportPath: '/nonexistent/2024-01-15.md',
+      date: new Date('2024-01-15T01:00:00Z'),
+      articleCount: 4,
+    });
+
+    delete process.env.TEST_SMTP_PASSWORD;
+
+    expect(result).toEqual({ success: true, transport: 'smtp' });
+    expect(sink.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      `AUTH PLAIN ${Buffer.from('\0bot\0secret').toString('base64')}`,
+      'MAIL FROM:<report@example.com>',
+      'RCPT TO:<team@example.com>',
+      'RCPT TO:<lead@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(sink.messages).toHaveLength(1);
+    expect(decodePart(sink.messages[0]!, 'text/plain')).toBe('# Report\n.\n');
+  });
+
+  it('returns an error result when the server rejects a recipient', async () => {
+    const sink = await startSmtpSink({ rejectRecipient: true });
+    server = sink.server;
+
+    const result = await deliverReportEmail({
+      config: { ...baseConfig, transport: 'smtp', smtp: { host: '127.0.0.1', port: sink.port } },
+      markdown: '# Report',
+      reportPath: '/nonexistent/2024-01-15.md',
+      date: new Date('2024-01-15T01:00:00Z'),
+      articleCount: 4,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('SMTP RCPT TO:<team@example.com> failed: 550 No such user');
+    expect(sink.messages).toHaveLength(0);
+  });
+
+  it('requires smtp settings for the smtp transport', async () => {
+    const result = await deliverReportEmail({
+      config: { ...baseConfig, transport: 'smtp' },
+      markdown: '# Report',
+      reportPath: '/nonexistent/2024-01-15.md',
+      date: new Date(),
+      articleCount: 0,
+    });
+    expect(result).toEqual({
+      success: false,
+      transport: 'smtp',
+      error: 'email.smtp is required for smtp transport',
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  writeFeeds,
+  loadStoredReports,
+  buildFeedEntries,
+  generateAtomFeed,
+  generateRssFeed,
+  ATOM_FEED_FILENAME,
+  RSS_FEED_FILENAME,
+} from '@/output/feed';
+import { generateJsonReport } from '@/output/json';
+import type { OrganizedReport } from '@/types/index';
+
+function buildReport(date: string, generatedAt: string): OrganizedReport {
+  return {
+    date,
+    topArticles: [
+      {
+        rank: 1,
+        reason: '注目 <発表>',
+        categoryName: 'LLM/エージェント',
+        article: {
+          title: 'Article & A',
+          url: 'https://example.com/a',
+          summary: '概要',
+          source: 'example',
+          relevanceScore: 5,
+          tags: ['LLM'],
+        },
+      },
+    ],
+    categories: [{ id: 'llm', name: 'LLM/エージェント', articles: [] }],
+    metadata: {
+      totalCollected: 10,
+      afterDedup: 5,
+      inReport: 1,
+      executionTimeMs: 1000,
+      sourcesStatus: [],
+      generatedAt,
+    },
+  };
+}
+
+function setupOutputDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'daily-reporter-feed-'));
+  writeFileSync(
+    join(dir, 'daily-report-2024-01-15.json'),
+    generateJsonReport(buildReport('2024-01-15', '2024-01-15T01:00:00.000Z'))
+  );
+  writeFileSync(join(dir, 'daily-report-2024-01-14.md'), '# Daily Tech Report - 2024-01-14\n');
+  // 範囲外の日付
+  writeFileSync(join(dir, 'daily-report-2024-01-01.md'), '# old\n');
+  return dir;
+}
+
+const date = new Date('2024-01-15T03:00:00Z');
+
+describe('loadStoredReports', () => {
+  it('loads JSON reports and falls back to markdown within the period', async () => {
+    const reports = await loadStoredReports(setupOutputDir(), date, 3);
+
+    expect(reports.map((r) => [r.date, !!r.report, r.markdown !== undefined])).toEqual([
+      ['2024-01-15', true, false],
+      ['2024-01-14', false, true],
+    ]);
+  });
+});
+
+describe('buildFeedEntries', () => {
+  it('keeps entry ids stable across reruns of the same date', async () => {
+    const dir = setupOutputDir();
+    const first = buildFeedEntries(await loadStoredReports(dir, date, 3), 'report');
+
+    writeFileSync(
+      join(dir, 'daily-report-2024-01-15.json'),
+      generateJsonReport(buildReport('2024-01-15', '2024-01-15T05:00:00.000Z'))
+    );
+    const second = buildFeedEntries(await loadStoredReports(dir, date, 3), 'report');
+
+    expect(second.map((e) => e.id)).toEqual(first.map((e) => e.id));
+    expect(second[0]?.updated).toBe('2024-01-15T05:00:00.000Z');
+    expect(first.map((e) => e.contentType)).toEqual(['html', 'text']);
+  });
+
+  it('creates one entry per top article in article mode', async () => {
+    const reports = await loadStoredReports(setupOutputDir(), date, 3);
+    const entries = buildFeedEntries(reports, 'article');
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.id).toMatch(/^tag:daily-reporter\.local,2024-01-15:article:[0-9a-f]{16}$/);
+    expect(entries[0]?.link).toBe('https://example.com/a');
+  });
+
+  it('disables non-http article links in report content', async () => {
+    const dir = setupOutputDir();
+    const report = buildReport('2024-01-15', '2024-01-15T01:00:00.000Z');
+    report.topArticles![0]!.article.url = 'javascript:alert(1)';
+    writeFileSync(join(dir, 'daily-report-2024-01-15.json'), generateJsonReport(report));
+
+    const [entry] = buildFeedEntries(await loadStoredReports(dir, date, 1), 'report');
+
+    expect(entry?.content).toContain('<a href="#">Article &amp; A</a>');
+    expect(entry?.content).not.toContain('javascript:');
+  });
+
+  it('omits the link of article entries with non-http urls', async () => {
+    const dir = setupOutputDir();
+    const report = buildReport('2024-01-15', '2024-01-15T01:00:00.000Z');
+    report.topArticles![0]!.article.url = 'javascript:alert(1)';
+    writeFileSync(join(dir, 'daily-report-2024-01-15.json'), generateJsonReport(report));
+
+    const [entry] = buildFeedEntries(await loadStoredReports(dir, date, 1), 'article');
+
+    expect(entry?.title).toBe('Article & A');
+    expect(entry?.link).toBeUndefined();
+  });
+
+  it('links report entries to baseUrl', async () => {
+    const reports = await loadStoredReports(setupOutputDir(), date, 1);
+    const [entry] = buildFeedEntries(reports, 'report', 'https://reports.example.com/');
+    expect(entry?.link).toBe('https://reports.example.com/daily-report-2024-01-15.md');
+  });
+});
+
+describe('generateAtomFeed / generateRssFeed', () => {
+  const meta = { title: 'Feed', id: 'tag:example,2024:feed', updated: '2024-01-15T00:00:00Z' };
+
+  it('escapes entry content', async () => {
+    const entries = buildFeedEntries(await loadStoredReports(setupOutputDir(), date, 1), 'article');
+
+    const atom = generateAtomFeed(entries, meta);
+    expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(atom).toContain('<title>Article &amp; A</title>');
+    expect(atom).toContain('<summary>注目 &lt;発表&gt;</summary>');
+
+    const rss = generateRssFeed(entries, meta);
+    expect(rss).toContain('<rss version="2.0">');
+    expect(rss).toContain('<guid isPermaLink="false">tag:daily-reporter.local,2024-01-15:article:');
+    expect(rss).toContain('<pubDate>Mon, 15 Jan 2024 01:00:00 GMT</pubDate>');
+  });
+});
+
+describe('writeFeeds', () => {
+  it('writes the configured feed formats to the output directory', async () => {
+    const dir = setupOutputDir();
+    const written = await writeFeeds({
+      outputDir: dir,
+      date,
+      config: { enabled: true, formats: ['atom', 'rss'], days: 3 },
+    });
+
+    expect(written).toEqual([join(dir, ATOM_FEED_FILENAME), join(dir, RSS_FEED_FILENAME)]);
+    expect(readFileSync(join(dir, ATOM_FEED_FILENAME), 'utf-8')).toContain(
+      '<id>tag:daily-reporter.local,2024-01-14:report</id>'
+    );
+  });
+});
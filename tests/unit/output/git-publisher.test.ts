@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, writeFileSync, existsSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { createGitPublisher, buildCommitMessage, type PublishStats } from '@/output/git-publisher';
+import type { GitPublishConfig } from '@/types/index';
+
+const stats: PublishStats = {
+  date: '2024-01-15',
+  collected: 120,
+  afterDedup: 45,
+  inReport: 30,
+  executionTimeMs: 123000,
+  sourcesSucceeded: 10,
+  sourcesTotal: 12,
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('buildCommitMessage', () => {
+  it('summarizes the run stats', () => {
+    expect(buildCommitMessage(stats, false)).toBe(
+      [
+        'Add daily report 2024-01-15',
+        '',
+        'Collected: 120',
+        'After dedup: 45',
+        'In report: 30',
+        'Sources: 10/12 succeeded',
+        'Execution time: 2m 3s',
+      ].join('\n')
+    );
+    expect(buildCommitMessage({ ...stats, inReport: undefined }, true)).not.toContain('In report');
+  });
+});
+
+describe('GitPublisher', () => {
+  let repoPath: string;
+  let outputDir: string;
+  let files: string[];
+  let config: GitPublishConfig;
+
+  beforeEach(() => {
+    repoPath = mkdtempSync(join(tmpdir(), 'daily-reporter-archive-'));
+    git(repoPath, 'init', '--quiet', '--initial-branch=main');
+
+    outputDir = mkdtempSync(join(tmpdir(), 'daily-reporter-output-'));
+    files = [join(outputDir, '2024-01-15.md'), join(outputDir, '2024-01-15.json')];
+    writeFileSync(files[0]!, '# Report\n');
+    writeFileSync(files[1]!, '{}\n');
+
+    config = {
+      enabled: true,
+      repoPath,
+      directory: 'reports',
+      authorName: 'Daily Reporter',
+      authorEmail: 'reporter@example.com',
+      lockRetryInterval: 10,
+    };
+  });
+
+  it('commits the report and its JSON sibling without pushing when no remote exists', async () => {
+    const result = await createGitPublisher(config).publish(files, stats);
+
+    expect(result.status).toBe('committed');
+    expect(result.pushed).toBe(false);
+    expect(result.commit).toBe(git(repoPath, 'rev-parse', 'HEAD'));
+    expect(git(repoPath, 'show', '--name-only', '--format=%an|%s', 'HEAD').split('\n')).toEqual([
+      'Daily Reporter|Add daily report 2024-01-15',
+      '',
+      'reports/2024-01-15.json',
+      'reports/2024-01-15.md',
+    ]);
+  });
+
+  it('reports unchanged reruns and commits updates', async () => {
+    const publisher = createGitPublisher(config);
+    await publisher.publish(files, stats);
+
+    expect(await publisher.publish(files, stats)).toEqual({ status: 'unchanged', pushed: false });
+
+    writeFileSync(files[0]!, '# Report v2\n');
+    const updated = await publisher.publish(files, stats);
+    expect(updated.status).toBe('committed');
+    expect(git(repoPath, 'log', '--format=%s')).toBe(
+      'Update daily report 2024-01-15\nAdd daily report 2024-01-15'
+    );
+  });
+
+  it('commits to the configured branch and pushes to the remote', async () => {
+    const remotePath = mkdtempSync(join(tmpdir(), 'daily-reporter-remote-'));
+    git(remotePath, 'init', '--quiet', '--bare');
+    git(repoPath, 'remote', 'add', 'origin', remotePath);
+
+    const result = await createGitPublisher({ ...config, branch: 'reports' }).publish(files, stats);
+
+    expect(result.pushed).toBe(true);
+    expect(git(repoPath, 'symbolic-ref', '--short', 'HEAD')).toBe('main');
+    expect(git(repoPath, 'rev-parse', 'reports')).toBe(result.commit);
+    expect(git(remotePath, 'rev-parse', 'reports')).toBe(result.commit);
+  });
+
+  it('commits to another branch without touching HEAD or uncommitted changes', async () => {
+    writeFileSync(join(repoPath, 'notes.md'), 'draft\n');
+    git(repoPath, 'add', 'notes.md');
+    git(
+      repoPath,
+      '-c',
+      'user.name=Owner',
+      '-c',
+      'user.email=owner@example.com',
+      'commit',
+      '-qm',
+      'Init'
+    );
+    const mainHead = git(repoPath, 'rev-parse', 'HEAD');
+    writeFileSync(join(repoPath, 'notes.md'), 'uncommitted\n');
+    writeFileSync(join(repoPath, 'staged.md'), 'staged\n');
+    git(repoPath, 'add', 'staged.md');
+
+    const publisher = createGitPublisher({ ...config, branch: 'reports' });
+    const result = await publisher.publish(files, stats);
+
+    expect(result.status).toBe('committed');
+    expect(git(repoPath, 'rev-parse', `${result.commit}^`)).toBe(mainHead);
+    expect(git(repoPath, 'ls-tree', '-r', '--name-only', 'reports').split('\n')).toEqual([
+      'notes.md',
+      'reports/2024-01-15.json',
+      'reports/2024-01-15.md',
+    ]);
+    expect(git(repoPath, 'symbolic-ref', '--short', 'HEAD')).toBe('main');
+    expect(git(repoPath, 'rev-parse', 'HEAD')).toBe(mainHead);
+    expect(git(repoPath, 'status', '--porcelain')).toBe('M notes.md\nA  staged.md');
+    expect(existsSync(join(repoPath, 'reports'))).toBe(false);
+
+    expect(await publisher.publish(files, stats)).toEqual({ status: 'unchanged', pushed: false });
+    writeFileSync(files[0]!, '# Report v2\n');
+    expect((await publisher.publish(files, stats)).status).toBe('committed');
+    expect(git(repoPath, 'log', '--format=%s', 'reports')).toBe(
+      'Update daily report 2024-01-15\nAdd daily report 2024-01-15\nInit'
+    );
+  });
+
+  it('publishes from a detached HEAD only when a branch is configured', async () => {
+    git(
+      repoPath,
+      '-c',
+      'user.name=Owner',
+      '-c',
+      'user.email=owner@example.com',
+      'commit',
+      '-qm',
+      'Init',
+      '--allow-empty'
+    );
+    git(repoPath, 'checkout', '--quiet', '--detach');
+
+    const detached = await createGitPublisher(config).publish(files, stats);
+    expect(detached).toEqual({
+      status: 'failed',
+      pushed: false,
+      error: 'HEAD is detached, set a branch to publish to',
+    });
+
+    const result = await createGitPublisher({ ...config, branch: 'main' }).publish(files, stats);
+    expect(result.status).toBe('committed');
+    expect(git(repoPath, 'rev-parse', 'main')).toBe(result.commit);
+    expect(git(repoPath, 'rev-parse', 'HEAD')).not.toBe(result.commit);
+  });
+
+  it('waits for a held index.lock and fails after the retries', async () => {
+    const lockPath = join(repoPath, '.git', 'index.lock');
+    writeFileSync(lockPath, '');
+    setTimeout(() => unlinkSync(lockPath), 15);
+
+    const result = await createGitPublisher(config).publish(files, stats);
+    expect(result.status).toBe('committed');
+
+    writeFileSync(files[0]!, '# Report v2\n');
+    writeFileSync(lockPath, '');
+    const locked = await createGitPublisher({ ...config, lockRetries: 1 }).publish(files, stats);
+
+    expect(locked.status).toBe('failed');
+    expect(locked.error).toMatch(/^git add -- .* failed: .*index\.lock/);
+    expect(existsSync(lockPath)).toBe(true);
+  });
+
+  it('fails when the path is not a git repository', async () => {
+    const result = await createGitPublisher({ ...config, repoPath: outputDir }).publish(
+      files,
+      stats
+    );
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/^git rev-parse --git-dir failed/);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+
+import { generateHtmlReport, escapeHtml } from '@/output/html';
+import type { OrganizedArticle, OrganizedReport } from '@/types/index';
+
+const report: OrganizedReport = {
+  date: '2024-01-15',
+  categories: [
+    {
+      name: 'LLM/エージェント',
+      summary: '本日の<LLM>動向',
+      highlights: ['Claudeの新機能'],
+      articles: [
+        {
+          title: 'Claude <script>alert(1)</script>',
+          url: 'https://example.com/a?x=1&y=2',
+          summary: 'AI summary "A"',
+          source: 'example',
+          relevanceScore: 4,
+          tags: ['LLM', 'Claude'],
+          publishedAt: '2024-01-15T09:00:00Z',
+        },
+        {
+          title: 'Unsafe link',
+          url: 'javascript:alert(1)',
+          summary: '',
+          source: 'example',
+          relevanceScore: 2,
+          tags: [],
+        },
+      ],
+    },
+  ],
+  metadata: {
+    totalCollected: 10,
+    afterDedup: 5,
+    inReport: 2,
+    executionTimeMs: 65000,
+    sourcesStatus: [
+      { sourceId: 'example', tier: 1, success: true, articlesCount: 2 },
+      { sourceId: 'broken', tier: 2, success: false, articlesCount: 0, error: 'timeout <5s>' },
+    ],
+    generatedAt: '2024-01-15T10:00:00.000Z',
+  },
+};
+
+const topArticle: OrganizedArticle = {
+  title: 'Claude <script>alert(1)</script>',
+  url: 'https://example.com/a?x=1&y=2',
+  summary: 'AI summary',
+  source: 'example',
+  relevanceScore: 5,
+  tags: ['LLM'],
+};
+
+describe('generateHtmlReport', () => {
+  it('renders a self-contained document with inline styles and dark mode', () => {
+    const html = generateHtmlReport(report);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('prefers-color-scheme: dark');
+    expect(html).not.toMatch(/<link|<script/);
+  });
+
+  it('escapes text and neutralizes non-http links', () => {
+    const html = generateHtmlReport(report);
+
+    expect(html).toContain('Claude &lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('href="https://example.com/a?x=1&amp;y=2"');
+    expect(html).toContain('AI summary &quot;A&quot;');
+    expect(html).toContain('本日の&lt;LLM&gt;動向');
+    expect(html).toContain('href="#"');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('renders relevance stars, tag chips and the top section', () => {
+    const html = generateHtmlReport({
+      ...report,
+      topArticles: [
+        { rank: 1, reason: '注目の発表', categoryName: 'LLM/エージェント', article: topArticle },
+      ],
+    });
+
+    expect(html).toContain("Today's Top 1");
+    expect(html).toContain('1. <a href=');
+    expect(html).toContain('LLM/エージェント | 注目の発表');
+    expect(html).toContain('★★★★☆');
+    expect(html).toContain('<li class="tag">Claude</li>');
+  });
+
+  it('renders metadata and source status in a collapsible block', () => {
+    const html = generateHtmlReport(report);
+
+    expect(html).toContain('<details class="metadata">');
+    expect(html).toContain('<td>Execution Time</td><td>1m 5s</td>');
+    expect(html).toContain('<td>broken</td><td>2</td><td><span class="ng">✗</span></td>');
+    expect(html).toContain('timeout &lt;5s&gt;');
+
+    expect(generateHtmlReport(report, { includeMetadata: false })).not.toContain('<details');
+  });
+
+  it('marks flagged off-domain articles and lists quarantined URLs without linking them', () => {
+    const html = generateHtmlReport({
+      ...report,
+      topArticles: [
+        {
+          rank: 1,
+          reason: '注目の発表',
+          categoryName: 'LLM/エージェント',
+          article: {
+            ...topArticle,
+            offDomainReason: 'Host blog.example.org is outside the allowed domains (example.com)',
+          },
+        },
+      ],
+      metadata: {
+        ...report.metadata,
+        quarantinedArticles: [
+          {
+            sourceId: 'zenn',
+            url: 'https://fake.example.net/1',
+            title: 'Invented',
+            reason: 'Host fake.example.net is outside the allowed domains (zenn.dev)',
+          },
+        ],
+      },
+    });
+
+    expect(html).toContain(
+      '<span class="warning" title="Host blog.example.org is outside the allowed domains (example.com)">⚠️ Off-domain link</span>'
+    );
+    expect(html).toContain('<td>zenn</td><td>https://fake.example.net/1</td><td>Invented</td>');
+    expect(html).not.toContain('href="https://fake.example.net/1"');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes all HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+    );
+  });
+});
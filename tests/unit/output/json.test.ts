@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  generateJsonReport,
+  parseJsonReport,
+  validateJsonReport,
+  loadJsonReport,
+  REPORT_SCHEMA_VERSION,
+} from '@/output/json';
+import type { OrganizedReport } from '@/types/index';
+
+const report: OrganizedReport = {
+  date: '2024-01-15',
+  topArticles: [
+    {
+      rank: 1,
+      reason: '注目の発表',
+      categoryName: 'LLM/エージェント',
+      article: {
+        title: 'Article A',
+        url: 'https://example.com/a',
+        summary: '概要',
+        source: 'example',
+        relevanceScore: 5,
+        tags: ['LLM'],
+      },
+    },
+  ],
+  categories: [
+    {
+      id: 'llm',
+      name: 'LLM/エージェント',
+      summary: 'カテゴリ概要',
+      highlights: ['ハイライト'],
+      articles: [
+        {
+          title: 'Article A',
+          url: 'https://example.com/a',
+          summary: '概要',
+          source: 'example',
+          relevanceScore: 5,
+          tags: ['LLM'],
+          publishedAt: '2024-01-15T09:00:00Z',
+          dateConfidence: 'high',
+          freshnessPriority: 'high',
+          dateSource: 'published_at',
+        },
+      ],
+    },
+  ],
+  metadata: {
+    totalCollected: 10,
+    afterDedup: 5,
+    inReport: 1,
+    executionTimeMs: 1000,
+    sourcesStatus: [{ sourceId: 'example', tier: 1, success: true, articlesCount: 1 }],
+    generatedAt: '2024-01-15T10:00:00.000Z',
+    organizerCache: { hits: 1, misses: 0 },
+  },
+};
+
+describe('generateJsonReport', () => {
+  it('writes a report that passes validation with the current schema version', () => {
+    const result = parseJsonReport(generateJsonReport(report));
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.report?.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(result.report?.categories[0]?.articles[0]?.dateSource).toBe('published_at');
+    expect(result.report?.metadata.sourcesStatus).toEqual(report.metadata.sourcesStatus);
+  });
+
+  it('rewrites an existing JSON report with the current schema version', () => {
+    const parsed = parseJsonReport(generateJsonReport(report)).report;
+    expect(parsed).not.toBeNull();
+
+    const rewritten = JSON.parse(generateJsonReport(parsed!)) as Record<string, unknown>;
+    expect(Object.keys(rewritten)[0]).toBe('schemaVersion');
+    expect(rewritten.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+  });
+});
+
+describe('validateJsonReport', () => {
+  it('reports errors with JSON paths', () => {
+    const data = JSON.parse(generateJsonReport(report)) as {
+      categories: Array<{ articles: Array<Record<string, unknown>> }>;
+      metadata: { sourcesStatus: Array<Record<string, unknown>>; articleDiagnostics?: unknown };
+    };
+    data.categories[0]!.articles[0]!.relevanceScore = '5';
+    data.categories[0]!.articles[0]!.freshnessPriority = 'urgent';
+    data.metadata.sourcesStatus[0]!.tier = 4;
+    data.metadata.articleDiagnostics = { total: 1, rejectedArticles: 0, byIssue: { missing: '1' }, byField: {} };
+
+    const result = validateJsonReport(data);
+
+    expect(result.valid).toBe(false);
+    expect(result.report).toBeNull();
+    expect(result.errors).toEqual([
+      '$.categories[0].articles[0].relevanceScore: must be an integer',
+      '$.categories[0].articles[0].freshnessPriority: must be one of high, normal, low',
+      '$.metadata.sourcesStatus[0].tier: must be one of 1, 2, 3',
+      '$.metadata.articleDiagnostics.byIssue.missing: must be an integer',
+      '$.metadata.articleDiagnostics.bySource: must be an object',
+    ]);
+  });
+
+  it('rejects unsupported schema versions and non-objects', () => {
+    const data = JSON.parse(generateJsonReport(report)) as Record<string, unknown>;
+    data.schemaVersion = REPORT_SCHEMA_VERSION + 1;
+
+    expect(validateJsonReport(data).errors).toEqual([
+      `$.schemaVersion: unsupported version ${REPORT_SCHEMA_VERSION + 1}`,
+    ]);
+    expect(validateJsonReport([]).errors).toEqual(['$: must be an object']);
+    expect(parseJsonReport('not json').valid).toBe(false);
+  });
+});
+
+describe('loadJsonReport', () => {
+  it('reads and validates a report file', async () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'daily-reporter-')), 'report.json');
+    writeFileSync(filePath, generateJsonReport(report), 'utf-8');
+
+    const result = await loadJsonReport(filePath);
+    expect(result.valid).toBe(true);
+    expect(result.report?.date).toBe('2024-01-15');
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  saveReport,
+  generateReportFilename,
+  generateSimpleReport,
+  generateDailyReport,
+  formatDuration,
+  replaceReportExtension,
+} from '@/output/markdown';
+import type { CollectionResult, DeduplicationResult } from '@/types/index';
+
+const collectionResult: CollectionResult = {
+  articles: [],
+  errors: [],
+  sourcesStatus: {},
+  stats: {
+    totalSources: 0,
+    successfulSources: 0,
+    partialSources: 0,
+    failedSources: 0,
+    totalArticles: 0,
+    executionTimeMs: 0,
+  },
+};
+
+const dedupResult: DeduplicationResult = {
+  articles: [],
+  stats: {
+    totalInput: 0,
+    afterUrlDedup: 0,
+    afterHistoryDedup: 0,
+    afterSimilarityDedup: 0,
+    freshArticles: 0,
+  },
+};
+
+describe('generateReportFilename', () => {
+  it('applies AppConfig.output.filenameFormat', () => {
+    const date = new Date('2024-01-15T12:00:00Z');
+    expect(generateReportFilename(date, 'YYYY-MM-DD.md')).toBe('2024-01-15.md');
+    expect(generateReportFilename(date, 'report_YYYYMMDD.md')).toBe('report_20240115.md');
+  });
+});
+
+describe('replaceReportExtension', () => {
+  it('places other formats next to the markdown report', () => {
+    expect(replaceReportExtension(join('out', '2024-01-15.md'), '.html')).toBe(
+      join('out', '2024-01-15.html')
+    );
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds and minutes', () => {
+    expect(formatDuration(999)).toBe('1s');
+    expect(formatDuration(60000)).toBe('1m 0s');
+  });
+});
+
+describe('generateSimpleReport', () => {
+  it('omits metadata section when includeMetadata is false', () => {
+    const report = generateSimpleReport(
+      [],
+      collectionResult,
+      dedupResult,
+      new Date('2024-01-15T12:00:00Z'),
+      undefined,
+      false
+    );
+
+    expect(report).not.toContain('## Metadata');
+  });
+
+  it('includes article diagnostics, usage and quarantined links in the metadata', () => {
+    const stats = {
+      inputTokens: 1200,
+      outputTokens: 300,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      costUsd: 0.0125,
+      turns: 4,
+      invocations: 2,
+    };
+    const report = generateSimpleReport(
+      [],
+      {
+        ...collectionResult,
+        diagnostics: [
+          { sourceId: 'zenn', article: 'B', field: 'url', issue: 'missing', action: 'rejected', message: '' },
+        ],
+        quarantinedArticles: [
+          { title: 'Invented', url: 'https://fake.example.net/1', source: 'zenn', offDomainReason: 'off' },
+        ],
+      },
+      dedupResult,
+      new Date('2024-01-15T12:00:00Z'),
+      undefined,
+      true,
+      { total: stats, byStage: { collect: stats }, bySource: { zenn: stats } }
+    );
+
+    expect(report).toContain('| Article Issues | 1 issues, 1 rejected (missing: 1) |');
+    expect(report).toContain('| Total | 2 | 1200 | 300 | 4 | $0.0125 |');
+    expect(report).toContain('- **zenn**: https://fake.example.net/1 - Invented (off)');
+  });
+
+  it('marks flagged off-domain articles', () => {
+    const report = generateSimpleReport(
+      [
+        {
+          title: 'Linked post',
+          url: 'https://blog.example.org/post',
+          source: 'hackernews',
+          normalizedUrl: 'https://blog.example.org/post',
+          isNew: true,
+          dateConfidence: 'unknown',
+          freshnessPriority: 'normal',
+          offDomainReason: 'Host blog.example.org is outside the allowed domains (ycombinator.com)',
+        },
+      ],
+      collectionResult,
+      dedupResult,
+      new Date('2024-01-15T12:00:00Z')
+    );
+
+    expect(report).toContain(
+      '**Source:** hackernews | ⚠️ **Off-domain link:** Host blog.example.org is outside the allowed domains (ycombinator.com)'
+    );
+  });
+});
+
+describe('generateDailyReport', () => {
+  it('adds organizer cache stats to the metadata table when provided', () => {
+    const options = {
+      date: new Date('2024-01-15T12:00:00Z'),
+      collectionResult,
+      deduplicationResult: dedupResult,
+      categorizedArticles: new Map(),
+      categoryOrder: [],
+      executionTimeMs: 1000,
+    };
+
+    expect(generateDailyReport(options)).not.toContain('Organizer Cache');
+    expect(
+      generateDailyReport({ ...options, organizerCache: { hits: 3, misses: 2 } })
+    ).toContain('| Organizer Cache | 3 hits / 2 misses |');
+  });
+
+  it('summarizes article diagnostics in the metadata table', () => {
+    const report = generateDailyReport({
+      date: new Date('2024-01-15T12:00:00Z'),
+      collectionResult: {
+        ...collectionResult,
+        diagnostics: [
+          { sourceId: 'zenn', article: '/a', field: 'url', issue: 'relative_url', action: 'fixed', message: '' },
+          { sourceId: 'zenn', article: 'B', field: 'url', issue: 'missing', action: 'rejected', message: '' },
+        ],
+      },
+      deduplicationResult: dedupResult,
+      categorizedArticles: new Map(),
+      categoryOrder: [],
+      executionTimeMs: 1000,
+    });
+
+    expect(report).toContain('| Article Issues | 2 issues, 1 rejected (relative_url: 1, missing: 1) |');
+  });
+
+  it('lists quarantined links with their source after the metadata', () => {
+    const report = generateDailyReport({
+      date: new Date('2024-01-15T12:00:00Z'),
+      collectionResult: {
+        ...collectionResult,
+        quarantinedArticles: [
+          {
+            title: 'Invented',
+            url: 'https://fake.example.net/1',
+            source: 'zenn',
+            offDomainReason: 'Host fake.example.net is outside the allowed domains (zenn.dev)',
+          },
+        ],
+      },
+      deduplicationResult: dedupResult,
+      categorizedArticles: new Map(),
+      categoryOrder: [],
+      executionTimeMs: 1000,
+    });
+
+    expect(report).toContain('## Quarantined Links (1)');
+    expect(report).toContain(
+      '- **zenn**: https://fake.example.net/1 - Invented (Host fake.example.net is outside the allowed domains (zenn.dev))'
+    );
+  });
+
+  it('adds a cost table when usage is provided', () => {
+    const stats = {
+      inputTokens: 1200,
+      outputTokens: 300,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      costUsd: 0.0125,
+      turns: 4,
+      invocations: 2,
+    };
+    const report = generateDailyReport({
+      date: new Date('2024-01-15T12:00:00Z'),
+      collectionResult,
+      deduplicationResult: dedupResult,
+      categorizedArticles: new Map(),
+      categoryOrder: [],
+      executionTimeMs: 1000,
+      usage: { total: stats, byStage: { collect: stats }, bySource: { hackernews: stats } },
+    });
+
+    expect(report).toContain('## Cost');
+    expect(report).toContain('| Stage: collect | 2 | 1200 | 300 | 4 | $0.0125 |');
+    expect(report).toContain('| Source: hackernews | 2 | 1200 | 300 | 4 | $0.0125 |');
+    expect(report).toContain('| Total | 2 | 1200 | 300 | 4 | $0.0125 |');
+  });
+});
+
+describe('saveReport', () => {
+  it('creates missing directories and writes content', async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'daily-reporter-'));
+    const reportPath = join(tmpDir, 'nested', 'report.md');
+
+    await saveReport('# Report\n', reportPath);
+
+    expect(readFileSync(reportPath, 'utf-8')).toBe('# Report\n');
+  });
+
+  it('replaces an existing report without leaving temp files', async () => {
+    const tmpDir = mkdtempSync(join(tmpdir(), 'daily-reporter-'));
+    const reportPath = join(tmpDir, 'report.md');
+    writeFileSync(reportPath, 'old', 'utf-8');
+
+    await saveReport('new', reportPath);
+
+    expect(readFileSync(reportPath, 'utf-8')).toBe('new');
+    expect(readdirSync(tmpDir)).toEqual(['report.md']);
+  });
+});